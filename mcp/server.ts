@@ -8,10 +8,15 @@
  */
 
 import { StrictDB } from 'strictdb';
-import type { StrictDBConfig, BatchOperation } from 'strictdb';
+import type { StrictDBConfig, BatchOperation, AggregateSpec } from 'strictdb';
+import { getToolDefinitions, writeTools } from './tools.js';
+import type { ToolName } from './tools.js';
 
 let db: StrictDB | null = null;
 
+/** STRICTDB_READ_ONLY=true opens a read-only connection and hides every write tool */
+const readOnly = ['1', 'true'].includes((process.env['STRICTDB_READ_ONLY'] ?? '').toLowerCase());
+
 async function getDB(): Promise<StrictDB> {
   if (db) return db;
 
@@ -25,6 +30,7 @@ async function getDB(): Promise<StrictDB> {
     dbName: process.env['STRICTDB_DB_NAME'],
     label: 'MCP',
     guardrails: true,
+    readOnly,
     sanitize: true,
     logging: true,
   };
@@ -37,6 +43,13 @@ async function getDB(): Promise<StrictDB> {
   return db;
 }
 
+/**
+ * The tools this server offers — write tools are omitted in read-only mode.
+ */
+export function listTools() {
+  return getToolDefinitions(readOnly);
+}
+
 /**
  * Handle an MCP tool call. Returns the result as a JSON-serializable object.
  */
@@ -44,6 +57,11 @@ export async function handleToolCall(
   toolName: string,
   args: Record<string, unknown>,
 ): Promise<unknown> {
+  // Hidden tools do not exist as far as a read-only client is concerned
+  if (readOnly && writeTools.has(toolName as ToolName)) {
+    throw new Error(`Unknown tool: ${toolName}`);
+  }
+
   const database = await getDB();
 
   switch (toolName) {
@@ -67,12 +85,39 @@ export async function handleToolCall(
         },
       );
 
+    case 'strictdb_get_by_id':
+      return database.getById(
+        args['collection'] as string,
+        args['id'],
+        { includeMeta: args['includeMeta'] as boolean | undefined },
+      );
+
     case 'strictdb_count':
       return database.count(
         args['collection'] as string,
         args['filter'] as Record<string, unknown> | undefined,
       );
 
+    case 'strictdb_aggregate':
+      return database.aggregate(
+        args['collection'] as string,
+        {
+          match: args['match'] as Record<string, unknown> | undefined,
+          groupBy: args['groupBy'] as string | string[] | undefined,
+          metrics: args['metrics'] as AggregateSpec['metrics'],
+          sort: args['sort'] as Record<string, 1 | -1> | undefined,
+          limit: args['limit'] as number | undefined,
+        },
+      );
+
+    case 'strictdb_distinct':
+      return database.distinct(
+        args['collection'] as string,
+        args['field'] as string,
+        args['filter'] as Record<string, unknown> | undefined,
+        { limit: args['limit'] as number | undefined },
+      );
+
     case 'strictdb_insert_one':
       return database.insertOne(
         args['collection'] as string,
@@ -115,6 +160,9 @@ export async function handleToolCall(
     case 'strictdb_describe':
       return database.describe(args['collection'] as string);
 
+    case 'strictdb_check_schema':
+      return database.checkSchema(args['collection'] as string | undefined);
+
     case 'strictdb_validate':
       return database.validate(
         args['collection'] as string,
@@ -132,7 +180,9 @@ export async function handleToolCall(
           filter: args['filter'] as Record<string, unknown> | undefined,
           sort: args['sort'] as Record<string, unknown> | undefined,
           limit: args['limit'] as number | undefined,
+          aggregate: args['aggregate'] as AggregateSpec | undefined,
         },
+        { analyze: args['analyze'] as boolean | undefined },
       );
 
     case 'strictdb_status':
@@ -34,6 +34,14 @@ export const toolDefinitions = {
       skip: z.number().int().nonnegative().optional().describe('Number of results to skip'),
     }),
   },
+  strictdb_get_by_id: {
+    description: 'Fetch one document by its ID (MongoDB _id, SQL primary key, Elasticsearch document _id). Returns null if not found.',
+    inputSchema: z.object({
+      collection: collectionSchema,
+      id: z.union([z.string(), z.number(), z.record(z.unknown())]).describe('Document ID. For SQL composite keys pass an object: { orderId: 1, lineNo: 2 }'),
+      includeMeta: z.boolean().optional().describe('Elasticsearch only: add _id, _score, _seq_no and _primary_term to each document'),
+    }),
+  },
   strictdb_count: {
     description: 'Count documents matching the filter.',
     inputSchema: z.object({
@@ -41,6 +49,32 @@ export const toolDefinitions = {
       filter: filterSchema.optional(),
     }),
   },
+  strictdb_aggregate: {
+    description: 'Group documents and compute metrics (sum, avg, min, max, count). Use for questions like "revenue by region" instead of fetching rows.',
+    inputSchema: z.object({
+      collection: collectionSchema,
+      match: filterSchema.optional().describe('Filter applied before grouping'),
+      groupBy: z.union([z.string(), z.array(z.string())]).optional().describe('Field(s) to group by. Omit for a single total row'),
+      metrics: z.record(z.union([
+        z.object({ $count: z.literal(true) }),
+        z.object({ $sum: z.string() }),
+        z.object({ $avg: z.string() }),
+        z.object({ $min: z.string() }),
+        z.object({ $max: z.string() }),
+      ])).describe('Output name → metric. Example: { total: { $sum: "amount" }, orders: { $count: true } }'),
+      sort: z.record(z.union([z.literal(1), z.literal(-1)])).optional().describe('Sort by a groupBy field or metric name'),
+      limit: z.number().int().positive().optional().describe('Maximum number of groups'),
+    }),
+  },
+  strictdb_distinct: {
+    description: 'List the distinct values of one field, e.g. to discover valid filter values.',
+    inputSchema: z.object({
+      collection: collectionSchema,
+      field: z.string().describe('Field to collect values from'),
+      filter: filterSchema.optional(),
+      limit: z.number().int().positive().optional().describe('Maximum number of values'),
+    }),
+  },
   strictdb_insert_one: {
     description: 'Insert a single document. Returns an operation receipt.',
     inputSchema: z.object({
@@ -92,6 +126,12 @@ export const toolDefinitions = {
       collection: collectionSchema,
     }),
   },
+  strictdb_check_schema: {
+    description: 'Compare the registered schemas with the live database: missing and extra fields, type and nullability mismatches, and missing indexes. Omit collection to check every registered collection.',
+    inputSchema: z.object({
+      collection: collectionSchema.optional(),
+    }),
+  },
   strictdb_validate: {
     description: 'Dry-run validate an operation without executing it.',
     inputSchema: z.object({
@@ -102,12 +142,14 @@ export const toolDefinitions = {
     }),
   },
   strictdb_explain: {
-    description: 'Show the native query that would be executed.',
+    description: 'Show the native query that would be executed. With analyze: true, also ask the database for its plan and get a summary (usesIndex, indexName, docsExamined, estimatedRows, warnings) — use it to catch full collection scans before running a query.',
     inputSchema: z.object({
       collection: collectionSchema,
       filter: filterSchema.optional(),
       sort: z.record(z.union([z.literal(1), z.literal(-1)])).optional(),
       limit: z.number().int().positive().optional(),
+      aggregate: z.record(z.unknown()).optional().describe('Explain a strictdb_aggregate spec instead: { match, groupBy, metrics, sort, limit }'),
+      analyze: z.boolean().optional().describe('Ask the database how it runs the query. Executes it on MongoDB, PostgreSQL, MSSQL and Elasticsearch'),
     }),
   },
   strictdb_status: {
@@ -115,7 +157,7 @@ export const toolDefinitions = {
     inputSchema: z.object({}),
   },
   strictdb_batch: {
-    description: 'Execute multiple operations in a single optimized batch.',
+    description: 'Execute multiple operations in a single optimized batch. Every operation is sanitized and guardrail-checked first — if any is blocked, nothing runs.',
     inputSchema: z.object({
       operations: z.array(z.object({
         operation: z.enum(['insertOne', 'insertMany', 'updateOne', 'updateMany', 'deleteOne', 'deleteMany']),
@@ -124,7 +166,30 @@ export const toolDefinitions = {
         docs: z.array(z.record(z.unknown())).optional(),
         filter: filterSchema.optional(),
         update: updateSchema.optional(),
+        upsert: z.boolean().optional().describe('updateOne only: create document if not found'),
+        confirm: z.enum(['UPDATE_ALL', 'DELETE_ALL']).optional().describe('Required for updateMany/deleteMany with an empty filter'),
       })),
     }),
   },
 } as const;
+
+export type ToolName = keyof typeof toolDefinitions;
+
+/** Tools that change data — left out of the tool list in read-only mode */
+export const writeTools: ReadonlySet<ToolName> = new Set<ToolName>([
+  'strictdb_insert_one',
+  'strictdb_insert_many',
+  'strictdb_update_one',
+  'strictdb_update_many',
+  'strictdb_delete_one',
+  'strictdb_delete_many',
+  'strictdb_batch',
+]);
+
+/** The tools to advertise: all of them, or only the read tools when readOnly is set */
+export function getToolDefinitions(readOnly: boolean): Partial<typeof toolDefinitions> {
+  if (!readOnly) return toolDefinitions;
+  return Object.fromEntries(
+    Object.entries(toolDefinitions).filter(([name]) => !writeTools.has(name as ToolName)),
+  ) as Partial<typeof toolDefinitions>;
+}
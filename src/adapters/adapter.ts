@@ -6,14 +6,21 @@
  */
 
 import type {
+  AggregateSpec,
   Backend,
+  BatchOperation,
   ConnectionStatus,
   ConfirmOptions,
+  DeleteAndReturnOptions,
   Driver,
+  ExplainSummary,
+  GetByIdOptions,
   LookupOptions,
   OperationReceipt,
   QueryOptions,
+  StreamOptions,
   StrictFilter,
+  UpdateAndReturnOptions,
   UpdateOperators,
 } from '../types.js';
 
@@ -30,7 +37,27 @@ export interface DatabaseAdapter {
   queryOne<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T | null>;
   queryMany<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T[]>;
   queryWithLookup<T>(collection: string, options: LookupOptions<T>): Promise<T | null>;
+  /** One document by its primary key — Mongo _id, SQL primary key or ES document _id */
+  getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null>;
   count<T>(collection: string, filter?: StrictFilter<T>): Promise<number>;
+  /**
+   * One keyset page, sorted by `sort` (which ends in a unique tiebreaker) and
+   * starting strictly after the `after` sort values. Returns each document with
+   * the values to resume after it. Without it, StrictDB uses a range filter with queryMany.
+   */
+  queryPage?<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    options: { sort: Record<string, 1 | -1>; after?: unknown[]; limit: number; projection?: Record<string, 0 | 1> },
+  ): Promise<Array<{ doc: T; sortValues: unknown[] }>>;
+  /** Yield matching documents batch by batch. Omitted by transaction-scoped adapters. */
+  stream?<T>(collection: string, filter: StrictFilter<T>, options?: StreamOptions<T>): AsyncIterable<T>;
+
+  /** Grouped metrics. Rows hold the groupBy fields plus one key per metric. */
+  aggregate?<R>(collection: string, spec: AggregateSpec): Promise<R[]>;
+
+  /** Distinct values of one field among documents matching the filter */
+  distinct?<V>(collection: string, field: string, filter: StrictFilter<unknown>, options?: { limit?: number }): Promise<V[]>;
 
   // ─── Write Operations ─────────────────────────────────────────────
   insertOne<T>(collection: string, doc: T): Promise<OperationReceipt>;
@@ -40,14 +67,43 @@ export interface DatabaseAdapter {
   deleteOne<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt>;
   deleteMany<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt>;
 
+  /**
+   * Atomically update one document and return it as it was before or after
+   * the update. `upserted` is true when nothing matched and a document was inserted.
+   */
+  updateOneAndReturn?<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options: UpdateAndReturnOptions<T>,
+  ): Promise<{ doc: T | null; upserted: boolean }>;
+  /** Atomically delete one document and return it, or null when nothing matched */
+  deleteOneAndReturn?<T>(collection: string, filter: StrictFilter<T>, options: DeleteAndReturnOptions<T>): Promise<T | null>;
+
+  // ─── Batch ────────────────────────────────────────────────────────
+  /** Execute all operations as one unit. Omitted by transaction-scoped adapters. */
+  batch?(operations: BatchOperation[]): Promise<OperationReceipt>;
+
   // ─── Schema ───────────────────────────────────────────────────────
-  ensureCollections?(definitions: Array<{ name: string; sql?: string; mapping?: Record<string, unknown> }>): Promise<void>;
+  /** Create missing tables, indexes or collections — sql for SQL, mapping for Elasticsearch, createCollection options for MongoDB */
+  ensureCollections?(definitions: Array<{ name: string; sql?: string; mapping?: Record<string, unknown>; options?: Record<string, unknown> }>): Promise<void>;
   ensureIndexes?(indexes: Array<{ collection: string; fields: Record<string, 1 | -1>; unique?: boolean; sparse?: boolean; expireAfterSeconds?: number }>): Promise<void>;
+  /** Add fields to an existing index mapping (Elasticsearch) */
+  updateMapping?(collection: string, mapping: Record<string, unknown>): Promise<void>;
+  /** The collection's validator; exists is false when the collection is missing (MongoDB) */
+  getValidator?(collection: string): Promise<{ exists: boolean; validator?: Record<string, unknown> }>;
+  /** Create the collection with this validator, or replace the validator on an existing one (MongoDB) */
+  setValidator?(collection: string, validator: Record<string, unknown>): Promise<void>;
 
   // ─── Introspection ────────────────────────────────────────────────
-  describeCollection?(collection: string): Promise<Array<{ name: string; type: string; required: boolean }>>;
+  describeCollection?(collection: string): Promise<Array<{ name: string; type: string; required: boolean; enum?: string[] }>>;
   getDocumentCount?(collection: string): Promise<number>;
   getIndexes?(collection: string): Promise<Array<{ fields: Record<string, 1 | -1>; unique?: boolean }>>;
+  /**
+   * Ask the database how it runs a native query — the pipeline, SQL (with its
+   * values) or search body that explain() built. Omitted by transaction-scoped adapters.
+   */
+  explainPlan?(collection: string, native: string | object, values?: unknown[]): Promise<{ plan: unknown; summary: ExplainSummary }>;
 
   // ─── Transactions ────────────────────────────────────────────────
   withTransaction?<T>(fn: (txAdapter: DatabaseAdapter) => Promise<T>): Promise<T>;
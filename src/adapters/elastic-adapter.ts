@@ -7,45 +7,86 @@
 
 import type { DatabaseAdapter } from './adapter.js';
 import type {
+  AggregateSpec,
   Backend,
+  BatchFailure,
+  BatchOperation,
   ConfirmOptions,
   ConnectionStatus,
+  DeleteAndReturnOptions,
   Driver,
+  ExplainSummary,
+  GetByIdOptions,
   LookupOptions,
   OperationReceipt,
+  PoolPreset,
   QueryOptions,
+  SortSpec,
+  StreamOptions,
   StrictDBConfig,
   StrictFilter,
+  UpdateAndReturnOptions,
   UpdateOperators,
 } from '../types.js';
 import { mapNativeError, StrictDBError } from '../errors.js';
 import { createReceipt } from '../receipts.js';
 import type { StrictDBEventEmitter } from '../events.js';
 import { ReconnectManager } from '../reconnect.js';
+import { toBatchFailure } from '../batch.js';
 import {
+  buildElasticDistinctBody,
+  buildUpsertDocument,
+  elasticTermsField,
   translateToElastic,
   translateSortToElastic,
   translateUpdateToElastic,
 } from '../filter-translator.js';
 import { validateIndexName } from '../sanitize.js';
+import { DEFAULT_BATCH_SIZE } from '../keyset.js';
+import { buildElasticAggregateBody, normalizeAggregate, parseElasticAggregation } from '../aggregate.js';
+import { summarizeElasticProfile } from '../explain.js';
+import { elasticIndexedFields } from '../describe.js';
 
 // Lazy-loaded Elasticsearch client
 type ElasticClient = {
   search(params: Record<string, unknown>): Promise<Record<string, unknown>>;
+  get(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   index(params: Record<string, unknown>): Promise<Record<string, unknown>>;
+  update(params: Record<string, unknown>): Promise<Record<string, unknown>>;
+  delete(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   bulk(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   count(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   updateByQuery(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   deleteByQuery(params: Record<string, unknown>): Promise<Record<string, unknown>>;
+  openPointInTime(params: Record<string, unknown>): Promise<Record<string, unknown>>;
+  closePointInTime(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   indices: {
     create(params: Record<string, unknown>): Promise<Record<string, unknown>>;
     exists(params: Record<string, unknown>): Promise<boolean>;
     getMapping(params: Record<string, unknown>): Promise<Record<string, unknown>>;
+    putMapping(params: Record<string, unknown>): Promise<Record<string, unknown>>;
   };
   ping(): Promise<boolean>;
   close(): Promise<void>;
+  diagnostic: {
+    on(event: 'request' | 'response', listener: (err: unknown, result: DiagnosticResult | null) => void): void;
+  };
 };
 
+type DiagnosticResult = { meta?: { request?: { id?: unknown } } };
+
+/** Elasticsearch's default index.max_result_window — the most hits one search can return */
+const MAX_RESULT_WINDOW = 10_000;
+
+/** How long a point-in-time stays open between stream batches */
+const PIT_KEEP_ALIVE = '1m';
+
+/** Reads before a find-and-modify gives up on a document that keeps changing under it */
+const MAX_CONFLICT_RETRIES = 3;
+
+/** Sockets per node for each pool preset — same sizes as the Mongo/SQL presets */
+const POOL_CONNECTIONS: Record<PoolPreset, number> = { high: 20, standard: 10, low: 5 };
+
 export class ElasticAdapter implements DatabaseAdapter {
   readonly backend: Backend = 'elastic';
   readonly driver: Driver = 'elasticsearch';
@@ -55,6 +96,8 @@ export class ElasticAdapter implements DatabaseAdapter {
   private reconnectManager: ReconnectManager;
   private client: ElasticClient | null = null;
   private connectedAt: Date | null = null;
+  /** IDs of requests sent but not yet answered (retries reuse the same ID) */
+  private inFlight = new Set<unknown>();
 
   constructor(config: StrictDBConfig, emitter: StrictDBEventEmitter) {
     this.config = config;
@@ -67,6 +110,7 @@ export class ElasticAdapter implements DatabaseAdapter {
       const { Client } = await import('@elastic/elasticsearch');
       const clientOpts: Record<string, unknown> = {
         node: this.config.uri,
+        agent: { connections: this.maxConnections },
       };
 
       if (this.config.elastic?.apiKey) {
@@ -80,6 +124,13 @@ export class ElasticAdapter implements DatabaseAdapter {
       }
 
       this.client = new Client(clientOpts) as unknown as ElasticClient;
+      this.client.diagnostic.on('request', (err, result) => {
+        if (!err) this.inFlight.add(result?.meta?.request?.id);
+      });
+      this.client.diagnostic.on('response', (err, result) => {
+        this.inFlight.delete(result?.meta?.request?.id);
+        if (err) this.detectConnectionLoss(mapNativeError('elastic', err));
+      });
       await this.client.ping();
       this.connectedAt = new Date();
 
@@ -104,13 +155,14 @@ export class ElasticAdapter implements DatabaseAdapter {
 
   status(): ConnectionStatus {
     return {
-      state: this.connectedAt ? 'connected' : 'disconnected',
+      state: this.reconnectManager.isReconnecting ? 'reconnecting' : this.connectedAt ? 'connected' : 'disconnected',
       backend: 'elastic',
       driver: 'elasticsearch',
       uri: this.config.uri,
       dbName: this.config.dbName ?? 'elasticsearch',
       uptimeMs: this.connectedAt ? Date.now() - this.connectedAt.getTime() : 0,
-      pool: { active: 0, idle: 0, waiting: 0, max: 10 },
+      // The client keeps no idle/queue counters — only in-flight requests are observable
+      pool: { active: this.inFlight.size, idle: 0, waiting: 0, max: this.maxConnections },
       reconnect: {
         enabled: this.reconnectManager.enabled,
         attempts: this.reconnectManager.attemptCount,
@@ -119,6 +171,10 @@ export class ElasticAdapter implements DatabaseAdapter {
     };
   }
 
+  private get maxConnections(): number {
+    return POOL_CONNECTIONS[this.config.pool ?? 'standard'];
+  }
+
   private getClient(): ElasticClient {
     if (!this.client) {
       throw new StrictDBError({
@@ -131,7 +187,27 @@ export class ElasticAdapter implements DatabaseAdapter {
     return this.client;
   }
 
+  // ─── Connection Loss ─────────────────────────────────────────────────────
+
+  /** Map a client error, starting the reconnect loop if the connection was lost. */
+  private mapError(err: unknown, collection?: string, operation?: string): StrictDBError {
+    const mapped = mapNativeError('elastic', err, collection, operation);
+    this.detectConnectionLoss(mapped);
+    return mapped;
+  }
+
+  private detectConnectionLoss(err: StrictDBError): void {
+    if (err.code !== 'CONNECTION_LOST') return;
+    // The client resurrects dead nodes itself — reconnected once the cluster answers a ping
+    this.reconnectManager.trigger(async () => {
+      if (!(await this.getClient().ping())) {
+        throw new Error('Elasticsearch ping failed');
+      }
+    });
+  }
+
   async queryOne<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     try {
       const client = this.getClient();
@@ -146,6 +222,9 @@ export class ElasticAdapter implements DatabaseAdapter {
       if (options?.sort) {
         (params['body'] as Record<string, unknown>)['sort'] = translateSortToElastic(options.sort as Record<string, unknown>);
       }
+      if (options?.includeMeta) {
+        (params['body'] as Record<string, unknown>)['seq_no_primary_term'] = true;
+      }
       if (options?.projection) {
         params['_source'] = Object.entries(options.projection)
           .filter(([, v]) => v === 1)
@@ -155,13 +234,14 @@ export class ElasticAdapter implements DatabaseAdapter {
       const result = await client.search(params);
       const hits = (result['hits'] as Record<string, unknown>)?.['hits'] as Array<Record<string, unknown>> | undefined;
       if (!hits || hits.length === 0) return null;
-      return hits[0]!['_source'] as T;
+      return toDocument<T>(hits[0]!, options?.includeMeta);
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'queryOne');
+      throw this.mapError(err, collection, 'queryOne');
     }
   }
 
   async queryMany<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T[]> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     try {
       const client = this.getClient();
@@ -171,6 +251,9 @@ export class ElasticAdapter implements DatabaseAdapter {
       if (options?.sort) {
         body['sort'] = translateSortToElastic(options.sort as Record<string, unknown>);
       }
+      if (options?.includeMeta) {
+        body['seq_no_primary_term'] = true;
+      }
 
       const params: Record<string, unknown> = {
         index: collection,
@@ -190,13 +273,105 @@ export class ElasticAdapter implements DatabaseAdapter {
       const result = await client.search(params);
       const hits = (result['hits'] as Record<string, unknown>)?.['hits'] as Array<Record<string, unknown>> | undefined;
       if (!hits) return [];
-      return hits.map(h => h['_source'] as T);
+      return hits.map(h => toDocument<T>(h, options?.includeMeta));
+    } catch (err) {
+      throw this.mapError(err, collection, 'queryMany');
+    }
+  }
+
+  /** search_after on the sort values of the previous page's last hit */
+  async queryPage<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    options: { sort: Record<string, 1 | -1>; after?: unknown[]; limit: number; projection?: Record<string, 0 | 1> },
+  ): Promise<Array<{ doc: T; sortValues: unknown[] }>> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const body: Record<string, unknown> = {
+        query: translateToElastic(filter as Record<string, unknown>),
+        sort: translateSortToElastic(options.sort),
+      };
+      if (options.after) body['search_after'] = options.after;
+
+      const params: Record<string, unknown> = { index: collection, body, size: options.limit };
+      if (options.projection) params['_source'] = toSourceFilter(options.projection);
+
+      const result = await this.getClient().search(params);
+      const hits = ((result['hits'] as Record<string, unknown>)?.['hits'] ?? []) as Array<Record<string, unknown>>;
+      return hits.map(h => ({ doc: h['_source'] as T, sortValues: h['sort'] as unknown[] }));
+    } catch (err) {
+      throw this.mapError(err, collection, 'paginate');
+    }
+  }
+
+  /**
+   * Point-in-time + search_after: every batch reads the same snapshot, and
+   * _shard_doc breaks ties so no hit is skipped or repeated. Not capped by
+   * max_result_window.
+   */
+  async *stream<T>(collection: string, filter: StrictFilter<T>, options?: StreamOptions<T>): AsyncIterable<T> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    const client = this.getClient();
+    const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+    let remaining = options?.limit ?? Infinity;
+    let pitId: string | undefined;
+
+    try {
+      const pit = await client.openPointInTime({ index: collection, keep_alive: PIT_KEEP_ALIVE });
+      pitId = pit['id'] as string;
+
+      const body: Record<string, unknown> = {
+        query: translateToElastic(filter as Record<string, unknown>),
+        sort: [
+          ...(options?.sort ? translateSortToElastic(options.sort as Record<string, unknown>) : []),
+          { _shard_doc: 'asc' },
+        ],
+      };
+      if (options?.projection) body['_source'] = toSourceFilter(options.projection as Record<string, unknown>);
+
+      while (remaining > 0) {
+        const size = Math.min(batchSize, remaining);
+        const result = await client.search({
+          body: { ...body, size, pit: { id: pitId, keep_alive: PIT_KEEP_ALIVE } },
+        });
+        pitId = (result['pit_id'] as string | undefined) ?? pitId;
+        const hits = ((result['hits'] as Record<string, unknown>)?.['hits'] ?? []) as Array<Record<string, unknown>>;
+        if (hits.length === 0) return;
+
+        for (const hit of hits) yield hit['_source'] as T;
+        remaining -= hits.length;
+        if (hits.length < size) return;
+        body['search_after'] = hits[hits.length - 1]!['sort'];
+      }
+    } catch (err) {
+      throw this.mapError(err, collection, 'stream');
+    } finally {
+      if (pitId) await client.closePointInTime({ id: pitId }).catch(() => {});
+    }
+  }
+
+  async getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const params: Record<string, unknown> = { index: collection, id: String(id) };
+      if (options?.projection) {
+        params['_source'] = Object.entries(options.projection)
+          .filter(([, v]) => v === 1)
+          .map(([k]) => k);
+      }
+      const result = await this.getClient().get(params);
+      return toDocument<T>(result, options?.includeMeta);
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'queryMany');
+      if (isMissingDocument(err)) return null;
+      throw this.mapError(err, collection, 'getById');
     }
   }
 
   async queryWithLookup<T>(collection: string, options: LookupOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
     // ES has no server-side joins — do two queries
     const doc = await this.queryOne<Record<string, unknown>>(collection, options.match as StrictFilter<Record<string, unknown>>);
     if (!doc) return null;
@@ -206,7 +381,9 @@ export class ElasticAdapter implements DatabaseAdapter {
 
     const related = await this.queryMany<Record<string, unknown>>(
       options.lookup.from,
-      { [options.lookup.foreignField]: localValue } as StrictFilter<Record<string, unknown>>,
+      (options.lookup.match
+        ? { $and: [{ [options.lookup.foreignField]: localValue }, options.lookup.match] }
+        : { [options.lookup.foreignField]: localValue }) as StrictFilter<Record<string, unknown>>,
       { limit: options.limit ?? 100 },
     );
 
@@ -218,6 +395,7 @@ export class ElasticAdapter implements DatabaseAdapter {
   }
 
   async count<T>(collection: string, filter?: StrictFilter<T>): Promise<number> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     try {
       const client = this.getClient();
@@ -229,18 +407,73 @@ export class ElasticAdapter implements DatabaseAdapter {
       });
       return (result['count'] as number) ?? 0;
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'count');
+      throw this.mapError(err, collection, 'count');
+    }
+  }
+
+  async aggregate<R>(collection: string, spec: AggregateSpec): Promise<R[]> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const agg = normalizeAggregate(spec, 'elastic');
+      const result = await this.getClient().search({ index: collection, body: buildElasticAggregateBody(agg) });
+      return parseElasticAggregation(result, agg) as R[];
+    } catch (err) {
+      throw this.mapError(err, collection, 'aggregate');
+    }
+  }
+
+  /** terms aggregation, sorted by value — text fields aggregate on their keyword sub-field */
+  async distinct<V>(collection: string, field: string, filter: StrictFilter<unknown>, options?: { limit?: number }): Promise<V[]> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    let termsField: string | null;
+    try {
+      const mapping = await this.getClient().indices.getMapping({ index: collection });
+      const indexMapping = (mapping[collection] as Record<string, unknown>)?.['mappings'] as Record<string, unknown>;
+      termsField = elasticTermsField(field, (indexMapping?.['properties'] ?? {}) as Record<string, Record<string, unknown>>);
+    } catch (err) {
+      throw this.mapError(err, collection, 'distinct');
+    }
+    if (termsField === null) {
+      throw new StrictDBError({
+        code: 'VALIDATION_ERROR',
+        message: `"${field}" is a text field without a keyword sub-field — Elasticsearch cannot list its distinct values.`,
+        fix: `Map "${field}" as keyword, or add a keyword sub-field: { type: 'text', fields: { keyword: { type: 'keyword' } } }`,
+        backend: 'elastic',
+        collection,
+        operation: 'distinct',
+      });
+    }
+
+    try {
+      const result = await this.getClient().search({
+        index: collection,
+        body: buildElasticDistinctBody(termsField, filter as Record<string, unknown>, options?.limit ?? MAX_RESULT_WINDOW),
+      });
+      const aggregations = result['aggregations'] as { values?: { buckets?: Array<{ key: unknown; key_as_string?: string }> } } | undefined;
+      // Booleans and dates come back as numeric keys — key_as_string holds the readable value
+      return (aggregations?.values?.buckets ?? []).map(b => {
+        if (b.key_as_string === 'true' || b.key_as_string === 'false') return (b.key_as_string === 'true') as V;
+        return (b.key_as_string ?? b.key) as V;
+      });
+    } catch (err) {
+      throw this.mapError(err, collection, 'distinct');
     }
   }
 
   async insertOne<T>(collection: string, doc: T): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     const startTime = Date.now();
     try {
       const client = this.getClient();
-      await client.index({
+      // A document that brings its own _id is created under it — a second insert conflicts, as on MongoDB
+      const { _id: id, ...body } = doc as Record<string, unknown>;
+      const result = await client.index({
         index: collection,
-        body: doc,
+        ...(id === undefined ? {} : { id: String(id), op_type: 'create' }),
+        body,
         refresh: 'wait_for',
       });
       return createReceipt({
@@ -249,13 +482,15 @@ export class ElasticAdapter implements DatabaseAdapter {
         backend: 'elastic',
         startTime,
         insertedCount: 1,
+        insertedIds: [result['_id']],
       });
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'insertOne');
+      throw this.mapError(err, collection, 'insertOne');
     }
   }
 
   async insertMany<T>(collection: string, docs: T[]): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     const startTime = Date.now();
     try {
@@ -266,10 +501,11 @@ export class ElasticAdapter implements DatabaseAdapter {
         operations.push(doc as Record<string, unknown>);
       }
 
-      await client.bulk({
+      const result = await client.bulk({
         body: operations,
         refresh: 'wait_for',
       });
+      const items = (result['items'] as Array<Record<string, Record<string, unknown>>>) ?? [];
 
       return createReceipt({
         operation: 'insertMany',
@@ -277,13 +513,15 @@ export class ElasticAdapter implements DatabaseAdapter {
         backend: 'elastic',
         startTime,
         insertedCount: docs.length,
+        insertedIds: items.map(item => item['index']?.['_id']),
       });
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'insertMany');
+      throw this.mapError(err, collection, 'insertMany');
     }
   }
 
-  async updateOne<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>, _upsert?: boolean): Promise<OperationReceipt> {
+  async updateOne<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>, upsert?: boolean): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     const startTime = Date.now();
     try {
@@ -306,6 +544,20 @@ export class ElasticAdapter implements DatabaseAdapter {
       });
 
       const updated = (result['updated'] as number) ?? 0;
+      if (upsert && ((result['total'] as number) ?? updated) === 0) {
+        // created is false only if a document with the filter's _id appeared meanwhile
+        const { id, created } = await this.upsertOne(collection, filter, update);
+        return createReceipt({
+          operation: 'updateOne',
+          collection,
+          backend: 'elastic',
+          startTime,
+          matchedCount: created ? 0 : 1,
+          modifiedCount: created ? 0 : 1,
+          insertedCount: created ? 1 : 0,
+          upsertedId: created ? id : undefined,
+        });
+      }
       return createReceipt({
         operation: 'updateOne',
         collection,
@@ -315,11 +567,56 @@ export class ElasticAdapter implements DatabaseAdapter {
         modifiedCount: updated,
       });
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'updateOne');
+      throw this.mapError(err, collection, 'updateOne');
+    }
+  }
+
+  async updateOneAndReturn<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options: UpdateAndReturnOptions<T>,
+  ): Promise<{ doc: T | null; upserted: boolean }> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const client = this.getClient();
+      const script = translateUpdateToElastic(update as UpdateOperators<Record<string, unknown>>);
+
+      for (let attempt = 1; ; attempt++) {
+        const hit = await this.findOneHit(collection, filter, options.sort);
+        if (!hit) break;
+        try {
+          // Only applies if nobody wrote the document since it was read
+          const result = await client.update({
+            index: collection,
+            id: hit['_id'],
+            if_seq_no: hit['_seq_no'],
+            if_primary_term: hit['_primary_term'],
+            body: { script: { source: script.source, params: script.params, lang: 'painless' } },
+            _source: true,
+            refresh: 'wait_for',
+          });
+          const doc = options.returnDocument === 'before'
+            ? hit['_source']
+            : (result['get'] as Record<string, unknown> | undefined)?.['_source'];
+          return { doc: (doc as T) ?? null, upserted: false };
+        } catch (err) {
+          if (attempt < MAX_CONFLICT_RETRIES && isConcurrentChange(err)) continue;
+          throw err;
+        }
+      }
+
+      if (!options.upsert) return { doc: null, upserted: false };
+      const upserted = await this.upsertOne(collection, filter, update);
+      return { doc: options.returnDocument === 'before' ? null : upserted.doc as T, upserted: upserted.created };
+    } catch (err) {
+      throw this.mapError(err, collection, 'updateOneAndReturn');
     }
   }
 
   async updateMany<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     const startTime = Date.now();
     try {
@@ -350,11 +647,12 @@ export class ElasticAdapter implements DatabaseAdapter {
         modifiedCount: updated,
       });
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'updateMany');
+      throw this.mapError(err, collection, 'updateMany');
     }
   }
 
   async deleteOne<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     const startTime = Date.now();
     try {
@@ -377,11 +675,39 @@ export class ElasticAdapter implements DatabaseAdapter {
         deletedCount: deleted,
       });
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'deleteOne');
+      throw this.mapError(err, collection, 'deleteOne');
+    }
+  }
+
+  async deleteOneAndReturn<T>(collection: string, filter: StrictFilter<T>, options: DeleteAndReturnOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const client = this.getClient();
+      for (let attempt = 1; ; attempt++) {
+        const hit = await this.findOneHit(collection, filter, options.sort);
+        if (!hit) return null;
+        try {
+          await client.delete({
+            index: collection,
+            id: hit['_id'],
+            if_seq_no: hit['_seq_no'],
+            if_primary_term: hit['_primary_term'],
+            refresh: 'wait_for',
+          });
+          return hit['_source'] as T;
+        } catch (err) {
+          if (attempt < MAX_CONFLICT_RETRIES && isConcurrentChange(err)) continue;
+          throw err;
+        }
+      }
+    } catch (err) {
+      throw this.mapError(err, collection, 'deleteOneAndReturn');
     }
   }
 
   async deleteMany<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     const startTime = Date.now();
     try {
@@ -403,7 +729,224 @@ export class ElasticAdapter implements DatabaseAdapter {
         deletedCount: deleted,
       });
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'deleteMany');
+      throw this.mapError(err, collection, 'deleteMany');
+    }
+  }
+
+  async batch(operations: BatchOperation[]): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
+    const startTime = Date.now();
+    const client = this.getClient();
+    const body: Record<string, unknown>[] = [];
+    // Batch index of each bulk action, in the order they appear in the request
+    const actionIndexes: number[] = [];
+    // Positions of bulk actions that insert an upsert document
+    const upsertActions = new Set<number>();
+    const errors: BatchFailure[] = [];
+    let matchedCount = 0;
+
+    // 1. Translate operations into bulk actions. Filter-based updates/deletes
+    //    are resolved to document IDs first — _bulk only addresses documents by _id.
+    for (const [index, op] of operations.entries()) {
+      try {
+        validateIndexName(op.collection);
+        switch (op.operation) {
+          case 'insertOne':
+            body.push({ index: { _index: op.collection } }, op.doc);
+            actionIndexes.push(index);
+            break;
+          case 'insertMany':
+            for (const doc of op.docs) {
+              body.push({ index: { _index: op.collection } }, doc);
+              actionIndexes.push(index);
+            }
+            break;
+          case 'updateOne':
+          case 'updateMany': {
+            const script = translateUpdateToElastic(op.update);
+            const ids = await this.resolveIds(op.collection, op.filter, op.operation === 'updateOne');
+            matchedCount += ids.length;
+            if (ids.length === 0 && op.operation === 'updateOne' && op.upsert) {
+              // Same document as upsertOne(): an update with upsert when the filter pins _id
+              const { _id: id, ...doc } = buildUpsertDocument(op.filter as Record<string, unknown>, op.update as UpdateOperators<Record<string, unknown>>);
+              upsertActions.add(actionIndexes.length);
+              if (id === undefined) {
+                body.push({ index: { _index: op.collection } }, doc);
+              } else {
+                body.push(
+                  { update: { _index: op.collection, _id: String(id) } },
+                  { script: { source: script.source, params: script.params, lang: 'painless' }, upsert: doc },
+                );
+              }
+              actionIndexes.push(index);
+            }
+            for (const id of ids) {
+              body.push(
+                { update: { _index: op.collection, _id: id } },
+                { script: { source: script.source, params: script.params, lang: 'painless' } },
+              );
+              actionIndexes.push(index);
+            }
+            break;
+          }
+          case 'deleteOne':
+          case 'deleteMany': {
+            const ids = await this.resolveIds(op.collection, op.filter, op.operation === 'deleteOne');
+            for (const id of ids) {
+              body.push({ delete: { _index: op.collection, _id: id } });
+              actionIndexes.push(index);
+            }
+            break;
+          }
+        }
+      } catch (err) {
+        errors.push(toBatchFailure('elastic', index, op, err));
+      }
+    }
+
+    let insertedCount = 0;
+    let modifiedCount = 0;
+    let deletedCount = 0;
+    const insertedIds: unknown[] = [];
+
+    // 2. One _bulk request, then map per-item results back to batch operations
+    if (body.length > 0) {
+      let result: Record<string, unknown>;
+      try {
+        result = await client.bulk({ body, refresh: 'wait_for' });
+      } catch (err) {
+        throw this.mapError(err, 'batch', 'batch');
+      }
+
+      const items = (result['items'] as Array<Record<string, Record<string, unknown>>>) ?? [];
+      items.forEach((item, i) => {
+        const index = actionIndexes[i]!;
+        const [action, outcome] = Object.entries(item)[0] ?? [];
+        if (!action || !outcome) return;
+
+        const error = outcome['error'] as Record<string, unknown> | undefined;
+        if (error) {
+          if (!errors.some(e => e.index === index)) {
+            errors.push(toBatchFailure('elastic', index, operations[index]!, {
+              statusCode: outcome['status'],
+              message: `${String(error['type'])}: ${String(error['reason'])}`,
+            }));
+          }
+          return;
+        }
+
+        switch (action) {
+          case 'index':
+            insertedCount++;
+            if (!upsertActions.has(i)) insertedIds.push(outcome['_id']);
+            break;
+          case 'update':
+            if (outcome['result'] === 'created') insertedCount++;
+            else if (outcome['result'] === 'updated') modifiedCount++;
+            break;
+          case 'delete':
+            if (outcome['result'] === 'deleted') deletedCount++;
+            break;
+        }
+      });
+    }
+
+    errors.sort((a, b) => a.index - b.index);
+    return createReceipt({
+      operation: 'batch',
+      collection: 'batch',
+      backend: 'elastic',
+      startTime,
+      matchedCount,
+      modifiedCount,
+      insertedCount,
+      deletedCount,
+      insertedIds,
+      success: errors.length === 0,
+      errors,
+    });
+  }
+
+  /**
+   * Insert the upsert document once the filter matched nothing — the filter's
+   * equality fields plus $set, as on SQL. When the filter pins an _id this is
+   * one update with `upsert`, which runs the script instead if that document
+   * appeared in the meantime; otherwise the document is indexed under a new _id.
+   */
+  private async upsertOne<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+  ): Promise<{ id: unknown; doc: Record<string, unknown>; created: boolean }> {
+    const client = this.getClient();
+    const { _id: id, ...doc } = buildUpsertDocument(filter as Record<string, unknown>, update as UpdateOperators<Record<string, unknown>>);
+    if (id === undefined) {
+      const result = await client.index({ index: collection, body: doc, refresh: 'wait_for' });
+      return { id: result['_id'], doc, created: true };
+    }
+
+    const script = translateUpdateToElastic(update as UpdateOperators<Record<string, unknown>>);
+    const result = await client.update({
+      index: collection,
+      id: String(id),
+      body: { script: { source: script.source, params: script.params, lang: 'painless' }, upsert: doc },
+      _source: true,
+      refresh: 'wait_for',
+    });
+    const created = result['result'] === 'created';
+    const stored = (result['get'] as Record<string, unknown> | undefined)?.['_source'] as Record<string, unknown> | undefined;
+    return { id, doc: stored ?? doc, created };
+  }
+
+  /** First hit for a filter, with the sequence number and primary term for a conditional write. */
+  private async findOneHit<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    sort?: SortSpec<T>,
+  ): Promise<Record<string, unknown> | null> {
+    const body: Record<string, unknown> = {
+      query: translateToElastic(filter as Record<string, unknown>),
+      seq_no_primary_term: true,
+    };
+    if (sort) body['sort'] = translateSortToElastic(sort as Record<string, unknown>);
+    const result = await this.getClient().search({ index: collection, size: 1, body });
+    const hits = (result['hits'] as Record<string, unknown>)?.['hits'] as Array<Record<string, unknown>> | undefined;
+    return hits?.[0] ?? null;
+  }
+
+  /**
+   * Find the _id of every document matching a filter, or of the first one.
+   * Pages through a point-in-time with search_after like stream(), so
+   * matches past max_result_window are not skipped.
+   */
+  private async resolveIds(collection: string, filter: StrictFilter<Record<string, unknown>>, firstOnly: boolean): Promise<string[]> {
+    const client = this.getClient();
+    const query = translateToElastic(filter as Record<string, unknown>);
+    const hitsOf = (result: Record<string, unknown>) =>
+      (((result['hits'] as Record<string, unknown>)?.['hits'] ?? []) as Array<Record<string, unknown>>);
+
+    if (firstOnly) {
+      const result = await client.search({ index: collection, size: 1, _source: false, body: { query } });
+      return hitsOf(result).map(h => h['_id'] as string);
+    }
+
+    const ids: string[] = [];
+    let pitId: string | undefined;
+    try {
+      const pit = await client.openPointInTime({ index: collection, keep_alive: PIT_KEEP_ALIVE });
+      pitId = pit['id'] as string;
+      const body: Record<string, unknown> = { query, _source: false, sort: [{ _shard_doc: 'asc' }], size: DEFAULT_BATCH_SIZE };
+
+      for (;;) {
+        const result = await client.search({ body: { ...body, pit: { id: pitId, keep_alive: PIT_KEEP_ALIVE } } });
+        pitId = (result['pit_id'] as string | undefined) ?? pitId;
+        const hits = hitsOf(result);
+        ids.push(...hits.map(h => h['_id'] as string));
+        if (hits.length < DEFAULT_BATCH_SIZE) return ids;
+        body['search_after'] = hits[hits.length - 1]!['sort'];
+      }
+    } finally {
+      if (pitId) await client.closePointInTime({ id: pitId }).catch(() => {});
     }
   }
 
@@ -417,6 +960,7 @@ export class ElasticAdapter implements DatabaseAdapter {
   }
 
   async ensureCollections(definitions: Array<{ name: string; mapping?: Record<string, unknown> }>): Promise<void> {
+    await this.reconnectManager.ready();
     const client = this.getClient();
     for (const def of definitions) {
       const exists = await client.indices.exists({ index: def.name });
@@ -430,7 +974,18 @@ export class ElasticAdapter implements DatabaseAdapter {
     }
   }
 
+  async updateMapping(collection: string, mapping: Record<string, unknown>): Promise<void> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      await this.getClient().indices.putMapping({ index: collection, body: mapping });
+    } catch (err) {
+      throw this.mapError(err, collection, 'migrate');
+    }
+  }
+
   async describeCollection(collection: string): Promise<Array<{ name: string; type: string; required: boolean }>> {
+    await this.reconnectManager.ready();
     validateIndexName(collection);
     try {
       const client = this.getClient();
@@ -444,7 +999,7 @@ export class ElasticAdapter implements DatabaseAdapter {
         required: false, // ES doesn't enforce required fields via mapping
       }));
     } catch (err) {
-      throw mapNativeError('elastic', err, collection, 'describe');
+      throw this.mapError(err, collection, 'describe');
     }
   }
 
@@ -452,7 +1007,61 @@ export class ElasticAdapter implements DatabaseAdapter {
     return this.count(collection);
   }
 
+  async getIndexes(collection: string): Promise<Array<{ fields: Record<string, 1 | -1> }>> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const mapping = await this.getClient().indices.getMapping({ index: collection });
+      const indexMapping = (mapping[collection] as Record<string, unknown>)?.['mappings'] as Record<string, unknown>;
+      return elasticIndexedFields((indexMapping?.['properties'] ?? {}) as Record<string, Record<string, unknown>>);
+    } catch (err) {
+      throw this.mapError(err, collection, 'getIndexes');
+    }
+  }
+
+  async explainPlan(collection: string, native: string | object): Promise<{ plan: unknown; summary: ExplainSummary }> {
+    await this.reconnectManager.ready();
+    validateIndexName(collection);
+    try {
+      const result = await this.getClient().search({ index: collection, body: { ...(native as Record<string, unknown>), profile: true } });
+      return { plan: result['profile'], summary: summarizeElasticProfile(result) };
+    } catch (err) {
+      throw this.mapError(err, collection, 'explain');
+    }
+  }
+
   raw(): unknown {
     return this.client;
   }
 }
+
+/** _source filter for a projection: the included fields, or { excludes } for an exclusion projection */
+function toSourceFilter(projection: Record<string, unknown>): string[] | { excludes: string[] } {
+  const included = Object.entries(projection).filter(([, v]) => v === 1).map(([k]) => k);
+  return included.length > 0 ? included : { excludes: Object.keys(projection) };
+}
+
+/** A hit or GET response as a document — its _source, plus _id, _score, _seq_no and _primary_term on request */
+function toDocument<T>(hit: Record<string, unknown>, includeMeta?: boolean): T {
+  const source = hit['_source'] as Record<string, unknown>;
+  if (!includeMeta) return source as T;
+  const meta = Object.entries({
+    _id: hit['_id'],
+    _score: hit['_score'],
+    _seq_no: hit['_seq_no'],
+    _primary_term: hit['_primary_term'],
+  }).filter(([, value]) => value !== undefined);
+  return { ...source, ...Object.fromEntries(meta) } as T;
+}
+
+/** 404 from a document GET because the document is absent — a missing index is a 404 too */
+function isMissingDocument(err: unknown): boolean {
+  const response = err as { statusCode?: number; body?: { found?: boolean } } | null;
+  return response?.statusCode === 404 && response.body?.found === false;
+}
+
+/** 409/404 on a conditional write — the document changed or vanished since it was read */
+function isConcurrentChange(err: unknown): boolean {
+  const statusCode = (err as { statusCode?: number } | null)?.statusCode;
+  return statusCode === 409 || statusCode === 404;
+}
@@ -7,23 +7,57 @@
 
 import type { DatabaseAdapter } from './adapter.js';
 import type {
+  AggregateSpec,
   Backend,
+  BatchOperation,
   ConfirmOptions,
   ConnectionStatus,
+  DeleteAndReturnOptions,
   Driver,
+  ExplainSummary,
+  GetByIdOptions,
   LookupOptions,
   OperationReceipt,
   QueryOptions,
+  StreamOptions,
   StrictDBConfig,
   StrictFilter,
+  UpdateAndReturnOptions,
   UpdateOperators,
 } from '../types.js';
-import { mapNativeError } from '../errors.js';
+import { collectionNotFoundError, mapNativeError, StrictDBError } from '../errors.js';
 import { createReceipt } from '../receipts.js';
 import type { StrictDBEventEmitter } from '../events.js';
 import { ReconnectManager } from '../reconnect.js';
+import { groupMongoBulkOperations, resolveMongoFailureIndex, toBatchFailure } from '../batch.js';
+import type { MongoBulkGroup } from '../batch.js';
+import {
+  andFilters,
+  buildKeysetFilter,
+  DEFAULT_BATCH_SIZE,
+  fromSortSpec,
+  isObjectIdTag,
+  keysetValues,
+} from '../keyset.js';
+import { buildMongoAggregatePipeline, normalizeAggregate } from '../aggregate.js';
+import { summarizeMongoPlan } from '../explain.js';
+import { DESCRIBE_SAMPLE_SIZE, inferFieldsFromSample } from '../describe.js';
 import * as mongo from '../core/db/mongo.js';
-import type { ClientSession, Db } from 'mongodb';
+import { ObjectId } from 'mongodb';
+import type {
+  AggregationCursor,
+  AnyBulkWriteOperation,
+  ClientSession,
+  Db,
+  Document,
+  ModifyResult,
+  MongoClient,
+  Sort,
+  TopologyDescription,
+  TopologyDescriptionChangedEvent,
+} from 'mongodb';
+
+type PageOptions = { sort: Record<string, 1 | -1>; after?: unknown[]; limit: number; projection?: Record<string, 0 | 1> };
 
 export class MongoAdapter implements DatabaseAdapter {
   readonly backend: Backend = 'mongo';
@@ -33,6 +67,8 @@ export class MongoAdapter implements DatabaseAdapter {
   private emitter: StrictDBEventEmitter;
   private reconnectManager: ReconnectManager;
   private connectedAt: Date | null = null;
+  /** Listener on the shared, URI-cached client — removed again in close() */
+  private topologyListener: { client: MongoClient; handler: (event: TopologyDescriptionChangedEvent) => void } | null = null;
 
   constructor(config: StrictDBConfig, emitter: StrictDBEventEmitter) {
     this.config = config;
@@ -42,11 +78,20 @@ export class MongoAdapter implements DatabaseAdapter {
 
   async connect(): Promise<void> {
     try {
-      await mongo.connect(this.config.uri, {
+      const { client } = await mongo.connect(this.config.uri, {
         pool: this.config.pool,
         dbName: this.config.dbName,
         label: this.config.label,
       });
+      // The driver keeps retrying on its own; the reconnect loop tracks when it is usable again.
+      // A failed heartbeat on one member is routine — only losing every writable server is an outage.
+      const handler = (event: TopologyDescriptionChangedEvent) => {
+        if (hasWritableServer(event.previousDescription) && !hasWritableServer(event.newDescription)) {
+          this.startReconnect();
+        }
+      };
+      client.on('topologyDescriptionChanged', handler);
+      this.topologyListener = { client, handler };
       this.connectedAt = new Date();
       this.emitter.emit('connected', {
         backend: 'mongo',
@@ -59,6 +104,10 @@ export class MongoAdapter implements DatabaseAdapter {
   }
 
   async close(): Promise<void> {
+    if (this.topologyListener) {
+      this.topologyListener.client.off('topologyDescriptionChanged', this.topologyListener.handler);
+      this.topologyListener = null;
+    }
     this.reconnectManager.stop();
     await mongo.closePool();
     this.connectedAt = null;
@@ -66,13 +115,18 @@ export class MongoAdapter implements DatabaseAdapter {
 
   status(): ConnectionStatus {
     return {
-      state: this.connectedAt ? 'connected' : 'disconnected',
+      state: this.reconnectManager.isReconnecting ? 'reconnecting' : this.connectedAt ? 'connected' : 'disconnected',
       backend: 'mongo',
       driver: 'mongodb',
       uri: redactUri(this.config.uri),
       dbName: this.config.dbName ?? 'app',
       uptimeMs: this.connectedAt ? Date.now() - this.connectedAt.getTime() : 0,
-      pool: { active: 0, idle: 0, waiting: 0, max: 10 },
+      pool: (this.connectedAt ? mongo.getPoolStats(this.config.uri) : null) ?? {
+        active: 0,
+        idle: 0,
+        waiting: 0,
+        max: mongo.POOL_PRESETS[this.config.pool ?? 'standard'].maxPoolSize,
+      },
       reconnect: {
         enabled: this.reconnectManager.enabled,
         attempts: this.reconnectManager.attemptCount,
@@ -81,7 +135,28 @@ export class MongoAdapter implements DatabaseAdapter {
     };
   }
 
+  // ─── Connection Loss ─────────────────────────────────────────────────────
+
+  /** Map a driver error, starting the reconnect loop if the connection was lost. */
+  private mapError(err: unknown, collection?: string, operation?: string): StrictDBError {
+    const mapped = mapNativeError('mongo', err, collection, operation);
+    if (mapped.code === 'CONNECTION_LOST') this.startReconnect();
+    return mapped;
+  }
+
+  private startReconnect(): void {
+    this.reconnectManager.trigger(async () => {
+      const { db } = await mongo.connect(this.config.uri, {
+        pool: this.config.pool,
+        dbName: this.config.dbName,
+        label: this.config.label,
+      });
+      await db.command({ ping: 1 });
+    });
+  }
+
   async queryOne<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
     try {
       // MongoDB adapter: filter is native MongoDB syntax
       // Options: sort is handled via aggregation pipeline
@@ -97,11 +172,12 @@ export class MongoAdapter implements DatabaseAdapter {
       }
       return await mongo.queryOne<Record<string, unknown>>(collection, filter as Record<string, unknown>) as T | null;
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'queryOne');
+      throw this.mapError(err, collection, 'queryOne');
     }
   }
 
   async queryMany<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T[]> {
+    await this.reconnectManager.ready();
     try {
       const pipeline: Record<string, unknown>[] = [
         { $match: filter as Record<string, unknown> },
@@ -113,66 +189,140 @@ export class MongoAdapter implements DatabaseAdapter {
 
       return await mongo.queryMany<Record<string, unknown>>(collection, pipeline, { trusted: true }) as T[];
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'queryMany');
+      throw this.mapError(err, collection, 'queryMany');
+    }
+  }
+
+  async queryPage<T>(collection: string, filter: StrictFilter<T>, options: PageOptions): Promise<Array<{ doc: T; sortValues: unknown[] }>> {
+    await this.reconnectManager.ready();
+    try {
+      const docs = await mongo.queryMany<Record<string, unknown>>(collection, buildPagePipeline(filter, options), { trusted: true });
+      const keys = fromSortSpec(options.sort);
+      return docs.map(doc => ({ doc: doc as T, sortValues: keysetValues(keys, doc) }));
+    } catch (err) {
+      throw this.mapError(err, collection, 'paginate');
+    }
+  }
+
+  async *stream<T>(collection: string, filter: StrictFilter<T>, options?: StreamOptions<T>): AsyncIterable<T> {
+    await this.reconnectManager.ready();
+    const pipeline: Record<string, unknown>[] = [
+      { $match: filter as Record<string, unknown> },
+    ];
+    if (options?.sort) pipeline.push({ $sort: options.sort });
+    if (options?.limit) pipeline.push({ $limit: options.limit });
+    if (options?.projection) pipeline.push({ $project: options.projection });
+
+    let cursor: AggregationCursor<Record<string, unknown>> | undefined;
+    try {
+      cursor = await mongo.queryCursor<Record<string, unknown>>(collection, pipeline, {
+        trusted: true,
+        batchSize: options?.batchSize ?? DEFAULT_BATCH_SIZE,
+      });
+      for await (const doc of cursor) {
+        yield doc as T;
+      }
+    } catch (err) {
+      throw this.mapError(err, collection, 'stream');
+    } finally {
+      // Runs when the consumer breaks out early too — releases the server-side cursor
+      await cursor?.close();
     }
   }
 
   async queryWithLookup<T>(collection: string, options: LookupOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
     try {
       return await mongo.queryWithLookup<Record<string, unknown>>(collection, {
         match: options.match as Record<string, unknown>,
-        lookup: options.lookup,
+        lookup: buildLookupStage(options.lookup),
         unwind: options.unwind,
       }) as T | null;
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'queryWithLookup');
+      throw this.mapError(err, collection, 'queryWithLookup');
+    }
+  }
+
+  async getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
+    try {
+      const results = await mongo.queryMany<Record<string, unknown>>(collection, buildIdPipeline(id, options), { trusted: true });
+      return (results[0] as T) ?? null;
+    } catch (err) {
+      throw this.mapError(err, collection, 'getById');
     }
   }
 
   async count<T>(collection: string, filter?: StrictFilter<T>): Promise<number> {
+    await this.reconnectManager.ready();
     try {
       return await mongo.count(collection, (filter ?? {}) as Record<string, unknown>);
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'count');
+      throw this.mapError(err, collection, 'count');
+    }
+  }
+
+  async aggregate<R>(collection: string, spec: AggregateSpec): Promise<R[]> {
+    await this.reconnectManager.ready();
+    try {
+      const pipeline = buildMongoAggregatePipeline(normalizeAggregate(spec, 'mongo'));
+      return await mongo.queryMany<Record<string, unknown>>(collection, pipeline, { trusted: true }) as R[];
+    } catch (err) {
+      throw this.mapError(err, collection, 'aggregate');
+    }
+  }
+
+  async distinct<V>(collection: string, field: string, filter: StrictFilter<unknown>, options?: { limit?: number }): Promise<V[]> {
+    await this.reconnectManager.ready();
+    try {
+      const values = await mongo.distinct(collection, field, filter as Record<string, unknown>, { trusted: true });
+      return (options?.limit !== undefined ? values.slice(0, options.limit) : values) as V[];
+    } catch (err) {
+      throw this.mapError(err, collection, 'distinct');
     }
   }
 
   async insertOne<T>(collection: string, doc: T): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      await mongo.insertOne(collection, doc as Record<string, unknown>);
+      const result = await mongo.insertOne(collection, doc as Record<string, unknown>);
       return createReceipt({
         operation: 'insertOne',
         collection,
         backend: 'mongo',
         startTime,
-        insertedCount: 1,
+        insertedCount: result.insertedCount,
+        insertedIds: orderedIds(result.insertedIds),
       });
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'insertOne');
+      throw this.mapError(err, collection, 'insertOne');
     }
   }
 
   async insertMany<T>(collection: string, docs: T[]): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      await mongo.insertMany(collection, docs as Record<string, unknown>[]);
+      const result = await mongo.insertMany(collection, docs as Record<string, unknown>[]);
       return createReceipt({
         operation: 'insertMany',
         collection,
         backend: 'mongo',
         startTime,
-        insertedCount: docs.length,
+        insertedCount: result?.insertedCount ?? 0,
+        insertedIds: result ? orderedIds(result.insertedIds) : [],
       });
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'insertMany');
+      throw this.mapError(err, collection, 'insertMany');
     }
   }
 
   async updateOne<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>, upsert?: boolean): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      await mongo.updateOne(
+      const result = await mongo.updateOne(
         collection,
         filter as Record<string, unknown>,
         update as Record<string, unknown>,
@@ -183,18 +333,41 @@ export class MongoAdapter implements DatabaseAdapter {
         collection,
         backend: 'mongo',
         startTime,
-        matchedCount: 1,
-        modifiedCount: 1,
+        matchedCount: result.matchedCount,
+        modifiedCount: result.modifiedCount,
+        insertedCount: result.upsertedCount,
+        upsertedId: result.upsertedIds[0],
       });
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'updateOne');
+      throw this.mapError(err, collection, 'updateOne');
+    }
+  }
+
+  async updateOneAndReturn<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options: UpdateAndReturnOptions<T>,
+  ): Promise<{ doc: T | null; upserted: boolean }> {
+    await this.reconnectManager.ready();
+    try {
+      const result = await mongo.findOneAndUpdate(
+        collection,
+        filter as Record<string, unknown>,
+        update as Record<string, unknown>,
+        { returnDocument: options.returnDocument, upsert: options.upsert, sort: options.sort as Sort | undefined },
+      );
+      return toModifyOutcome<T>(result);
+    } catch (err) {
+      throw this.mapError(err, collection, 'updateOneAndReturn');
     }
   }
 
   async updateMany<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      await mongo.updateMany(
+      const result = await mongo.updateMany(
         collection,
         filter as Record<string, unknown>,
         update as Record<string, unknown>,
@@ -204,47 +377,96 @@ export class MongoAdapter implements DatabaseAdapter {
         collection,
         backend: 'mongo',
         startTime,
-        matchedCount: 1,
-        modifiedCount: 1,
+        matchedCount: result.matchedCount,
+        modifiedCount: result.modifiedCount,
       });
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'updateMany');
+      throw this.mapError(err, collection, 'updateMany');
     }
   }
 
   async deleteOne<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      await mongo.deleteOne(collection, filter as Record<string, unknown>);
+      const result = await mongo.deleteOne(collection, filter as Record<string, unknown>);
       return createReceipt({
         operation: 'deleteOne',
         collection,
         backend: 'mongo',
         startTime,
-        deletedCount: 1,
+        deletedCount: result.deletedCount,
       });
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'deleteOne');
+      throw this.mapError(err, collection, 'deleteOne');
+    }
+  }
+
+  async deleteOneAndReturn<T>(collection: string, filter: StrictFilter<T>, options: DeleteAndReturnOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
+    try {
+      const doc = await mongo.findOneAndDelete(collection, filter as Record<string, unknown>, {
+        sort: options.sort as Sort | undefined,
+      });
+      return doc as T | null;
+    } catch (err) {
+      throw this.mapError(err, collection, 'deleteOneAndReturn');
     }
   }
 
   async deleteMany<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      await mongo.deleteMany(collection, filter as Record<string, unknown>);
+      const result = await mongo.deleteMany(collection, filter as Record<string, unknown>);
       return createReceipt({
         operation: 'deleteMany',
         collection,
         backend: 'mongo',
         startTime,
-        deletedCount: 1,
+        deletedCount: result.deletedCount,
       });
     } catch (err) {
-      throw mapNativeError('mongo', err, collection, 'deleteMany');
+      throw this.mapError(err, collection, 'deleteMany');
+    }
+  }
+
+  async batch(operations: BatchOperation[]): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
+    const startTime = Date.now();
+    const groups = groupMongoBulkOperations(operations);
+    let progress = newBulkProgress();
+
+    try {
+      await mongo.withTransaction(session => {
+        // The driver re-runs the callback on transient errors — count each attempt afresh
+        progress = newBulkProgress();
+        return runBulkGroups(groups, progress, session);
+      });
+      return createReceipt({ operation: 'batch', collection: 'batch', backend: 'mongo', startTime, ...progress.counts });
+    } catch (err) {
+      if (!progress.group) throw this.mapError(err, 'batch', 'batch');
+      if (!isTransactionUnsupported(err)) {
+        // Transaction aborted — nothing from this batch was applied
+        return batchFailureReceipt(operations, progress.group, err, startTime);
+      }
+    }
+
+    // Standalone servers have no transactions — run the groups in order without one.
+    // The first bulkWrite was rejected before it wrote anything, so starting over is safe.
+    progress = newBulkProgress();
+    try {
+      await runBulkGroups(groups, progress);
+      return createReceipt({ operation: 'batch', collection: 'batch', backend: 'mongo', startTime, ...progress.counts });
+    } catch (err) {
+      if (!progress.group) throw this.mapError(err, 'batch', 'batch');
+      // Operations before the failed one stay applied and are counted
+      return batchFailureReceipt(operations, progress.group, err, startTime, progress.counts);
     }
   }
 
   async withTransaction<T>(fn: (txAdapter: DatabaseAdapter) => Promise<T>): Promise<T> {
+    await this.reconnectManager.ready();
     return mongo.withTransaction(async (session) => {
       const db = await mongo.getDb();
       const txAdapter = new MongoTransactionAdapter(db, session);
@@ -253,10 +475,114 @@ export class MongoAdapter implements DatabaseAdapter {
   }
 
   async ensureIndexes(indexes: Array<{ collection: string; fields: Record<string, 1 | -1>; unique?: boolean; sparse?: boolean; expireAfterSeconds?: number }>): Promise<void> {
-    for (const idx of indexes) {
-      mongo.registerIndex(idx);
+    await this.reconnectManager.ready();
+    await mongo.createIndexes(indexes);
+  }
+
+  async ensureCollections(definitions: Array<{ name: string; options?: Record<string, unknown> }>): Promise<void> {
+    await this.reconnectManager.ready();
+    const db = await mongo.getDb();
+    const existing = new Set((await db.listCollections({}, { nameOnly: true }).toArray()).map(info => info.name));
+
+    for (const def of definitions) {
+      const options = def.options ?? {};
+      try {
+        if (!existing.has(def.name)) {
+          await db.createCollection(def.name, options);
+        } else if (options['validator']) {
+          // Capped and time-series settings are fixed at creation — only validation can change
+          await db.command({
+            collMod: def.name,
+            validator: options['validator'],
+            validationLevel: options['validationLevel'],
+            validationAction: options['validationAction'],
+          });
+        }
+      } catch (err) {
+        throw this.mapError(err, def.name, 'ensureCollections');
+      }
+    }
+  }
+
+  async describeCollection(collection: string): Promise<Array<{ name: string; type: string; required: boolean; enum?: string[] }>> {
+    await this.reconnectManager.ready();
+    try {
+      const db = await mongo.getDb();
+      const docs = await db.collection(collection).aggregate([{ $sample: { size: DESCRIBE_SAMPLE_SIZE } }]).toArray();
+      if (docs.length === 0) {
+        // Reading a missing collection is not an error in MongoDB — tell a typo apart from an empty collection
+        const names = (await db.listCollections({}, { nameOnly: true }).toArray()).map(info => info.name);
+        if (!names.includes(collection)) throw collectionNotFoundError(collection, names);
+      }
+      return inferFieldsFromSample(docs);
+    } catch (err) {
+      throw this.mapError(err, collection, 'describe');
+    }
+  }
+
+  async getDocumentCount(collection: string): Promise<number> {
+    await this.reconnectManager.ready();
+    try {
+      const db = await mongo.getDb();
+      return await db.collection(collection).estimatedDocumentCount();
+    } catch (err) {
+      throw this.mapError(err, collection, 'count');
+    }
+  }
+
+  async getIndexes(collection: string): Promise<Array<{ fields: Record<string, 1 | -1>; unique?: boolean }>> {
+    await this.reconnectManager.ready();
+    try {
+      const db = await mongo.getDb();
+      const indexes = await db.collection(collection).listIndexes().toArray();
+      // Text, hashed and geo indexes don't serve ordinary equality/range filters
+      return indexes
+        .filter(idx => Object.values(idx.key as Record<string, unknown>).every(dir => dir === 1 || dir === -1))
+        .map(idx => ({ fields: idx.key as Record<string, 1 | -1>, ...(idx.unique ? { unique: true } : {}) }));
+    } catch (err) {
+      // listIndexes fails with NamespaceNotFound before the collection exists
+      if ((err as { code?: unknown }).code === 26) return [];
+      throw this.mapError(err, collection, 'getIndexes');
+    }
+  }
+
+  async getValidator(collection: string): Promise<{ exists: boolean; validator?: Record<string, unknown> }> {
+    await this.reconnectManager.ready();
+    try {
+      const db = await mongo.getDb();
+      const [info] = await db.listCollections({ name: collection }).toArray();
+      if (!info) return { exists: false };
+      const options = (info as { options?: { validator?: Record<string, unknown> } }).options;
+      return { exists: true, validator: options?.validator };
+    } catch (err) {
+      throw this.mapError(err, collection, 'migrate');
+    }
+  }
+
+  async setValidator(collection: string, validator: Record<string, unknown>): Promise<void> {
+    await this.reconnectManager.ready();
+    try {
+      const db = await mongo.getDb();
+      const exists = (await db.listCollections({ name: collection }, { nameOnly: true }).toArray()).length > 0;
+      if (exists) {
+        await db.command({ collMod: collection, validator });
+      } else {
+        await db.createCollection(collection, { validator });
+      }
+    } catch (err) {
+      throw this.mapError(err, collection, 'migrate');
+    }
+  }
+
+  async explainPlan(collection: string, native: string | object): Promise<{ plan: unknown; summary: ExplainSummary }> {
+    await this.reconnectManager.ready();
+    try {
+      const db = await mongo.getDb();
+      const plan = await db.collection(collection).aggregate(native as Document[]).explain('executionStats');
+      return { plan, summary: summarizeMongoPlan(plan) };
+    } catch (err) {
+      throw this.mapError(err, collection, 'explain');
     }
-    await mongo.ensureIndexes();
   }
 
   raw(): unknown {
@@ -320,12 +646,23 @@ class MongoTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async queryPage<T>(collection: string, filter: StrictFilter<T>, options: PageOptions): Promise<Array<{ doc: T; sortValues: unknown[] }>> {
+    try {
+      const docs = await this.db.collection(collection)
+        .aggregate<Record<string, unknown>>(buildPagePipeline(filter, options), { session: this.session }).toArray();
+      const keys = fromSortSpec(options.sort);
+      return docs.map(doc => ({ doc: doc as T, sortValues: keysetValues(keys, doc) }));
+    } catch (err) {
+      throw mapNativeError('mongo', err, collection, 'paginate');
+    }
+  }
+
   async queryWithLookup<T>(collection: string, options: LookupOptions<T>): Promise<T | null> {
     try {
       const pipeline: Record<string, unknown>[] = [
         { $match: options.match as Record<string, unknown> },
         { $limit: 1 },
-        { $lookup: options.lookup },
+        { $lookup: buildLookupStage(options.lookup) },
       ];
       if (options.unwind) {
         pipeline.push({ $unwind: { path: `$${options.unwind}`, preserveNullAndEmptyArrays: true } });
@@ -338,6 +675,16 @@ class MongoTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null> {
+    try {
+      const results = await this.db.collection(collection)
+        .aggregate(buildIdPipeline(id, options), { session: this.session }).toArray();
+      return (results[0] as T) ?? null;
+    } catch (err) {
+      throw mapNativeError('mongo', err, collection, 'getById');
+    }
+  }
+
   async count<T>(collection: string, filter?: StrictFilter<T>): Promise<number> {
     try {
       const result = await this.db.collection(collection)
@@ -351,14 +698,37 @@ class MongoTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async aggregate<R>(collection: string, spec: AggregateSpec): Promise<R[]> {
+    try {
+      const pipeline = buildMongoAggregatePipeline(normalizeAggregate(spec, 'mongo'));
+      return await this.db.collection(collection)
+        .aggregate(pipeline, { session: this.session }).toArray() as R[];
+    } catch (err) {
+      throw mapNativeError('mongo', err, collection, 'aggregate');
+    }
+  }
+
+  async distinct<V>(collection: string, field: string, filter: StrictFilter<unknown>, options?: { limit?: number }): Promise<V[]> {
+    try {
+      const values = await this.db.collection(collection)
+        .distinct(field, filter as Record<string, unknown>, { session: this.session });
+      return (options?.limit !== undefined ? values.slice(0, options.limit) : values) as V[];
+    } catch (err) {
+      throw mapNativeError('mongo', err, collection, 'distinct');
+    }
+  }
+
   async insertOne<T>(collection: string, doc: T): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
-      await this.db.collection(collection).insertOne(
+      const result = await this.db.collection(collection).insertOne(
         doc as Record<string, unknown>,
         { session: this.session },
       );
-      return createReceipt({ operation: 'insertOne', collection, backend: 'mongo', startTime, insertedCount: 1 });
+      return createReceipt({
+        operation: 'insertOne', collection, backend: 'mongo', startTime,
+        insertedCount: 1, insertedIds: [result.insertedId],
+      });
     } catch (err) {
       throw mapNativeError('mongo', err, collection, 'insertOne');
     }
@@ -367,11 +737,14 @@ class MongoTransactionAdapter implements DatabaseAdapter {
   async insertMany<T>(collection: string, docs: T[]): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
-      await this.db.collection(collection).insertMany(
+      const result = await this.db.collection(collection).insertMany(
         docs as Record<string, unknown>[],
         { session: this.session },
       );
-      return createReceipt({ operation: 'insertMany', collection, backend: 'mongo', startTime, insertedCount: docs.length });
+      return createReceipt({
+        operation: 'insertMany', collection, backend: 'mongo', startTime,
+        insertedCount: result.insertedCount, insertedIds: orderedIds(result.insertedIds),
+      });
     } catch (err) {
       throw mapNativeError('mongo', err, collection, 'insertMany');
     }
@@ -388,12 +761,37 @@ class MongoTransactionAdapter implements DatabaseAdapter {
       return createReceipt({
         operation: 'updateOne', collection, backend: 'mongo', startTime,
         matchedCount: result.matchedCount, modifiedCount: result.modifiedCount,
+        insertedCount: result.upsertedCount, upsertedId: result.upsertedId ?? undefined,
       });
     } catch (err) {
       throw mapNativeError('mongo', err, collection, 'updateOne');
     }
   }
 
+  async updateOneAndReturn<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options: UpdateAndReturnOptions<T>,
+  ): Promise<{ doc: T | null; upserted: boolean }> {
+    try {
+      const result = await this.db.collection(collection).findOneAndUpdate(
+        filter as Record<string, unknown>,
+        update as Record<string, unknown>,
+        {
+          session: this.session,
+          returnDocument: options.returnDocument ?? 'after',
+          upsert: options.upsert ?? false,
+          sort: options.sort as Sort | undefined,
+          includeResultMetadata: true,
+        },
+      );
+      return toModifyOutcome<T>(result);
+    } catch (err) {
+      throw mapNativeError('mongo', err, collection, 'updateOneAndReturn');
+    }
+  }
+
   async updateMany<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
@@ -424,6 +822,18 @@ class MongoTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async deleteOneAndReturn<T>(collection: string, filter: StrictFilter<T>, options: DeleteAndReturnOptions<T>): Promise<T | null> {
+    try {
+      const doc = await this.db.collection(collection).findOneAndDelete(
+        filter as Record<string, unknown>,
+        { session: this.session, sort: options.sort as Sort | undefined },
+      );
+      return doc as T | null;
+    } catch (err) {
+      throw mapNativeError('mongo', err, collection, 'deleteOneAndReturn');
+    }
+  }
+
   async deleteMany<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
@@ -440,6 +850,120 @@ class MongoTransactionAdapter implements DatabaseAdapter {
   raw(): unknown { return this.db; }
 }
 
+/** $match ranges past the previous page, then sort + limit on the keyset */
+function buildPagePipeline<T>(filter: StrictFilter<T>, options: PageOptions): Record<string, unknown>[] {
+  let match = filter as Record<string, unknown>;
+  if (options.after) {
+    // Cursors carry ObjectIds as { $oid } tags
+    const after = options.after.map(v => isObjectIdTag(v) ? new ObjectId(v.$oid) : v);
+    match = andFilters(match, buildKeysetFilter(fromSortSpec(options.sort), after));
+  }
+  const pipeline: Record<string, unknown>[] = [
+    { $match: match },
+    { $sort: options.sort },
+    { $limit: options.limit },
+  ];
+  if (options.projection) pipeline.push({ $project: options.projection });
+  return pipeline;
+}
+
+/**
+ * Match one document by _id. A 24-character hex string also matches the
+ * equivalent ObjectId, so ids copied out of JSON still resolve. The id is
+ * only ever compared as a value — an object id cannot smuggle in operators.
+ */
+function buildIdPipeline<T>(id: unknown, options?: GetByIdOptions<T>): Record<string, unknown>[] {
+  const match = typeof id === 'string' && /^[0-9a-f]{24}$/i.test(id)
+    ? { _id: { $in: [new ObjectId(id), id] } }
+    : { _id: { $eq: id } };
+  const pipeline: Record<string, unknown>[] = [{ $match: match }, { $limit: 1 }];
+  if (options?.projection) pipeline.push({ $project: options.projection });
+  return pipeline;
+}
+
+/**
+ * The $lookup stage body. With lookup.match the join runs as a sub-pipeline
+ * so the joined documents can be filtered as well.
+ */
+function buildLookupStage<T>(lookup: LookupOptions<T>['lookup']): Record<string, unknown> {
+  const { from, localField, foreignField, as, match } = lookup;
+  if (!match) return { from, localField, foreignField, as };
+  return {
+    from,
+    let: { localValue: `$${localField}` },
+    pipeline: [{ $match: { $and: [{ $expr: { $eq: [`$${foreignField}`, '$$localValue'] } }, match] } }],
+    as,
+  };
+}
+
+type BulkCounts = { matchedCount: number; modifiedCount: number; insertedCount: number; deletedCount: number; insertedIds: unknown[] };
+/** group is the one currently executing — unset once every bulkWrite finished */
+type BulkProgress = { group?: MongoBulkGroup; counts: BulkCounts };
+
+function newBulkProgress(): BulkProgress {
+  return { counts: { matchedCount: 0, modifiedCount: 0, insertedCount: 0, deletedCount: 0, insertedIds: [] } };
+}
+
+/** One ordered bulkWrite per collection group, counted into progress as each completes */
+async function runBulkGroups(groups: MongoBulkGroup[], progress: BulkProgress, session?: ClientSession): Promise<void> {
+  const db = await mongo.getDb();
+  for (const group of groups) {
+    progress.group = group;
+    const result = await db.collection(group.collection).bulkWrite(
+      group.operations as AnyBulkWriteOperation[],
+      { ...(session ? { session } : {}), ordered: true },
+    );
+    const { counts } = progress;
+    counts.matchedCount += result.matchedCount;
+    counts.modifiedCount += result.modifiedCount;
+    counts.insertedCount += result.insertedCount + result.upsertedCount;
+    counts.deletedCount += result.deletedCount;
+    counts.insertedIds.push(...orderedIds(result.insertedIds));
+  }
+  progress.group = undefined;
+}
+
+function batchFailureReceipt(
+  operations: BatchOperation[],
+  group: MongoBulkGroup,
+  err: unknown,
+  startTime: number,
+  counts?: BulkCounts,
+): OperationReceipt {
+  const index = resolveMongoFailureIndex(group, err);
+  return createReceipt({
+    operation: 'batch',
+    collection: 'batch',
+    backend: 'mongo',
+    startTime,
+    ...counts,
+    success: false,
+    errors: [toBatchFailure('mongo', index, operations[index]!, err)],
+  });
+}
+
+/** IllegalOperation: "Transaction numbers are only allowed on a replica set member or mongos" */
+function isTransactionUnsupported(err: unknown): boolean {
+  const e = err as { code?: unknown; message?: unknown };
+  return e.code === 20 && typeof e.message === 'string' && e.message.includes('Transaction numbers');
+}
+
+const WRITABLE_SERVER_TYPES: ReadonlySet<string> = new Set(['RSPrimary', 'Standalone', 'Mongos', 'LoadBalancer']);
+
+function hasWritableServer(description: TopologyDescription): boolean {
+  return [...description.servers.values()].some(server => WRITABLE_SERVER_TYPES.has(server.type));
+}
+
+/** Driver results key inserted ids by write position — flatten them into insert order */
+function orderedIds(ids: Record<number, unknown>): unknown[] {
+  return Object.keys(ids).map(Number).sort((a, b) => a - b).map(i => ids[i]);
+}
+
+/** The returned document, plus whether findOneAndUpdate inserted it */
+function toModifyOutcome<T>(result: ModifyResult<Document>): { doc: T | null; upserted: boolean } {
+  return { doc: result.value as T | null, upserted: result.lastErrorObject?.['upserted'] !== undefined };
+}
+
 function redactUri(uri: string): string {
   try {
     const url = new URL(uri);
@@ -7,22 +7,42 @@
 
 import type { DatabaseAdapter } from './adapter.js';
 import type {
+  AggregateSpec,
   Backend,
+  BatchOperation,
   ConfirmOptions,
   ConnectionStatus,
+  DeleteAndReturnOptions,
   Driver,
+  ExplainSummary,
+  GetByIdOptions,
   LookupOptions,
   OperationReceipt,
   QueryOptions,
   SqlDialect,
+  StreamOptions,
   StrictDBConfig,
   StrictFilter,
+  UpdateAndReturnOptions,
   UpdateOperators,
 } from '../types.js';
-import { mapNativeError } from '../errors.js';
+import { mapNativeError, StrictDBError } from '../errors.js';
 import { createReceipt } from '../receipts.js';
 import type { StrictDBEventEmitter } from '../events.js';
 import { ReconnectManager } from '../reconnect.js';
+import { runBatchOperation, summarizeBatch, toBatchFailure } from '../batch.js';
+import {
+  andFilters,
+  buildKeysetFilter,
+  DEFAULT_BATCH_SIZE,
+  keysetValues,
+  resolveKeysetSort,
+  toSortSpec,
+  withKeyFields,
+} from '../keyset.js';
+import { buildAggregateSQL, normalizeAggregate, normalizeAggregateRows } from '../aggregate.js';
+import { buildExplainSQL, summarizeSqlPlan } from '../explain.js';
+import { groupIndexColumns, parsePgIndexDef, type SqlIndexColumn } from '../describe.js';
 import * as sql from '../core/db/sql.js';
 import {
   buildSelectSQL,
@@ -31,14 +51,28 @@ import {
   buildUpdateSQL,
   buildDeleteSQL,
   buildCountSQL,
+  buildDistinctSQL,
+  buildMssqlDeleteOutputSQL,
+  buildMssqlUpdateOutputSQL,
+  buildUpsertDocument,
   translateToSQL,
   getExcludedFields,
+  placeholder,
   quoteIdentifier,
 } from '../filter-translator.js';
 
 // ─── Shared Helpers (used by both SqlAdapter and SqlTransactionAdapter) ──────
 
-type ExecFn = (sqlStr: string, params?: unknown[]) => Promise<{ rows: unknown[]; rowCount: number }>;
+type ExecFn = (sqlStr: string, params?: unknown[]) => Promise<{ rows: unknown[]; rowCount: number; insertId?: number }>;
+
+/** A table's primary key columns and whether MySQL generates the key with AUTO_INCREMENT */
+interface TableKey {
+  columns: string[];
+  autoIncrement: boolean;
+}
+
+/** Primary keys per table, looked up once and shared with transaction adapters */
+type PrimaryKeyCache = Map<string, TableKey>;
 
 /** Limit an UPDATE to a single row, dialect-aware. */
 function limitUpdateOne(
@@ -103,7 +137,8 @@ async function performUpsert(
   filter: Record<string, unknown>,
   update: UpdateOperators<Record<string, unknown>>,
   dialect: SqlDialect,
-): Promise<{ rowCount: number; inserted: boolean }> {
+  primaryKeys: PrimaryKeyCache,
+): Promise<{ rowCount: number; inserted: boolean; upsertedId?: unknown }> {
   // 1. Try UPDATE (limited to 1 row)
   const updateQuery = buildUpdateSQL(collection, filter, update, dialect);
   const where = translateToSQL(filter, dialect);
@@ -115,25 +150,291 @@ async function performUpsert(
   }
 
   // 2. No match → INSERT (merge filter equality fields + $set fields)
-  const doc: Record<string, unknown> = {};
+  const doc = buildUpsertDocument(filter, update);
+  const ids = await performInsert(execFn, collection, [doc], dialect, primaryKeys);
+  return { rowCount: 1, inserted: true, upsertedId: ids?.[0] };
+}
+
+/** Primary key of a table — no columns when it has none */
+async function tableKey(
+  execFn: ExecFn,
+  collection: string,
+  dialect: SqlDialect,
+  primaryKeys: PrimaryKeyCache,
+): Promise<TableKey> {
+  const cached = primaryKeys.get(collection);
+  if (cached) return cached;
 
-  // Add filter equality fields
-  for (const [key, value] of Object.entries(filter)) {
-    if (!key.startsWith('$') && (typeof value !== 'object' || value === null || value instanceof Date)) {
-      doc[key] = value;
+  let lookup: string;
+  switch (dialect) {
+    case 'pg':
+    case 'mssql':
+      lookup = `SELECT kcu.column_name AS name
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema AND kcu.table_name = tc.table_name
+        WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_name = ${placeholder(dialect, 1)}
+        ORDER BY kcu.ordinal_position`;
+      break;
+    case 'mysql2':
+      lookup = `SELECT k.COLUMN_NAME AS name, c.EXTRA AS extra
+        FROM information_schema.KEY_COLUMN_USAGE k
+        JOIN information_schema.COLUMNS c
+          ON c.TABLE_SCHEMA = k.TABLE_SCHEMA AND c.TABLE_NAME = k.TABLE_NAME AND c.COLUMN_NAME = k.COLUMN_NAME
+        WHERE k.TABLE_SCHEMA = DATABASE() AND k.TABLE_NAME = ? AND k.CONSTRAINT_NAME = 'PRIMARY'
+        ORDER BY k.ORDINAL_POSITION`;
+      break;
+    case 'sqlite':
+      lookup = 'SELECT name FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk';
+      break;
+  }
+
+  const result = await execFn(lookup, [collection]);
+  const rows = result.rows as Array<{ name: string; extra?: string }>;
+  const key: TableKey = {
+    columns: rows.map(r => r.name),
+    autoIncrement: rows.length === 1 && /auto_increment/i.test(rows[0]!.extra ?? ''),
+  };
+  primaryKeys.set(collection, key);
+  return key;
+}
+
+/** Primary key columns of a table, in key order — empty when it has none */
+async function primaryKeyColumns(
+  execFn: ExecFn,
+  collection: string,
+  dialect: SqlDialect,
+  primaryKeys: PrimaryKeyCache,
+): Promise<string[]> {
+  return (await tableKey(execFn, collection, dialect, primaryKeys)).columns;
+}
+
+/** A row's key: the value for a single-column key, an object for a composite one */
+function keyOf(row: Record<string, unknown>, columns: string[]): unknown {
+  return columns.length === 1 ? row[columns[0]!] : Object.fromEntries(columns.map(c => [c, row[c]]));
+}
+
+/**
+ * Select one row by key: the value itself for a single-column primary key,
+ * an object of column values for a composite one, rowid for SQLite tables
+ * without a primary key. Key values are bound with $eq, never read as operators.
+ */
+async function performGetById(
+  execFn: ExecFn,
+  collection: string,
+  id: unknown,
+  projection: Record<string, 0 | 1> | undefined,
+  dialect: SqlDialect,
+  primaryKeys: PrimaryKeyCache,
+): Promise<Record<string, unknown> | null> {
+  const columns = await primaryKeyColumns(execFn, collection, dialect, primaryKeys);
+  let filter: Record<string, unknown>;
+  if (columns.length === 0) {
+    if (dialect !== 'sqlite') {
+      throw new StrictDBError({
+        code: 'QUERY_ERROR',
+        message: `Table "${collection}" has no primary key to look rows up by.`,
+        fix: `Add a primary key to "${collection}", or use db.queryOne() with a filter on a unique column.`,
+        backend: 'sql',
+        collection,
+        operation: 'getById',
+      });
+    }
+    filter = { rowid: { $eq: id } };
+  } else if (columns.length === 1) {
+    if (typeof id === 'object' && !(id instanceof Date)) {
+      throw new StrictDBError({
+        code: 'QUERY_ERROR',
+        message: `Table "${collection}" is keyed by "${columns[0]}" alone — the id must be a single value.`,
+        fix: `Pass the key value itself: db.getById('${collection}', 42).`,
+        backend: 'sql',
+        collection,
+        operation: 'getById',
+      });
+    }
+    filter = { [columns[0]!]: { $eq: id } };
+  } else {
+    const key = (typeof id === 'object' && id !== null ? id : {}) as Record<string, unknown>;
+    const missing = columns.filter(c => key[c] === undefined);
+    if (missing.length > 0) {
+      throw new StrictDBError({
+        code: 'QUERY_ERROR',
+        message: `Table "${collection}" has a composite primary key — the id is missing ${missing.join(', ')}.`,
+        fix: `Pass an object with every key column: db.getById('${collection}', { ${columns.map(c => `${c}: ...`).join(', ')} }).`,
+        backend: 'sql',
+        collection,
+        operation: 'getById',
+      });
     }
+    filter = Object.fromEntries(columns.map(c => [c, { $eq: key[c] }]));
   }
 
-  // Add $set fields
-  if (update.$set) {
-    for (const [key, value] of Object.entries(update.$set)) {
-      doc[key] = value;
+  const query = buildSelectSQL(collection, filter, { limit: 1, projection, dialect });
+  const result = await execFn(query.sql, query.values);
+  const rows = stripExcludedFields(result.rows as Record<string, unknown>[], projection);
+  return rows[0] ?? null;
+}
+
+/**
+ * Insert rows and return their keys in insert order. PostgreSQL and SQLite
+ * read them back with RETURNING (rowid for SQLite tables without a primary
+ * key), MSSQL with OUTPUT INSERTED. MySQL has no RETURNING: keys come from
+ * the documents, or from insertId for a single row whose primary key is an
+ * AUTO_INCREMENT column. Generated ids of a multi-row insert are not assumed
+ * consecutive (auto_increment_increment may be above 1).
+ * Returns undefined when the keys cannot be determined.
+ */
+async function performInsert(
+  execFn: ExecFn,
+  collection: string,
+  docs: Record<string, unknown>[],
+  dialect: SqlDialect,
+  primaryKeys: PrimaryKeyCache,
+): Promise<unknown[] | undefined> {
+  if (docs.length === 0) return [];
+  const { columns: keys, autoIncrement } = await tableKey(execFn, collection, dialect, primaryKeys);
+
+  if (dialect === 'mysql2') {
+    const query = buildBatchInsertSQL(collection, docs, dialect);
+    const result = await execFn(query.sql, query.values);
+    const supplied = (doc: Record<string, unknown>) => keys.length > 0 && keys.every(k => doc[k] !== undefined);
+    if (docs.every(supplied)) return docs.map(doc => keyOf(doc, keys));
+    if (docs.length === 1 && autoIncrement && result.insertId) return [result.insertId];
+    return undefined;
+  }
+
+  const returning = keys.length > 0 ? keys : dialect === 'sqlite' ? ['rowid'] : [];
+  const query = buildBatchInsertSQL(collection, docs, dialect, returning);
+  const result = await execFn(query.sql, query.values);
+  if (returning.length === 0) return undefined;
+  return (result.rows as Record<string, unknown>[]).map(row => keyOf(row, returning));
+}
+
+/** Column alias carrying the row's physical locator (pg ctid, SQLite rowid) */
+const ROW_LOCATOR = '__strictdb_row';
+
+/**
+ * Lock the first matching row and build a filter that addresses exactly that
+ * row again: ctid on PostgreSQL, rowid on SQLite, the primary key on MySQL.
+ * Must run inside a transaction for the lock to hold.
+ */
+async function lockOneRow(
+  execFn: ExecFn,
+  collection: string,
+  filter: Record<string, unknown>,
+  sort: Record<string, unknown> | undefined,
+  dialect: Exclude<SqlDialect, 'mssql'>,
+  primaryKeys: PrimaryKeyCache,
+): Promise<{ row: Record<string, unknown>; locator: Record<string, unknown> } | null> {
+  const select = buildSelectSQL(collection, filter, { sort, limit: 1, dialect });
+  const locatorColumn = dialect === 'pg' ? 'ctid' : dialect === 'sqlite' ? 'rowid' : null;
+  let selectSql = locatorColumn
+    ? select.sql.replace('SELECT *', `SELECT ${locatorColumn} AS ${quoteIdentifier(ROW_LOCATOR)}, *`)
+    : select.sql;
+  if (dialect !== 'sqlite') selectSql += ' FOR UPDATE';
+
+  const result = await execFn(selectSql, select.values);
+  const selected = result.rows[0] as Record<string, unknown> | undefined;
+  if (!selected) return null;
+
+  const { [ROW_LOCATOR]: position, ...row } = selected;
+  if (locatorColumn) return { row, locator: { [locatorColumn]: position } };
+
+  const keys = await primaryKeyColumns(execFn, collection, dialect, primaryKeys);
+  if (keys.length === 0) {
+    throw new StrictDBError({
+      code: 'UNSUPPORTED_OPERATION',
+      message: `Table "${collection}" has no primary key — MySQL cannot address the locked row again.`,
+      fix: `Add a primary key to "${collection}", or use db.updateOne()/db.deleteOne() which do not return the document.`,
+      backend: 'sql',
+      collection,
+    });
+  }
+  return { row, locator: Object.fromEntries(keys.map(key => [key, row[key]])) };
+}
+
+/**
+ * Update one row and return it. MSSQL runs a single UPDATE ... OUTPUT
+ * statement; the other dialects lock the row with SELECT ... FOR UPDATE
+ * first, so execFn must belong to a transaction.
+ */
+async function performUpdateAndReturn(
+  execFn: ExecFn,
+  collection: string,
+  filter: Record<string, unknown>,
+  update: UpdateOperators<Record<string, unknown>>,
+  options: UpdateAndReturnOptions<Record<string, unknown>>,
+  dialect: SqlDialect,
+  primaryKeys: PrimaryKeyCache,
+): Promise<{ doc: Record<string, unknown> | null; upserted: boolean }> {
+  const sort = options.sort as Record<string, unknown> | undefined;
+  const returnBefore = options.returnDocument === 'before';
+
+  if (dialect === 'mssql') {
+    const query = buildMssqlUpdateOutputSQL(collection, filter, update, { sort, returnDocument: options.returnDocument });
+    const result = await execFn(query.sql, query.values);
+    const row = result.rows[0] as Record<string, unknown> | undefined;
+    if (row) return { doc: row, upserted: false };
+  } else {
+    const locked = await lockOneRow(execFn, collection, filter, sort, dialect, primaryKeys);
+    if (locked) {
+      const query = buildUpdateSQL(collection, locked.locator, update, dialect);
+      if (dialect === 'pg') {
+        // The update moves the row to a new ctid — read the new version back directly
+        const result = await execFn(`${query.sql} RETURNING *`, query.values);
+        return { doc: returnBefore ? locked.row : (result.rows[0] as Record<string, unknown>), upserted: false };
+      }
+      await execFn(query.sql, query.values);
+      if (returnBefore) return { doc: locked.row, upserted: false };
+      // A $set may have changed the primary key the locator is built from
+      const locator = { ...locked.locator };
+      for (const key of Object.keys(locator)) {
+        if (update.$set && key in update.$set) locator[key] = update.$set[key];
+      }
+      const reread = buildSelectSQL(collection, locator, { limit: 1, dialect });
+      const result = await execFn(reread.sql, reread.values);
+      return { doc: (result.rows[0] as Record<string, unknown>) ?? null, upserted: false };
     }
   }
 
-  const insertQuery = buildInsertSQL(collection, doc, dialect);
-  await execFn(insertQuery.sql, insertQuery.values);
-  return { rowCount: 1, inserted: true };
+  if (!options.upsert) return { doc: null, upserted: false };
+
+  const doc = buildUpsertDocument(filter, update);
+  const insert = buildInsertSQL(collection, doc, dialect);
+  if (dialect === 'pg') {
+    const result = await execFn(`${insert.sql} RETURNING *`, insert.values);
+    return { doc: returnBefore ? null : (result.rows[0] as Record<string, unknown>), upserted: true };
+  }
+  await execFn(insert.sql, insert.values);
+  if (returnBefore) return { doc: null, upserted: true };
+  // Read the row back to pick up defaults and generated columns
+  const reread = buildSelectSQL(collection, doc, { limit: 1, dialect });
+  const result = await execFn(reread.sql, reread.values);
+  return { doc: (result.rows[0] as Record<string, unknown>) ?? doc, upserted: true };
+}
+
+/** Delete one row and return it. Same locking rules as performUpdateAndReturn. */
+async function performDeleteAndReturn(
+  execFn: ExecFn,
+  collection: string,
+  filter: Record<string, unknown>,
+  options: DeleteAndReturnOptions<Record<string, unknown>>,
+  dialect: SqlDialect,
+  primaryKeys: PrimaryKeyCache,
+): Promise<Record<string, unknown> | null> {
+  const sort = options.sort as Record<string, unknown> | undefined;
+
+  if (dialect === 'mssql') {
+    const query = buildMssqlDeleteOutputSQL(collection, filter, { sort });
+    const result = await execFn(query.sql, query.values);
+    return (result.rows[0] as Record<string, unknown>) ?? null;
+  }
+
+  const locked = await lockOneRow(execFn, collection, filter, sort, dialect, primaryKeys);
+  if (!locked) return null;
+  const query = buildDeleteSQL(collection, locked.locator, dialect);
+  await execFn(query.sql, query.values);
+  return locked.row;
 }
 
 /** Strip excluded fields from result rows. */
@@ -179,7 +480,10 @@ async function performLookup<T>(
     return mainRow as T;
   }
 
-  const relatedWhere = translateToSQL({ [foreignField]: localValue }, dialect);
+  const relatedFilter = options.lookup.match
+    ? { $and: [{ [foreignField]: localValue }, options.lookup.match] }
+    : { [foreignField]: localValue };
+  const relatedWhere = translateToSQL(relatedFilter, dialect);
   let relatedSql = `SELECT * FROM ${quoteIdentifier(from)}`;
   if (relatedWhere.clause !== '1=1') {
     relatedSql += ` WHERE ${relatedWhere.clause}`;
@@ -194,6 +498,9 @@ async function performLookup<T>(
   return mainRow as T;
 }
 
+/** Source of per-instance pool keys — each adapter owns an independent pool */
+let nextPoolId = 0;
+
 export class SqlAdapter implements DatabaseAdapter {
   readonly backend: Backend = 'sql';
   readonly driver: Driver;
@@ -203,6 +510,8 @@ export class SqlAdapter implements DatabaseAdapter {
   private emitter: StrictDBEventEmitter;
   private reconnectManager: ReconnectManager;
   private connectedAt: Date | null = null;
+  private poolKey = `strictdb:${++nextPoolId}`;
+  private primaryKeys: PrimaryKeyCache = new Map();
 
   constructor(config: StrictDBConfig, emitter: StrictDBEventEmitter) {
     this.config = config;
@@ -217,6 +526,8 @@ export class SqlAdapter implements DatabaseAdapter {
       await sql.connect(this.config.uri, {
         pool: this.config.pool,
         label: this.config.label,
+        key: this.poolKey,
+        onError: (err) => this.detectConnectionLoss(mapNativeError('sql', err)),
       });
       this.connectedAt = new Date();
       this.emitter.emit('connected', {
@@ -231,19 +542,24 @@ export class SqlAdapter implements DatabaseAdapter {
 
   async close(): Promise<void> {
     this.reconnectManager.stop();
-    await sql.closePool();
+    await sql.closePool(this.poolKey);
     this.connectedAt = null;
   }
 
   status(): ConnectionStatus {
     return {
-      state: this.connectedAt ? 'connected' : 'disconnected',
+      state: this.reconnectManager.isReconnecting ? 'reconnecting' : this.connectedAt ? 'connected' : 'disconnected',
       backend: 'sql',
       driver: this.driver,
       uri: redactUri(this.config.uri),
       dbName: this.config.dbName ?? extractDbName(this.config.uri),
       uptimeMs: this.connectedAt ? Date.now() - this.connectedAt.getTime() : 0,
-      pool: { active: 0, idle: 0, waiting: 0, max: 10 },
+      pool: sql.getPoolStats(this.poolKey) ?? {
+        active: 0,
+        idle: 0,
+        waiting: 0,
+        max: this.dialect === 'sqlite' ? 1 : sql.POOL_PRESETS[this.config.pool ?? 'standard'].max,
+      },
       reconnect: {
         enabled: this.reconnectManager.enabled,
         attempts: this.reconnectManager.attemptCount,
@@ -252,7 +568,25 @@ export class SqlAdapter implements DatabaseAdapter {
     };
   }
 
+  // ─── Connection Loss ─────────────────────────────────────────────────────
+
+  /** Map a driver error, starting the reconnect loop if the connection was lost. */
+  private mapError(err: unknown, collection?: string, operation?: string): StrictDBError {
+    const mapped = mapNativeError('sql', err, collection, operation);
+    this.detectConnectionLoss(mapped);
+    return mapped;
+  }
+
+  private detectConnectionLoss(err: StrictDBError): void {
+    if (err.code !== 'CONNECTION_LOST') return;
+    // The pool replaces broken connections itself — reconnected once it serves queries again
+    this.reconnectManager.trigger(async () => {
+      await sql.execute('SELECT 1', undefined, this.poolKey);
+    });
+  }
+
   async queryOne<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
     try {
       const query = buildSelectSQL(
         collection,
@@ -265,16 +599,17 @@ export class SqlAdapter implements DatabaseAdapter {
           dialect: this.dialect,
         },
       );
-      const result = await sql.queryOne<T>(query.sql, query.values);
+      const result = await sql.queryOne<T>(query.sql, query.values, this.poolKey);
       if (!result) return null;
       const stripped = stripExcludedFields([result], options?.projection as Record<string, 0 | 1> | undefined);
       return stripped[0] ?? null;
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'queryOne');
+      throw this.mapError(err, collection, 'queryOne');
     }
   }
 
   async queryMany<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T[]> {
+    await this.reconnectManager.ready();
     try {
       const query = buildSelectSQL(
         collection,
@@ -287,77 +622,163 @@ export class SqlAdapter implements DatabaseAdapter {
           dialect: this.dialect,
         },
       );
-      const results = await sql.queryMany<T>(query.sql, query.values);
+      const results = await sql.queryMany<T>(query.sql, query.values, this.poolKey);
       return stripExcludedFields(results, options?.projection as Record<string, 0 | 1> | undefined);
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'queryMany');
+      throw this.mapError(err, collection, 'queryMany');
+    }
+  }
+
+  /** Keyset paging: each batch resumes after the last row of the previous one. */
+  async *stream<T>(collection: string, filter: StrictFilter<T>, options?: StreamOptions<T>): AsyncIterable<T> {
+    await this.reconnectManager.ready();
+    const keys = resolveKeysetSort(options?.sort as Record<string, unknown> | undefined, options?.tiebreaker ?? 'id');
+    const projection = options?.projection as Record<string, 0 | 1> | undefined;
+    const select = withKeyFields(projection, keys);
+    const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+    let remaining = options?.limit ?? Infinity;
+    let after: unknown[] | null = null;
+
+    while (remaining > 0) {
+      const size = Math.min(batchSize, remaining);
+      let rows: Record<string, unknown>[];
+      try {
+        const query = buildSelectSQL(
+          collection,
+          after ? andFilters(filter as Record<string, unknown>, buildKeysetFilter(keys, after)) : filter as Record<string, unknown>,
+          { sort: toSortSpec(keys), limit: size, projection: select.projection, dialect: this.dialect },
+        );
+        rows = await sql.queryMany<Record<string, unknown>>(query.sql, query.values, this.poolKey);
+      } catch (err) {
+        throw this.mapError(err, collection, 'stream');
+      }
+      if (rows.length === 0) return;
+
+      after = keysetValues(keys, rows[rows.length - 1]!);
+      for (const row of stripExcludedFields(rows, projection)) {
+        for (const field of select.added) delete row[field];
+        yield row as T;
+      }
+      remaining -= rows.length;
+      if (rows.length < size) return;
     }
   }
 
   async queryWithLookup<T>(collection: string, options: LookupOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
     try {
-      const execFn: ExecFn = (s, p) => sql.getPool().query(s, p);
+      const execFn: ExecFn = (s, p) => sql.getPool(this.poolKey).query(s, p);
       return await performLookup(execFn, collection, options, this.dialect);
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'queryWithLookup');
+      throw this.mapError(err, collection, 'queryWithLookup');
+    }
+  }
+
+  async getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
+    try {
+      const execFn: ExecFn = (s, p) => sql.getPool(this.poolKey).query(s, p);
+      const projection = options?.projection as Record<string, 0 | 1> | undefined;
+      return await performGetById(execFn, collection, id, projection, this.dialect, this.primaryKeys) as T | null;
+    } catch (err) {
+      throw this.mapError(err, collection, 'getById');
     }
   }
 
   async count<T>(collection: string, filter?: StrictFilter<T>): Promise<number> {
+    await this.reconnectManager.ready();
     try {
       const query = buildCountSQL(collection, (filter ?? {}) as Record<string, unknown>, this.dialect);
-      const result = await sql.queryOne<{ count: string | number }>(query.sql, query.values);
+      const result = await sql.queryOne<{ count: string | number }>(query.sql, query.values, this.poolKey);
       return Number(result?.count ?? 0);
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'count');
+      throw this.mapError(err, collection, 'count');
+    }
+  }
+
+  async aggregate<R>(collection: string, spec: AggregateSpec): Promise<R[]> {
+    await this.reconnectManager.ready();
+    try {
+      const agg = normalizeAggregate(spec, 'sql');
+      const query = buildAggregateSQL(collection, agg, this.dialect);
+      const rows = await sql.queryMany<Record<string, unknown>>(query.sql, query.values, this.poolKey);
+      return normalizeAggregateRows(rows, agg) as R[];
+    } catch (err) {
+      throw this.mapError(err, collection, 'aggregate');
+    }
+  }
+
+  async distinct<V>(collection: string, field: string, filter: StrictFilter<unknown>, options?: { limit?: number }): Promise<V[]> {
+    await this.reconnectManager.ready();
+    try {
+      const query = buildDistinctSQL(collection, field, filter as Record<string, unknown>, { limit: options?.limit, dialect: this.dialect });
+      const rows = await sql.queryMany<Record<string, unknown>>(query.sql, query.values, this.poolKey);
+      return rows.map(row => row[field] as V);
+    } catch (err) {
+      throw this.mapError(err, collection, 'distinct');
     }
   }
 
   async insertOne<T>(collection: string, doc: T): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      const query = buildInsertSQL(collection, doc as Record<string, unknown>, this.dialect);
-      await sql.execute(query.sql, query.values);
+      const insertedIds = await performInsert(
+        (s, p) => sql.getPool(this.poolKey).query(s, p),
+        collection,
+        [doc as Record<string, unknown>],
+        this.dialect,
+        this.primaryKeys,
+      );
       return createReceipt({
         operation: 'insertOne',
         collection,
         backend: 'sql',
         startTime,
         insertedCount: 1,
+        insertedIds,
       });
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'insertOne');
+      throw this.mapError(err, collection, 'insertOne');
     }
   }
 
   async insertMany<T>(collection: string, docs: T[]): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      const query = buildBatchInsertSQL(collection, docs as Record<string, unknown>[], this.dialect);
-      if (query.sql) {
-        await sql.execute(query.sql, query.values);
-      }
+      const insertedIds = await performInsert(
+        (s, p) => sql.getPool(this.poolKey).query(s, p),
+        collection,
+        docs as Record<string, unknown>[],
+        this.dialect,
+        this.primaryKeys,
+      );
       return createReceipt({
         operation: 'insertMany',
         collection,
         backend: 'sql',
         startTime,
         insertedCount: docs.length,
+        insertedIds,
       });
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'insertMany');
+      throw this.mapError(err, collection, 'insertMany');
     }
   }
 
   async updateOne<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>, upsert?: boolean): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
-      const execFn: ExecFn = (s, p) => sql.getPool().query(s, p);
+      const execFn: ExecFn = (s, p) => sql.getPool(this.poolKey).query(s, p);
       const filterRec = filter as Record<string, unknown>;
       const updateRec = update as UpdateOperators<Record<string, unknown>>;
 
       if (upsert) {
-        const { rowCount, inserted } = await performUpsert(execFn, collection, filterRec, updateRec, this.dialect);
+        const { rowCount, inserted, upsertedId } = await performUpsert(
+          execFn, collection, filterRec, updateRec, this.dialect, this.primaryKeys,
+        );
         return createReceipt({
           operation: 'updateOne',
           collection,
@@ -366,13 +787,14 @@ export class SqlAdapter implements DatabaseAdapter {
           matchedCount: inserted ? 0 : rowCount,
           modifiedCount: inserted ? 0 : rowCount,
           insertedCount: inserted ? 1 : 0,
+          upsertedId,
         });
       }
 
       const query = buildUpdateSQL(collection, filterRec, updateRec, this.dialect);
       const where = translateToSQL(filterRec, this.dialect);
       const limitedSql = limitUpdateOne(query.sql, collection, where.clause, this.dialect);
-      const result = await sql.execute(limitedSql, query.values);
+      const result = await sql.execute(limitedSql, query.values, this.poolKey);
       return createReceipt({
         operation: 'updateOne',
         collection,
@@ -382,11 +804,38 @@ export class SqlAdapter implements DatabaseAdapter {
         modifiedCount: result.rowCount,
       });
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'updateOne');
+      throw this.mapError(err, collection, 'updateOne');
+    }
+  }
+
+  async updateOneAndReturn<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options: UpdateAndReturnOptions<T>,
+  ): Promise<{ doc: T | null; upserted: boolean }> {
+    await this.reconnectManager.ready();
+    try {
+      const run = (execFn: ExecFn) => performUpdateAndReturn(
+        execFn,
+        collection,
+        filter as Record<string, unknown>,
+        update as UpdateOperators<Record<string, unknown>>,
+        options as UpdateAndReturnOptions<Record<string, unknown>>,
+        this.dialect,
+        this.primaryKeys,
+      );
+      const result = this.dialect === 'mssql'
+        ? await run((s, p) => sql.getPool(this.poolKey).query(s, p))
+        : await sql.withTransaction(client => run((s, p) => client.query(s, p)), this.dialect, this.poolKey);
+      return result as { doc: T | null; upserted: boolean };
+    } catch (err) {
+      throw this.mapError(err, collection, 'updateOneAndReturn');
     }
   }
 
   async updateMany<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
       const query = buildUpdateSQL(
@@ -395,7 +844,7 @@ export class SqlAdapter implements DatabaseAdapter {
         update as UpdateOperators<Record<string, unknown>>,
         this.dialect,
       );
-      const result = await sql.execute(query.sql, query.values);
+      const result = await sql.execute(query.sql, query.values, this.poolKey);
       return createReceipt({
         operation: 'updateMany',
         collection,
@@ -405,17 +854,18 @@ export class SqlAdapter implements DatabaseAdapter {
         modifiedCount: result.rowCount,
       });
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'updateMany');
+      throw this.mapError(err, collection, 'updateMany');
     }
   }
 
   async deleteOne<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
       const query = buildDeleteSQL(collection, filter as Record<string, unknown>, this.dialect);
       const where = translateToSQL(filter as Record<string, unknown>, this.dialect);
       const limitedSql = limitDeleteOne(query.sql, collection, where.clause, this.dialect);
-      const result = await sql.execute(limitedSql, query.values);
+      const result = await sql.execute(limitedSql, query.values, this.poolKey);
       return createReceipt({
         operation: 'deleteOne',
         collection,
@@ -424,15 +874,36 @@ export class SqlAdapter implements DatabaseAdapter {
         deletedCount: result.rowCount,
       });
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'deleteOne');
+      throw this.mapError(err, collection, 'deleteOne');
+    }
+  }
+
+  async deleteOneAndReturn<T>(collection: string, filter: StrictFilter<T>, options: DeleteAndReturnOptions<T>): Promise<T | null> {
+    await this.reconnectManager.ready();
+    try {
+      const run = (execFn: ExecFn) => performDeleteAndReturn(
+        execFn,
+        collection,
+        filter as Record<string, unknown>,
+        options as DeleteAndReturnOptions<Record<string, unknown>>,
+        this.dialect,
+        this.primaryKeys,
+      );
+      const doc = this.dialect === 'mssql'
+        ? await run((s, p) => sql.getPool(this.poolKey).query(s, p))
+        : await sql.withTransaction(client => run((s, p) => client.query(s, p)), this.dialect, this.poolKey);
+      return doc as T | null;
+    } catch (err) {
+      throw this.mapError(err, collection, 'deleteOneAndReturn');
     }
   }
 
   async deleteMany<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
     const startTime = Date.now();
     try {
       const query = buildDeleteSQL(collection, filter as Record<string, unknown>, this.dialect);
-      const result = await sql.execute(query.sql, query.values);
+      const result = await sql.execute(query.sql, query.values, this.poolKey);
       return createReceipt({
         operation: 'deleteMany',
         collection,
@@ -441,31 +912,63 @@ export class SqlAdapter implements DatabaseAdapter {
         deletedCount: result.rowCount,
       });
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'deleteMany');
+      throw this.mapError(err, collection, 'deleteMany');
+    }
+  }
+
+  async batch(operations: BatchOperation[]): Promise<OperationReceipt> {
+    await this.reconnectManager.ready();
+    const startTime = Date.now();
+    // Index of the operation currently executing — -1 outside the loop (BEGIN/COMMIT)
+    let current = -1;
+    try {
+      const receipts = await sql.withTransaction(async (client) => {
+        const txAdapter = new SqlTransactionAdapter(client, this.dialect, this.driver, this.primaryKeys);
+        const results: OperationReceipt[] = [];
+        for (const [index, op] of operations.entries()) {
+          current = index;
+          results.push(await runBatchOperation(txAdapter, op));
+        }
+        current = -1;
+        return results;
+      }, this.dialect, this.poolKey);
+      return summarizeBatch('sql', startTime, receipts);
+    } catch (err) {
+      const failed = operations[current];
+      if (!failed) throw this.mapError(err, 'batch', 'batch');
+      // Transaction rolled back — nothing from this batch was applied
+      return summarizeBatch('sql', startTime, [], [toBatchFailure('sql', current, failed, err)]);
     }
   }
 
   async withTransaction<T>(fn: (txAdapter: DatabaseAdapter) => Promise<T>): Promise<T> {
+    await this.reconnectManager.ready();
     return sql.withTransaction(async (client) => {
-      const txAdapter = new SqlTransactionAdapter(client, this.dialect, this.driver);
+      const txAdapter = new SqlTransactionAdapter(client, this.dialect, this.driver, this.primaryKeys);
       return fn(txAdapter);
-    }, this.dialect);
+    }, this.dialect, this.poolKey);
   }
 
   async ensureCollections(definitions: Array<{ name: string; sql?: string }>): Promise<void> {
+    await this.reconnectManager.ready();
     for (const def of definitions) {
       if (def.sql) {
-        await sql.execute(def.sql);
+        await sql.execute(def.sql, undefined, this.poolKey);
       }
     }
+    // Tables may have been (re)created with different keys
+    this.primaryKeys.clear();
   }
 
   async describeCollection(collection: string): Promise<Array<{ name: string; type: string; required: boolean }>> {
+    await this.reconnectManager.ready();
     try {
       if (this.dialect === 'pg') {
         const rows = await sql.queryMany<{ column_name: string; data_type: string; is_nullable: string }>(
-          `SELECT column_name, data_type, is_nullable FROM information_schema.columns WHERE table_name = $1 ORDER BY ordinal_position`,
+          `SELECT column_name, data_type, is_nullable FROM information_schema.columns
+            WHERE table_schema = current_schema() AND table_name = $1 ORDER BY ordinal_position`,
           [collection],
+          this.poolKey,
         );
         return rows.map(r => ({
           name: r.column_name,
@@ -477,6 +980,8 @@ export class SqlAdapter implements DatabaseAdapter {
       if (this.dialect === 'sqlite') {
         const rows = await sql.queryMany<{ name: string; type: string; notnull: number }>(
           `PRAGMA table_info("${collection}")`,
+          undefined,
+          this.poolKey,
         );
         return rows.map(r => ({
           name: r.name,
@@ -485,10 +990,14 @@ export class SqlAdapter implements DatabaseAdapter {
         }));
       }
 
-      // MySQL, MSSQL
+      // MySQL, MSSQL — only the connection's own database or default schema
+      const schemaFilter = this.dialect === 'mysql2' ? 'DATABASE()' : 'SCHEMA_NAME()';
       const rows = await sql.queryMany<{ COLUMN_NAME: string; DATA_TYPE: string; IS_NULLABLE: string }>(
-        `SELECT COLUMN_NAME, DATA_TYPE, IS_NULLABLE FROM information_schema.columns WHERE table_name = $1`,
+        `SELECT COLUMN_NAME, DATA_TYPE, IS_NULLABLE FROM information_schema.columns
+          WHERE TABLE_SCHEMA = ${schemaFilter} AND TABLE_NAME = ${placeholder(this.dialect, 1)}
+          ORDER BY ORDINAL_POSITION`,
         [collection],
+        this.poolKey,
       );
       return rows.map(r => ({
         name: r.COLUMN_NAME,
@@ -496,7 +1005,7 @@ export class SqlAdapter implements DatabaseAdapter {
         required: r.IS_NULLABLE === 'NO',
       }));
     } catch (err) {
-      throw mapNativeError('sql', err, collection, 'describe');
+      throw this.mapError(err, collection, 'describe');
     }
   }
 
@@ -504,6 +1013,64 @@ export class SqlAdapter implements DatabaseAdapter {
     return this.count(collection);
   }
 
+  async getIndexes(collection: string): Promise<Array<{ fields: Record<string, 1 | -1>; unique?: boolean }>> {
+    await this.reconnectManager.ready();
+    try {
+      if (this.dialect === 'pg') {
+        const rows = await sql.queryMany<{ indexdef: string }>(
+          `SELECT indexdef FROM pg_indexes WHERE schemaname = current_schema() AND tablename = $1 ORDER BY indexname`,
+          [collection],
+          this.poolKey,
+        );
+        return rows.flatMap(r => parsePgIndexDef(r.indexdef) ?? []);
+      }
+
+      let lookup: string;
+      switch (this.dialect) {
+        case 'mysql2':
+          // Only BTREE — FULLTEXT and SPATIAL indexes don't serve plain filters
+          lookup = `SELECT INDEX_NAME AS name, COLUMN_NAME AS column_name,
+              CASE WHEN COLLATION = 'D' THEN 1 ELSE 0 END AS descending, 1 - NON_UNIQUE AS is_unique
+            FROM information_schema.statistics
+            WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_TYPE = 'BTREE'
+            ORDER BY INDEX_NAME, SEQ_IN_INDEX`;
+          break;
+        case 'mssql':
+          // Clustered and nonclustered rowstore indexes; included columns have key_ordinal 0
+          lookup = `SELECT i.name AS name, c.name AS column_name, ic.is_descending_key AS descending, i.is_unique AS is_unique
+            FROM sys.indexes i
+            JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+            JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+            WHERE i.object_id = OBJECT_ID(${placeholder(this.dialect, 1)}) AND i.type IN (1, 2) AND ic.key_ordinal > 0
+            ORDER BY i.name, ic.key_ordinal`;
+          break;
+        default:
+          // index_xinfo names expression columns NULL; key = 0 rows are the trailing rowid
+          lookup = `SELECT il.name AS name, ii.name AS column_name, ii."desc" AS descending, il."unique" AS is_unique
+            FROM pragma_index_list(?) il JOIN pragma_index_xinfo(il.name) ii
+            WHERE ii.key = 1
+            ORDER BY il.name, ii.seqno`;
+      }
+
+      const rows = await sql.queryMany<SqlIndexColumn>(lookup, [collection], this.poolKey);
+      return groupIndexColumns(rows);
+    } catch (err) {
+      throw this.mapError(err, collection, 'getIndexes');
+    }
+  }
+
+  async explainPlan(collection: string, native: string | object, values?: unknown[]): Promise<{ plan: unknown; summary: ExplainSummary }> {
+    await this.reconnectManager.ready();
+    try {
+      const result = await sql.execute(buildExplainSQL(native as string, this.dialect), values, this.poolKey);
+      const rows = result.rows ?? [];
+      const summary = summarizeSqlPlan(this.dialect, rows, result.resultSets);
+      return { plan: this.dialect === 'mssql' ? result.resultSets?.[result.resultSets.length - 1] : rows, summary };
+    } catch (err) {
+      throw this.mapError(err, collection, 'explain');
+    }
+  }
+
   raw(): unknown {
     return sql;
   }
@@ -512,7 +1079,7 @@ export class SqlAdapter implements DatabaseAdapter {
 // ─── Transaction-Scoped Adapter ───────────────────────────────────────────
 
 interface TxClient {
-  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount: number }>;
+  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount: number; insertId?: number }>;
 }
 
 class SqlTransactionAdapter implements DatabaseAdapter {
@@ -521,11 +1088,13 @@ class SqlTransactionAdapter implements DatabaseAdapter {
 
   private client: TxClient;
   private dialect: SqlDialect;
+  private primaryKeys: PrimaryKeyCache;
 
-  constructor(client: TxClient, dialect: SqlDialect, driver: Driver) {
+  constructor(client: TxClient, dialect: SqlDialect, driver: Driver, primaryKeys: PrimaryKeyCache) {
     this.client = client;
     this.dialect = dialect;
     this.driver = driver;
+    this.primaryKeys = primaryKeys;
   }
 
   async connect(): Promise<void> { /* transaction-scoped — no-op */ }
@@ -588,6 +1157,16 @@ class SqlTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null> {
+    try {
+      const execFn: ExecFn = (s, p) => this.client.query(s, p);
+      const projection = options?.projection as Record<string, 0 | 1> | undefined;
+      return await performGetById(execFn, collection, id, projection, this.dialect, this.primaryKeys) as T | null;
+    } catch (err) {
+      throw mapNativeError('sql', err, collection, 'getById');
+    }
+  }
+
   async count<T>(collection: string, filter?: StrictFilter<T>): Promise<number> {
     try {
       const query = buildCountSQL(collection, (filter ?? {}) as Record<string, unknown>, this.dialect);
@@ -598,12 +1177,34 @@ class SqlTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async aggregate<R>(collection: string, spec: AggregateSpec): Promise<R[]> {
+    try {
+      const agg = normalizeAggregate(spec, 'sql');
+      const query = buildAggregateSQL(collection, agg, this.dialect);
+      const result = await this.client.query(query.sql, query.values);
+      return normalizeAggregateRows(result.rows as Record<string, unknown>[], agg) as R[];
+    } catch (err) {
+      throw mapNativeError('sql', err, collection, 'aggregate');
+    }
+  }
+
+  async distinct<V>(collection: string, field: string, filter: StrictFilter<unknown>, options?: { limit?: number }): Promise<V[]> {
+    try {
+      const query = buildDistinctSQL(collection, field, filter as Record<string, unknown>, { limit: options?.limit, dialect: this.dialect });
+      const result = await this.client.query(query.sql, query.values);
+      return (result.rows as Record<string, unknown>[]).map(row => row[field] as V);
+    } catch (err) {
+      throw mapNativeError('sql', err, collection, 'distinct');
+    }
+  }
+
   async insertOne<T>(collection: string, doc: T): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
-      const query = buildInsertSQL(collection, doc as Record<string, unknown>, this.dialect);
-      await this.client.query(query.sql, query.values);
-      return createReceipt({ operation: 'insertOne', collection, backend: 'sql', startTime, insertedCount: 1 });
+      const insertedIds = await performInsert(
+        (s, p) => this.client.query(s, p), collection, [doc as Record<string, unknown>], this.dialect, this.primaryKeys,
+      );
+      return createReceipt({ operation: 'insertOne', collection, backend: 'sql', startTime, insertedCount: 1, insertedIds });
     } catch (err) {
       throw mapNativeError('sql', err, collection, 'insertOne');
     }
@@ -612,11 +1213,12 @@ class SqlTransactionAdapter implements DatabaseAdapter {
   async insertMany<T>(collection: string, docs: T[]): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
-      const query = buildBatchInsertSQL(collection, docs as Record<string, unknown>[], this.dialect);
-      if (query.sql) {
-        await this.client.query(query.sql, query.values);
-      }
-      return createReceipt({ operation: 'insertMany', collection, backend: 'sql', startTime, insertedCount: docs.length });
+      const insertedIds = await performInsert(
+        (s, p) => this.client.query(s, p), collection, docs as Record<string, unknown>[], this.dialect, this.primaryKeys,
+      );
+      return createReceipt({
+        operation: 'insertMany', collection, backend: 'sql', startTime, insertedCount: docs.length, insertedIds,
+      });
     } catch (err) {
       throw mapNativeError('sql', err, collection, 'insertMany');
     }
@@ -630,12 +1232,15 @@ class SqlTransactionAdapter implements DatabaseAdapter {
       const updateRec = update as UpdateOperators<Record<string, unknown>>;
 
       if (upsert) {
-        const { rowCount, inserted } = await performUpsert(execFn, collection, filterRec, updateRec, this.dialect);
+        const { rowCount, inserted, upsertedId } = await performUpsert(
+          execFn, collection, filterRec, updateRec, this.dialect, this.primaryKeys,
+        );
         return createReceipt({
           operation: 'updateOne', collection, backend: 'sql', startTime,
           matchedCount: inserted ? 0 : rowCount,
           modifiedCount: inserted ? 0 : rowCount,
           insertedCount: inserted ? 1 : 0,
+          upsertedId,
         });
       }
 
@@ -652,6 +1257,28 @@ class SqlTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async updateOneAndReturn<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options: UpdateAndReturnOptions<T>,
+  ): Promise<{ doc: T | null; upserted: boolean }> {
+    try {
+      const result = await performUpdateAndReturn(
+        (s, p) => this.client.query(s, p),
+        collection,
+        filter as Record<string, unknown>,
+        update as UpdateOperators<Record<string, unknown>>,
+        options as UpdateAndReturnOptions<Record<string, unknown>>,
+        this.dialect,
+        this.primaryKeys,
+      );
+      return result as { doc: T | null; upserted: boolean };
+    } catch (err) {
+      throw mapNativeError('sql', err, collection, 'updateOneAndReturn');
+    }
+  }
+
   async updateMany<T>(collection: string, filter: StrictFilter<T>, update: UpdateOperators<T>): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
@@ -684,6 +1311,22 @@ class SqlTransactionAdapter implements DatabaseAdapter {
     }
   }
 
+  async deleteOneAndReturn<T>(collection: string, filter: StrictFilter<T>, options: DeleteAndReturnOptions<T>): Promise<T | null> {
+    try {
+      const doc = await performDeleteAndReturn(
+        (s, p) => this.client.query(s, p),
+        collection,
+        filter as Record<string, unknown>,
+        options as DeleteAndReturnOptions<Record<string, unknown>>,
+        this.dialect,
+        this.primaryKeys,
+      );
+      return doc as T | null;
+    } catch (err) {
+      throw mapNativeError('sql', err, collection, 'deleteOneAndReturn');
+    }
+  }
+
   async deleteMany<T>(collection: string, filter: StrictFilter<T>, _options?: ConfirmOptions): Promise<OperationReceipt> {
     const startTime = Date.now();
     try {
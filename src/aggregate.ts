@@ -0,0 +1,229 @@
+/**
+ * StrictDB Aggregation — db.aggregate()
+ *
+ * One spec, three native forms:
+ *   { match, groupBy: 'region', metrics: { total: { $sum: 'amount' } } }
+ *   → MongoDB:       [$match, $group, $project, $sort, $limit]
+ *   → SQL:           SELECT "region", SUM("amount") AS "total" ... GROUP BY "region"
+ *   → Elasticsearch: terms aggregation with sum/avg/min/max sub-aggregations
+ *
+ * Every backend returns flat rows: the groupBy fields plus one key per metric.
+ */
+
+import { StrictDBError } from './errors.js';
+import { quoteIdentifier, translateToElastic, translateToSQL } from './filter-translator.js';
+import type { FullSqlQuery } from './filter-translator.js';
+import type { AggregateSpec, Backend, SqlDialect } from './types.js';
+
+type MetricFn = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface NormalizedAggregate {
+  match: Record<string, unknown>;
+  groupBy: string[];
+  metrics: Array<{ name: string; fn: MetricFn; field?: string }>;
+  sort: Array<[key: string, direction: 1 | -1]>;
+  limit?: number;
+}
+
+const METRIC_OPERATORS: Record<string, MetricFn> = {
+  $count: 'count', $sum: 'sum', $avg: 'avg', $min: 'min', $max: 'max',
+};
+
+/** Most buckets one Elasticsearch terms aggregation returns when no limit is given */
+const MAX_GROUP_BUCKETS = 10_000;
+
+/**
+ * Validate an aggregate spec and flatten it for the builders.
+ * Throws StrictDBError with a fix for anything the builders can't express.
+ */
+export function normalizeAggregate(spec: AggregateSpec, backend: Backend): NormalizedAggregate {
+  const groupBy = spec.groupBy === undefined ? [] : Array.isArray(spec.groupBy) ? spec.groupBy : [spec.groupBy];
+  const example = `{ groupBy: 'region', metrics: { total: { $sum: 'amount' }, orders: { $count: true } } }`;
+
+  // MongoDB's $project would nest 'address.city' as { address: { city } } — rows must stay flat
+  const dotted = groupBy.find(field => field.includes('.'));
+  if (dotted) {
+    throw aggregateError(backend, 'VALIDATION_ERROR',
+      `aggregate() cannot group by the nested field "${dotted}".`,
+      `Group by a top-level field. To group by "${dotted}", store it at the top level (e.g. "${dotted.replace(/\./g, '_')}") or run a native pipeline through db.raw().`);
+  }
+
+  const entries = Object.entries(spec.metrics ?? {});
+  if (entries.length === 0) {
+    throw aggregateError(backend, 'VALIDATION_ERROR', 'aggregate() needs at least one metric.', `Pass metrics by output name: ${example}`);
+  }
+
+  const metrics = entries.map(([name, metric]) => {
+    const keys = Object.keys(metric ?? {});
+    const fn = keys.length === 1 ? METRIC_OPERATORS[keys[0]!] : undefined;
+    if (!fn) {
+      throw aggregateError(backend, 'UNKNOWN_OPERATOR',
+        `Metric "${name}" must use exactly one of $count, $sum, $avg, $min, $max.`,
+        `Example: ${example}`);
+    }
+    if (groupBy.includes(name)) {
+      throw aggregateError(backend, 'VALIDATION_ERROR',
+        `Metric name "${name}" collides with a groupBy field.`,
+        `Rename the metric, e.g. { ${name}Total: { $sum: '...' } }.`);
+    }
+    if (fn === 'count') return { name, fn };
+    const field = (metric as Record<string, unknown>)[keys[0]!];
+    if (typeof field !== 'string' || field.length === 0) {
+      throw aggregateError(backend, 'VALIDATION_ERROR',
+        `Metric "${name}" needs a field name, received ${JSON.stringify(field)}.`,
+        `Name the field to aggregate: { ${name}: { ${keys[0]}: 'amount' } }.`);
+    }
+    return { name, fn, field };
+  });
+
+  const outputs = new Set([...groupBy, ...metrics.map(m => m.name)]);
+  const sort = Object.entries(spec.sort ?? {}).map(([key, dir]): [string, 1 | -1] => {
+    if (!outputs.has(key)) {
+      throw aggregateError(backend, 'VALIDATION_ERROR',
+        `Cannot sort aggregate results by "${key}".`,
+        `Sort by a groupBy field or metric name: ${[...outputs].join(', ')}.`);
+    }
+    return [key, dir === -1 || dir === 'desc' ? -1 : 1];
+  });
+
+  if (spec.limit !== undefined && (!Number.isInteger(spec.limit) || spec.limit < 1)) {
+    throw aggregateError(backend, 'VALIDATION_ERROR',
+      `limit must be a positive integer, received ${spec.limit}.`,
+      'Pass a limit such as { limit: 10 } or omit it to return every group.');
+  }
+
+  return { match: (spec.match ?? {}) as Record<string, unknown>, groupBy, metrics, sort, limit: spec.limit };
+}
+
+/** Every document field the aggregate reads — for the field whitelist */
+export function aggregateFields(agg: NormalizedAggregate): string[] {
+  return [...agg.groupBy, ...agg.metrics.flatMap(m => m.field ? [m.field] : [])];
+}
+
+function aggregateError(backend: Backend, code: 'VALIDATION_ERROR' | 'UNKNOWN_OPERATOR', message: string, fix: string): StrictDBError {
+  return new StrictDBError({ code, message, fix, backend, operation: 'aggregate' });
+}
+
+// ─── MongoDB ─────────────────────────────────────────────────────────────────
+
+export function buildMongoAggregatePipeline(agg: NormalizedAggregate): Record<string, unknown>[] {
+  // Group keys are positional — dotted field names are not allowed inside _id
+  const groupId = agg.groupBy.length > 0
+    ? Object.fromEntries(agg.groupBy.map((field, i) => [`g${i}`, `$${field}`]))
+    : null;
+
+  const group: Record<string, unknown> = { _id: groupId };
+  const project: Record<string, unknown> = { _id: 0 };
+  agg.groupBy.forEach((field, i) => { project[field] = `$_id.g${i}`; });
+  for (const metric of agg.metrics) {
+    group[metric.name] = metric.fn === 'count' ? { $sum: 1 } : { [`$${metric.fn}`]: `$${metric.field}` };
+    project[metric.name] = 1;
+  }
+
+  const pipeline: Record<string, unknown>[] = [{ $match: agg.match }, { $group: group }, { $project: project }];
+  if (agg.sort.length > 0) pipeline.push({ $sort: Object.fromEntries(agg.sort) });
+  if (agg.limit !== undefined) pipeline.push({ $limit: agg.limit });
+  return pipeline;
+}
+
+// ─── SQL ─────────────────────────────────────────────────────────────────────
+
+export function buildAggregateSQL(table: string, agg: NormalizedAggregate, dialect: SqlDialect = 'pg'): FullSqlQuery {
+  const columns = [
+    ...agg.groupBy.map(quoteIdentifier),
+    ...agg.metrics.map(m => `${sqlMetric(m.fn, m.field, dialect)} AS ${quoteIdentifier(m.name)}`),
+  ];
+
+  const where = translateToSQL(agg.match, dialect);
+  const top = dialect === 'mssql' && agg.limit !== undefined ? `TOP(${Number(agg.limit)}) ` : '';
+  let sql = `SELECT ${top}${columns.join(', ')} FROM ${quoteIdentifier(table)}`;
+
+  if (where.clause !== '1=1') sql += ` WHERE ${where.clause}`;
+  if (agg.groupBy.length > 0) sql += ` GROUP BY ${agg.groupBy.map(quoteIdentifier).join(', ')}`;
+  if (agg.sort.length > 0) {
+    sql += ` ORDER BY ${agg.sort.map(([key, dir]) => `${quoteIdentifier(key)} ${dir === -1 ? 'DESC' : 'ASC'}`).join(', ')}`;
+  }
+  if (agg.limit !== undefined && dialect !== 'mssql') sql += ` LIMIT ${Number(agg.limit)}`;
+
+  return { sql, values: where.values };
+}
+
+function sqlMetric(fn: MetricFn, field: string | undefined, dialect: SqlDialect): string {
+  if (fn === 'count') return 'COUNT(*)';
+  const column = quoteIdentifier(field!);
+  // MSSQL AVG over an integer column returns an integer — average as float instead
+  if (fn === 'avg' && dialect === 'mssql') return `AVG(CAST(${column} AS FLOAT))`;
+  return `${fn.toUpperCase()}(${column})`;
+}
+
+/**
+ * Drivers return COUNT/SUM/AVG as strings when the result may exceed a JS
+ * number (pg bigint/numeric, mysql DECIMAL). Convert them back to numbers.
+ */
+export function normalizeAggregateRows(rows: Record<string, unknown>[], agg: NormalizedAggregate): Record<string, unknown>[] {
+  const numeric = agg.metrics.filter(m => m.fn === 'count' || m.fn === 'sum' || m.fn === 'avg').map(m => m.name);
+  return rows.map(row => {
+    const out = { ...row };
+    for (const name of numeric) {
+      const value = out[name];
+      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) out[name] = Number(value);
+      if (typeof value === 'bigint') out[name] = Number(value);
+    }
+    return out;
+  });
+}
+
+// ─── Elasticsearch ───────────────────────────────────────────────────────────
+
+export function buildElasticAggregateBody(agg: NormalizedAggregate): Record<string, unknown> {
+  const metricAggs = Object.fromEntries(agg.metrics
+    .filter(m => m.fn !== 'count')
+    .map(m => [m.name, { [m.fn]: { field: m.field } }]));
+
+  const body: Record<string, unknown> = { query: translateToElastic(agg.match), size: 0 };
+  if (agg.groupBy.length === 0) {
+    body['track_total_hits'] = true;
+    if (Object.keys(metricAggs).length > 0) body['aggs'] = metricAggs;
+    return body;
+  }
+
+  const size = agg.limit ?? MAX_GROUP_BUCKETS;
+  const order = agg.sort.map(([key, dir]) => {
+    const direction = dir === -1 ? 'desc' : 'asc';
+    if (agg.groupBy.includes(key)) return { _key: direction };
+    const metric = agg.metrics.find(m => m.name === key)!;
+    return { [metric.fn === 'count' ? '_count' : metric.name]: direction };
+  });
+
+  const buckets: Record<string, unknown> = agg.groupBy.length === 1
+    ? { terms: { field: agg.groupBy[0], size, ...(order.length > 0 ? { order } : {}) } }
+    : { multi_terms: { terms: agg.groupBy.map(field => ({ field })), size, ...(order.length > 0 ? { order } : {}) } };
+  if (Object.keys(metricAggs).length > 0) buckets['aggs'] = metricAggs;
+
+  body['aggs'] = { groups: buckets };
+  return body;
+}
+
+export function parseElasticAggregation(response: Record<string, unknown>, agg: NormalizedAggregate): Record<string, unknown>[] {
+  const aggregations = (response['aggregations'] ?? {}) as Record<string, Record<string, unknown>>;
+
+  if (agg.groupBy.length === 0) {
+    const total = (response['hits'] as { total?: { value?: number } | number } | undefined)?.total;
+    const count = typeof total === 'number' ? total : total?.value ?? 0;
+    return [Object.fromEntries(agg.metrics.map(m =>
+      [m.name, m.fn === 'count' ? count : (aggregations[m.name]?.['value'] ?? null)]))];
+  }
+
+  const buckets = (aggregations['groups']?.['buckets'] ?? []) as Array<Record<string, unknown>>;
+  return buckets.map(bucket => {
+    const row: Record<string, unknown> = {};
+    const key = bucket['key'];
+    agg.groupBy.forEach((field, i) => { row[field] = Array.isArray(key) ? key[i] : key; });
+    for (const metric of agg.metrics) {
+      row[metric.name] = metric.fn === 'count'
+        ? bucket['doc_count']
+        : ((bucket[metric.name] as Record<string, unknown> | undefined)?.['value'] ?? null);
+    }
+    return row;
+  });
+}
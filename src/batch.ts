@@ -2,12 +2,151 @@
  * StrictDB Batch Operations — db.batch()
  *
  * Queue multiple operations, execute optimally:
- * - MongoDB: Single bulkWrite call
+ * - MongoDB: One bulkWrite per collection, all inside a single transaction
  * - SQL: Single transaction with batched statements
- * - Elasticsearch: Single bulk API call
+ * - Elasticsearch: Single bulk API call with per-item results
  *
- * NOTE: This module is integrated directly into strictdb.ts batch() method.
- * This file exists as documentation and for any standalone utility needs.
+ * MongoDB and SQL batches are all-or-nothing: the first failure rolls back
+ * every operation and the receipt names the operation that failed.
+ * Elasticsearch has no transactions — successful items stay applied and
+ * each failed item is reported in receipt.errors.
  */
 
-export { } // Module declaration — actual implementation in strictdb.ts
+import type { Backend, BatchFailure, BatchOperation, OperationReceipt } from './types.js';
+import type { DatabaseAdapter } from './adapters/adapter.js';
+import { mapNativeError } from './errors.js';
+import { createReceipt } from './receipts.js';
+
+// ─── Generic Execution ───────────────────────────────────────────────────────
+
+/**
+ * Run a single batch operation against an adapter.
+ * Used inside transactions, where the transaction itself provides atomicity.
+ */
+export async function runBatchOperation(adapter: DatabaseAdapter, op: BatchOperation): Promise<OperationReceipt> {
+  switch (op.operation) {
+    case 'insertOne':
+      return adapter.insertOne(op.collection, op.doc);
+    case 'insertMany':
+      return adapter.insertMany(op.collection, op.docs);
+    case 'updateOne':
+      return adapter.updateOne(op.collection, op.filter, op.update, op.upsert);
+    case 'updateMany':
+      return adapter.updateMany(op.collection, op.filter, op.update);
+    case 'deleteOne':
+      return adapter.deleteOne(op.collection, op.filter);
+    case 'deleteMany':
+      return adapter.deleteMany(op.collection, op.filter);
+  }
+}
+
+/**
+ * Fold per-operation receipts (and any failures) into a single batch receipt.
+ * insertedIds concatenates the insert operations' keys, in batch order, when
+ * every insert reported them.
+ */
+export function summarizeBatch(
+  backend: Backend,
+  startTime: number,
+  receipts: OperationReceipt[],
+  errors: BatchFailure[] = [],
+): OperationReceipt {
+  const inserts = receipts.filter(r => r.operation === 'insertOne' || r.operation === 'insertMany');
+  const insertedIds = inserts.length > 0 && inserts.every(r => r.insertedIds)
+    ? inserts.flatMap(r => r.insertedIds!)
+    : undefined;
+
+  return createReceipt({
+    operation: 'batch',
+    collection: 'batch',
+    backend,
+    startTime,
+    matchedCount: receipts.reduce((n, r) => n + r.matchedCount, 0),
+    modifiedCount: receipts.reduce((n, r) => n + r.modifiedCount, 0),
+    insertedCount: receipts.reduce((n, r) => n + r.insertedCount, 0),
+    deletedCount: receipts.reduce((n, r) => n + r.deletedCount, 0),
+    insertedIds,
+    success: errors.length === 0,
+    errors,
+  });
+}
+
+/**
+ * Describe why a batch operation failed, using the normalized error code.
+ */
+export function toBatchFailure(backend: Backend, index: number, op: BatchOperation, err: unknown): BatchFailure {
+  const mapped = mapNativeError(backend, err, op.collection, op.operation);
+  return {
+    index,
+    operation: op.operation,
+    collection: op.collection,
+    code: mapped.code,
+    message: mapped.message,
+  };
+}
+
+// ─── MongoDB Bulk Grouping ───────────────────────────────────────────────────
+
+export interface MongoBulkGroup {
+  collection: string;
+  /** bulkWrite models, in batch order */
+  operations: Record<string, unknown>[];
+  /** Batch index of each model — insertMany expands to one model per doc */
+  indexes: number[];
+}
+
+/**
+ * Convert batch operations into bulkWrite models, grouping consecutive
+ * operations on the same collection so each group is a single bulkWrite.
+ * Order is preserved — groups are never reordered or merged across collections.
+ */
+export function groupMongoBulkOperations(operations: BatchOperation[]): MongoBulkGroup[] {
+  const groups: MongoBulkGroup[] = [];
+
+  operations.forEach((op, index) => {
+    let group = groups[groups.length - 1];
+    if (!group || group.collection !== op.collection) {
+      group = { collection: op.collection, operations: [], indexes: [] };
+      groups.push(group);
+    }
+
+    for (const model of toMongoWriteModels(op)) {
+      group.operations.push(model);
+      group.indexes.push(index);
+    }
+  });
+
+  return groups;
+}
+
+function toMongoWriteModels(op: BatchOperation): Record<string, unknown>[] {
+  switch (op.operation) {
+    case 'insertOne':
+      return [{ insertOne: { document: op.doc } }];
+    case 'insertMany':
+      return op.docs.map(doc => ({ insertOne: { document: doc } }));
+    case 'updateOne':
+      return [{ updateOne: { filter: op.filter, update: op.update, upsert: op.upsert ?? false } }];
+    case 'updateMany':
+      return [{ updateMany: { filter: op.filter, update: op.update } }];
+    case 'deleteOne':
+      return [{ deleteOne: { filter: op.filter } }];
+    case 'deleteMany':
+      return [{ deleteMany: { filter: op.filter } }];
+  }
+}
+
+/**
+ * Find the batch index of the operation that made a bulkWrite fail.
+ * Falls back to the first operation of the group when the driver
+ * does not report a write error index (e.g. transaction aborts).
+ */
+export function resolveMongoFailureIndex(group: MongoBulkGroup, err: unknown): number {
+  const writeErrors = (err as Record<string, unknown> | null)?.['writeErrors'];
+  const first = Array.isArray(writeErrors) ? writeErrors[0] : writeErrors;
+  const modelIndex = (first as Record<string, unknown> | undefined)?.['index'];
+  if (typeof modelIndex === 'number' && group.indexes[modelIndex] !== undefined) {
+    return group.indexes[modelIndex]!;
+  }
+  return group.indexes[0] ?? 0;
+}
@@ -21,17 +21,23 @@
  */
 
 import {
+  type AggregationCursor,
   type AnyBulkWriteOperation,
+  type BulkWriteResult,
   type ClientSession,
   type Collection,
   type Db,
   type Document,
   type Filter,
   MongoClient,
+  type ModifyResult,
   type OptionalId,
+  type Sort,
   type TransactionOptions,
   type UpdateFilter,
+  type WithId,
 } from 'mongodb';
+import type { PoolStats } from '../../types.js';
 
 // ---------------------------------------------------------------------------
 // NoSQL injection sanitization — runs automatically on ALL inputs
@@ -177,7 +183,7 @@ interface PoolConfig {
   minPoolSize: number;
 }
 
-const POOL_PRESETS: Record<PoolPreset, PoolConfig> = {
+export const POOL_PRESETS: Record<PoolPreset, PoolConfig> = {
   high: { maxPoolSize: 20, minPoolSize: 2 },
   standard: { maxPoolSize: 10, minPoolSize: 2 },
   low: { maxPoolSize: 5, minPoolSize: 1 },
@@ -204,6 +210,7 @@ interface PoolEntry {
   client: MongoClient;
   db: Db;
   label: string;
+  stats: PoolStats;
 }
 
 /** Get or create the global pool map (survives Next.js hot-reload) */
@@ -253,15 +260,49 @@ export async function connect(
     serverSelectionTimeoutMS: 15_000,
   });
 
+  const stats = trackPoolStats(client, poolConfig.maxPoolSize);
   await client.connect();
   const db = client.db(dbName);
 
-  pools.set(connectionUri, { client, db, label });
+  pools.set(connectionUri, { client, db, label, stats });
   console.log(`[db:${label}] Connected to ${dbName} (pool: ${poolConfig.maxPoolSize} max)`);
 
   return { client, db };
 }
 
+/**
+ * Keep live pool counters from CMAP events (summed across all servers).
+ * Listeners must be attached before connect() so no events are missed.
+ */
+function trackPoolStats(client: MongoClient, max: number): PoolStats {
+  const stats: PoolStats = { active: 0, idle: 0, waiting: 0, max };
+  let open = 0;
+  const sync = () => { stats.idle = Math.max(0, open - stats.active); };
+
+  client.on('connectionCreated', () => { open++; sync(); });
+  client.on('connectionClosed', () => { open = Math.max(0, open - 1); sync(); });
+  client.on('connectionCheckOutStarted', () => { stats.waiting++; });
+  client.on('connectionCheckOutFailed', () => { stats.waiting = Math.max(0, stats.waiting - 1); });
+  client.on('connectionCheckedOut', () => {
+    stats.waiting = Math.max(0, stats.waiting - 1);
+    stats.active++;
+    sync();
+  });
+  client.on('connectionCheckedIn', () => { stats.active = Math.max(0, stats.active - 1); sync(); });
+
+  return stats;
+}
+
+/**
+ * Current pool counters for a URI (defaults to the env URI).
+ * Returns null when no pool is connected for it.
+ */
+export function getPoolStats(uri?: string): PoolStats | null {
+  const connectionUri = uri ?? process.env.MONGODB_URI ?? process.env.DATABASE_URL ?? '';
+  const entry = getPoolMap().get(connectionUri);
+  return entry ? { ...entry.stats } : null;
+}
+
 /** Check if a MongoClient is still alive */
 function isClientAlive(client: MongoClient): boolean {
   try {
@@ -359,6 +400,21 @@ export async function queryMany<T extends Document>(
   return db.collection<T>(collection).aggregate<T>(safePipeline).toArray();
 }
 
+/**
+ * Open a cursor over an aggregation pipeline.
+ * The driver fetches `batchSize` documents per round trip and only asks for
+ * the next batch once the current one has been consumed.
+ */
+export async function queryCursor<T extends Document>(
+  collection: string,
+  pipeline: Document[],
+  options?: { trusted?: boolean; batchSize?: number },
+): Promise<AggregationCursor<T>> {
+  const db = await getDb();
+  const safePipeline = options?.trusted ? pipeline : sanitizePipeline(pipeline);
+  return db.collection<T>(collection).aggregate<T>(safePipeline, { batchSize: options?.batchSize });
+}
+
 /**
  * Find a single document with a $lookup join.
  * Enforces $limit BEFORE $lookup for performance.
@@ -367,12 +423,8 @@ export async function queryWithLookup<T extends Document>(
   collection: string,
   options: {
     match: Filter<Document>;
-    lookup: {
-      from: string;
-      localField: string;
-      foreignField: string;
-      as: string;
-    };
+    /** A $lookup stage body — { from, localField, foreignField, as } or the pipeline form */
+    lookup: Document;
     unwind?: string;
     postStages?: Document[];
   }
@@ -396,6 +448,21 @@ export async function queryWithLookup<T extends Document>(
   return results[0] ?? null;
 }
 
+/**
+ * Distinct values of a field across documents matching the filter.
+ * Array fields contribute each element, matching MongoDB's distinct command.
+ */
+export async function distinct(
+  collection: string,
+  field: string,
+  match: Filter<Document> = {},
+  options?: { trusted?: boolean },
+): Promise<unknown[]> {
+  const db = await getDb();
+  const safeMatch = options?.trusted ? match : sanitize(match);
+  return db.collection(collection).distinct(field, safeMatch);
+}
+
 /**
  * Count documents in a collection.
  * Uses aggregation $count for consistency.
@@ -428,9 +495,9 @@ export async function count(
 export async function insertOne<T extends Document>(
   collection: string,
   doc: T
-): Promise<void> {
+): Promise<BulkWriteResult> {
   const db = await getDb();
-  await db.collection<T>(collection).bulkWrite([
+  return db.collection<T>(collection).bulkWrite([
     { insertOne: { document: doc as OptionalId<T> } },
   ]);
 }
@@ -438,14 +505,15 @@ export async function insertOne<T extends Document>(
 /**
  * Insert multiple documents in a single batch.
  * NEVER use insertOne in a loop — always batch with this.
+ * Returns null when there is nothing to insert.
  */
 export async function insertMany<T extends Document>(
   collection: string,
   docs: T[]
-): Promise<void> {
-  if (docs.length === 0) return;
+): Promise<BulkWriteResult | null> {
+  if (docs.length === 0) return null;
   const db = await getDb();
-  await db.collection<T>(collection).bulkWrite(
+  return db.collection<T>(collection).bulkWrite(
     docs.map((doc) => ({ insertOne: { document: doc as OptionalId<T> } }))
   );
 }
@@ -459,13 +527,32 @@ export async function updateOne<T extends Document>(
   filter: Filter<T>,
   update: UpdateFilter<T>,
   upsert = false
-): Promise<void> {
+): Promise<BulkWriteResult> {
   const db = await getDb();
-  await db.collection<T>(collection).bulkWrite([
+  return db.collection<T>(collection).bulkWrite([
     { updateOne: { filter, update, upsert } },
   ]);
 }
 
+/**
+ * Atomically update a single document and return it.
+ * Returns the full ModifyResult so callers can tell an upsert from a match.
+ */
+export async function findOneAndUpdate<T extends Document>(
+  collection: string,
+  filter: Filter<T>,
+  update: UpdateFilter<T>,
+  options: { returnDocument?: 'before' | 'after'; upsert?: boolean; sort?: Sort } = {}
+): Promise<ModifyResult<T>> {
+  const db = await getDb();
+  return db.collection<T>(collection).findOneAndUpdate(filter, update, {
+    returnDocument: options.returnDocument ?? 'after',
+    upsert: options.upsert ?? false,
+    sort: options.sort,
+    includeResultMetadata: true,
+  });
+}
+
 /**
  * Update multiple documents matching a filter.
  */
@@ -473,9 +560,9 @@ export async function updateMany<T extends Document>(
   collection: string,
   filter: Filter<T>,
   update: UpdateFilter<T>
-): Promise<void> {
+): Promise<BulkWriteResult> {
   const db = await getDb();
-  await db.collection<T>(collection).bulkWrite([
+  return db.collection<T>(collection).bulkWrite([
     { updateMany: { filter, update } },
   ]);
 }
@@ -509,24 +596,37 @@ export async function bulkOps<T extends Document>(
 export async function deleteOne<T extends Document>(
   collection: string,
   filter: Filter<T>
-): Promise<void> {
+): Promise<BulkWriteResult> {
   const db = await getDb();
   const safeFilter = sanitize(filter);
-  await db.collection<T>(collection).bulkWrite([
+  return db.collection<T>(collection).bulkWrite([
     { deleteOne: { filter: safeFilter } },
   ]);
 }
 
+/**
+ * Atomically delete a single document and return it.
+ */
+export async function findOneAndDelete<T extends Document>(
+  collection: string,
+  filter: Filter<T>,
+  options: { sort?: Sort } = {}
+): Promise<WithId<T> | null> {
+  const db = await getDb();
+  const safeFilter = sanitize(filter);
+  return db.collection<T>(collection).findOneAndDelete(safeFilter, { sort: options.sort });
+}
+
 /**
  * Delete multiple documents matching a filter.
  */
 export async function deleteMany<T extends Document>(
   collection: string,
   filter: Filter<T>
-): Promise<void> {
+): Promise<BulkWriteResult> {
   const db = await getDb();
   const safeFilter = sanitize(filter);
-  await db.collection<T>(collection).bulkWrite([
+  return db.collection<T>(collection).bulkWrite([
     { deleteMany: { filter: safeFilter } },
   ]);
 }
@@ -619,12 +719,23 @@ export function registerIndex(definition: IndexDefinition): void {
  */
 export async function ensureIndexes(
   options: { dryRun?: boolean } = {}
+): Promise<{ created: string[]; skipped: string[] }> {
+  return createIndexes(indexRegistry, options);
+}
+
+/**
+ * Create the given indexes without touching the module-level registry.
+ * Same semantics as ensureIndexes() — existing indexes are skipped.
+ */
+export async function createIndexes(
+  definitions: IndexDefinition[],
+  options: { dryRun?: boolean } = {}
 ): Promise<{ created: string[]; skipped: string[] }> {
   const db = await getDb();
   const created: string[] = [];
   const skipped: string[] = [];
 
-  for (const def of indexRegistry) {
+  for (const def of definitions) {
     const indexName = Object.entries(def.fields)
       .map(([k, v]) => `${k}_${v}`)
       .join('_');
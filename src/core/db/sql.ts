@@ -6,7 +6,7 @@
  * NEVER import `pg`/`mysql2`/`mssql`/`better-sqlite3` directly in other files.
  *
  * Mirrors the MongoDB wrapper pattern (src/core/db/index.ts):
- * - Singleton pool per URI (prevents connection exhaustion)
+ * - Singleton pool per URI or explicit key (prevents connection exhaustion)
  * - Parameterized queries ALWAYS (prevents SQL injection)
  * - Graceful shutdown with closePool()
  * - Next.js hot-reload persistence via globalThis
@@ -24,86 +24,125 @@
  *   SQLite:     npm install better-sqlite3 @types/better-sqlite3
  */
 
+import type { PoolStats } from '../../types.js';
+
 // ─── Types ──────────────────────────────────────────────────────────────────
 
 export interface PoolOptions {
   pool?: 'high' | 'standard' | 'low';
   label?: string;
+  /** Pool registry key (defaults to the URI). Distinct keys get independent pools. */
+  key?: string;
+  /** Called when the driver reports a background connection error (e.g. an idle client dropped) */
+  onError?: (err: unknown) => void;
 }
 
 export interface ResultSet {
   rowCount: number;
   rows?: unknown[];
+  /** MySQL only — AUTO_INCREMENT value generated for the first inserted row */
+  insertId?: number;
+  /** MSSQL only — every result set of a multi-statement batch, in order */
+  resultSets?: unknown[][];
+}
+
+interface QueryResult {
+  rows: unknown[];
+  rowCount: number;
+  insertId?: number;
+  resultSets?: unknown[][];
 }
 
 interface PoolClient {
-  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount: number }>;
+  query(sql: string, params?: unknown[]): Promise<QueryResult>;
   release(): void;
+  /** Driver-level transaction control, used instead of BEGIN/COMMIT/ROLLBACK statements when present */
+  begin?(): Promise<void>;
+  commit?(): Promise<void>;
+  rollback?(): Promise<void>;
 }
 
 interface Pool {
-  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount: number }>;
+  query(sql: string, params?: unknown[]): Promise<QueryResult>;
   connect(): Promise<PoolClient>;
   end(): Promise<void>;
+  stats(): PoolStats;
 }
 
 // ─── Pool Presets ───────────────────────────────────────────────────────────
 
-const POOL_PRESETS = {
+export const POOL_PRESETS = {
   high: { max: 20, min: 2 },
   standard: { max: 10, min: 2 },
   low: { max: 5, min: 1 },
 } as const;
 
-// ─── Singleton Pool ─────────────────────────────────────────────────────────
+// ─── Singleton Pool Map ─────────────────────────────────────────────────────
 
-const POOL_KEY = Symbol.for('__sql_pool__');
-const LABEL_KEY = Symbol.for('__sql_label__');
+const POOLS_KEY = Symbol.for('__sql_pools__');
 
-function getGlobal(): { pool?: Pool; label?: string } {
-  const g = globalThis as Record<symbol, unknown>;
-  return {
-    pool: g[POOL_KEY] as Pool | undefined,
-    label: g[LABEL_KEY] as string | undefined,
-  };
+interface PoolEntry {
+  pool: Pool;
+  label: string;
 }
 
-function setGlobal(pool: Pool, label: string): void {
-  const g = globalThis as Record<symbol, unknown>;
-  g[POOL_KEY] = pool;
-  g[LABEL_KEY] = label;
+/** Get or create the global pool map (survives Next.js hot-reload) */
+function getPoolMap(): Map<string, PoolEntry> {
+  const g = globalThis as Record<symbol, Map<string, PoolEntry> | undefined>;
+  if (!g[POOLS_KEY]) {
+    g[POOLS_KEY] = new Map();
+  }
+  return g[POOLS_KEY]!;
 }
 
-function clearGlobal(): void {
-  const g = globalThis as Record<symbol, unknown>;
-  delete g[POOL_KEY];
-  delete g[LABEL_KEY];
+const PENDING_KEY = Symbol.for('__sql_pools_pending__');
+
+/** Pools still being created, by key — concurrent connect() calls share one */
+function getPendingMap(): Map<string, Promise<Pool>> {
+  const g = globalThis as Record<symbol, Map<string, Promise<Pool>> | undefined>;
+  if (!g[PENDING_KEY]) {
+    g[PENDING_KEY] = new Map();
+  }
+  return g[PENDING_KEY]!;
 }
 
 // ─── Connection ─────────────────────────────────────────────────────────────
 
 /**
  * Connect to the SQL database. Auto-detects driver from DATABASE_URL scheme.
+ * Returns the same pool for the same key (singleton per URI by default).
  *
  * @param uri - Connection string (defaults to process.env.DATABASE_URL)
- * @param opts - Pool size preset and label
+ * @param opts - Pool size preset, label and registry key
  *
  * @example
  * await connect(); // uses DATABASE_URL from .env
  * await connect(undefined, { pool: 'high', label: 'API' });
+ * await connect('file:./cache.db', { key: 'cache' }); // second, independent pool
  */
 export async function connect(
   uri?: string,
   opts: PoolOptions = {},
-): Promise<void> {
-  const existing = getGlobal();
-  if (existing.pool) return; // Already connected
-
+): Promise<Pool> {
   const connectionString = uri ?? process.env.DATABASE_URL;
   if (!connectionString) {
     throw new Error('DATABASE_URL not set and no URI provided');
   }
 
+  const key = opts.key ?? connectionString;
+  const existing = getPoolMap().get(key);
+  if (existing) return existing.pool; // Already connected
+
+  const pending = getPendingMap();
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight; // Being connected by a concurrent call
+
+  const created = createPool(connectionString, key, opts).finally(() => pending.delete(key));
+  pending.set(key, created);
+  return created;
+}
+
+async function createPool(connectionString: string, key: string, opts: PoolOptions): Promise<Pool> {
   const preset = POOL_PRESETS[opts.pool ?? 'standard'];
   const label = opts.label ?? 'SQL';
   const driver = detectDriver(connectionString);
@@ -114,13 +153,23 @@ export async function connect(
     case 'pg': {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const { Pool: PgPool } = await import('pg');
-      pool = new PgPool({
+      const pgPool = new PgPool({
         connectionString,
         max: preset.max,
         min: preset.min,
         idleTimeoutMillis: 30_000,
         connectionTimeoutMillis: 5_000,
-      }) as unknown as Pool;
+      });
+      // Without a listener, an idle client error crashes the process
+      pgPool.on('error', (err) => opts.onError?.(err));
+      pool = Object.assign(pgPool as unknown as Omit<Pool, 'stats'>, {
+        stats: (): PoolStats => ({
+          active: pgPool.totalCount - pgPool.idleCount,
+          idle: pgPool.idleCount,
+          waiting: pgPool.waitingCount,
+          max: preset.max,
+        }),
+      });
       break;
     }
     case 'mysql2': {
@@ -134,31 +183,41 @@ export async function connect(
       // Adapt mysql2 pool to our Pool interface
       pool = {
         async query(sql: string, params?: unknown[]) {
-          const [rows] = await mysqlPool.execute(sql, params as (string | number | boolean | null | Buffer)[]);
-          const resultRows = Array.isArray(rows) ? rows : [];
-          return { rows: resultRows as unknown[], rowCount: resultRows.length };
+          const [result] = await mysqlPool.execute(sql, params as (string | number | boolean | null | Buffer)[]);
+          return toMysqlResult(result);
         },
         async connect() {
           const conn = await mysqlPool.getConnection();
           return {
             async query(sql: string, params?: unknown[]) {
-              const [rows] = await conn.execute(sql, params as (string | number | boolean | null | Buffer)[]);
-              const resultRows = Array.isArray(rows) ? rows : [];
-              return { rows: resultRows as unknown[], rowCount: resultRows.length };
+              const [result] = await conn.execute(sql, params as (string | number | boolean | null | Buffer)[]);
+              return toMysqlResult(result);
             },
             release() { conn.release(); },
           };
         },
         async end() { await mysqlPool.end(); },
+        stats() {
+          // mysql2 exposes no public counters — read the underlying pool's private queues,
+          // and say so rather than report zeros if a release renames them
+          const inner = (mysqlPool as unknown as { pool?: Record<string, { length: number } | undefined> }).pool;
+          const all = inner?.['_allConnections'];
+          const free = inner?.['_freeConnections'];
+          const queue = inner?.['_connectionQueue'];
+          if (!all || !free || !queue) return { active: 0, idle: 0, waiting: 0, max: preset.max, unavailable: true };
+          return { active: all.length - free.length, idle: free.length, waiting: queue.length, max: preset.max };
+        },
       };
       break;
     }
     case 'mssql': {
       const mssql = await import('mssql');
-      const mssqlPool = await mssql.connect({
+      // A pool of its own — mssql.connect() returns one process-wide pool that ignores a second config
+      const mssqlPool = await new mssql.ConnectionPool({
         connectionString,
         pool: { max: preset.max, min: preset.min },
-      } as unknown as Parameters<typeof mssql.connect>[0]);
+      } as unknown as ConstructorParameters<typeof mssql.ConnectionPool>[0]).connect();
+      mssqlPool.on('error', (err: unknown) => opts.onError?.(err));
       pool = {
         async query(sql: string, params?: unknown[]) {
           const request = mssqlPool.request();
@@ -166,21 +225,50 @@ export async function connect(
           // MSSQL uses @p1, @p2 instead of $1, $2
           const adapted = sql.replace(/\$(\d+)/g, (_, n) => `@p${n}`);
           const result = await request.query(adapted);
-          return { rows: result.recordset ?? [], rowCount: result.rowsAffected[0] ?? 0 };
+          return {
+            rows: result.recordset ?? [],
+            rowCount: result.rowsAffected[0] ?? 0,
+            resultSets: result.recordsets as unknown as unknown[][],
+          };
         },
         async connect() {
+          // Each pool.request() may take a different connection — a Transaction
+          // holds one, so BEGIN, every statement and COMMIT/ROLLBACK share it
+          const transaction = new mssql.Transaction(mssqlPool);
+          let inTransaction = false;
           return {
             async query(sql: string, params?: unknown[]) {
-              const request = mssqlPool.request();
+              const request = inTransaction ? transaction.request() : mssqlPool.request();
               params?.forEach((p, i) => request.input(`p${i + 1}`, p));
               const adapted = sql.replace(/\$(\d+)/g, (_, n) => `@p${n}`);
               const result = await request.query(adapted);
               return { rows: result.recordset ?? [], rowCount: result.rowsAffected[0] ?? 0 };
             },
+            async begin() {
+              await transaction.begin();
+              inTransaction = true;
+            },
+            async commit() {
+              inTransaction = false;
+              await transaction.commit();
+            },
+            async rollback() {
+              inTransaction = false;
+              await transaction.rollback();
+            },
             release() { /* MSSQL pools manage connections internally */ },
           };
         },
         async end() { await mssqlPool.close(); },
+        stats() {
+          const counts = mssqlPool as unknown as { size?: number; available?: number; pending?: number; borrowed?: number };
+          return {
+            active: counts.borrowed ?? 0,
+            idle: counts.available ?? 0,
+            waiting: counts.pending ?? 0,
+            max: preset.max,
+          };
+        },
       };
       break;
     }
@@ -189,34 +277,33 @@ export async function connect(
       const dbPath = connectionString.replace(/^(file:|sqlite:)\/\//, '');
       const db = new Database(dbPath);
       db.pragma('journal_mode = WAL');
+      // One connection: a client holds it exclusively until released, so a
+      // transaction never picks up statements from concurrent callers
+      const lock = createMutex();
       pool = {
         async query(sql: string, params?: unknown[]) {
-          // Convert $1, $2 placeholders to ? for SQLite
-          const adapted = sql.replace(/\$\d+/g, '?');
-          if (adapted.trimStart().toUpperCase().startsWith('SELECT') ||
-              adapted.trimStart().toUpperCase().startsWith('WITH')) {
-            const rows = db.prepare(adapted).all(...(params ?? []));
-            return { rows: rows as unknown[], rowCount: rows.length };
+          const unlock = await lock();
+          try {
+            // Convert $1, $2 placeholders to ? for SQLite
+            return runSqlite(db.prepare(sql.replace(/\$\d+/g, '?')), params);
+          } finally {
+            unlock();
           }
-          const result = db.prepare(adapted).run(...(params ?? []));
-          return { rows: [], rowCount: result.changes };
         },
         async connect() {
+          const unlock = await lock();
           return {
             async query(sql: string, params?: unknown[]) {
-              const adapted = sql.replace(/\$\d+/g, '?');
-              if (adapted.trimStart().toUpperCase().startsWith('SELECT') ||
-                  adapted.trimStart().toUpperCase().startsWith('WITH')) {
-                const rows = db.prepare(adapted).all(...(params ?? []));
-                return { rows: rows as unknown[], rowCount: rows.length };
-              }
-              const result = db.prepare(adapted).run(...(params ?? []));
-              return { rows: [], rowCount: result.changes };
+              return runSqlite(db.prepare(sql.replace(/\$\d+/g, '?')), params);
             },
-            release() { /* SQLite is single-connection */ },
+            release: unlock,
           };
         },
         async end() { db.close(); },
+        stats() {
+          // One synchronous connection — never busy between calls, never queues
+          return { active: 0, idle: db.open ? 1 : 0, waiting: 0, max: 1 };
+        },
       };
       break;
     }
@@ -224,26 +311,85 @@ export async function connect(
       throw new Error(`Unsupported database driver: ${driver}. DATABASE_URL must start with postgresql://, postgres://, mysql://, mssql://, file:, or sqlite:`);
   }
 
-  setGlobal(pool, label);
+  getPoolMap().set(key, { pool, label });
   console.log(`[${label}] SQL pool connected (${opts.pool ?? 'standard'} preset, max=${preset.max})`);
+  return pool;
+}
+
+// ─── Driver Results ─────────────────────────────────────────────────────────
+
+/** mysql2 resolves SELECTs to a row array and writes to a ResultSetHeader */
+function toMysqlResult(result: unknown): QueryResult {
+  if (Array.isArray(result)) return { rows: result, rowCount: result.length };
+  const header = result as { affectedRows?: number; insertId?: number };
+  return { rows: [], rowCount: header.affectedRows ?? 0, insertId: header.insertId || undefined };
+}
+
+/**
+ * A FIFO lock: resolves with a release function once every earlier holder
+ * has released. Releasing twice is a no-op.
+ */
+function createMutex(): () => Promise<() => void> {
+  let tail: Promise<void> = Promise.resolve();
+  return () => {
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    const acquired = tail.then(() => release);
+    tail = tail.then(() => held);
+    return acquired;
+  };
+}
+
+type SqliteStatement = {
+  reader: boolean;
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): { changes: number };
+};
+
+/** Statements that return data (SELECT, WITH, ... RETURNING, PRAGMA) read rows; the rest run */
+function runSqlite(stmt: SqliteStatement, params?: unknown[]): QueryResult {
+  // better-sqlite3 cannot bind Date objects — store them as ISO-8601 text
+  const bound = (params ?? []).map(p => (p instanceof Date ? p.toISOString() : p));
+  if (stmt.reader) {
+    const rows = stmt.all(...bound);
+    return { rows, rowCount: rows.length };
+  }
+  const result = stmt.run(...bound);
+  return { rows: [], rowCount: result.changes };
 }
 
 // ─── Pool Access ────────────────────────────────────────────────────────────
 
-/** Get the active connection pool. Throws if not connected. */
-export function getPool(): Pool {
-  const { pool } = getGlobal();
-  if (!pool) throw new Error('SQL pool not connected. Call connect() first.');
-  return pool;
+/**
+ * Get a connection pool by key. Without a key, returns the first pool connected.
+ * Throws if not connected.
+ */
+export function getPool(key?: string): Pool {
+  const pools = getPoolMap();
+  const entry = key === undefined ? pools.values().next().value : pools.get(key);
+  if (!entry) throw new Error('SQL pool not connected. Call connect() first.');
+  return entry.pool;
+}
+
+/** Live pool counters for a key (first pool when omitted). Null when not connected. */
+export function getPoolStats(key?: string): PoolStats | null {
+  const pools = getPoolMap();
+  const entry = key === undefined ? pools.values().next().value : pools.get(key);
+  return entry ? entry.pool.stats() : null;
 }
 
-/** Close the connection pool. */
-export async function closePool(): Promise<void> {
-  const { pool, label } = getGlobal();
-  if (!pool) return;
-  await pool.end();
-  clearGlobal();
-  console.log(`[${label}] SQL pool closed`);
+/** Close the pool for a key, or every pool when no key is given. */
+export async function closePool(key?: string): Promise<void> {
+  const pools = getPoolMap();
+  const keys = key === undefined ? [...pools.keys()] : [key];
+
+  await Promise.all(keys.map(async (k) => {
+    const entry = pools.get(k);
+    if (!entry) return;
+    pools.delete(k);
+    await entry.pool.end();
+    console.log(`[${entry.label}] SQL pool closed`);
+  }));
 }
 
 // ─── Graceful Shutdown ──────────────────────────────────────────────────────
@@ -268,8 +414,8 @@ export function gracefulShutdown(exitCode = 0): void {
  * @example
  * const user = await queryOne<User>('SELECT * FROM users WHERE id = $1', [userId]);
  */
-export async function queryOne<T>(sql: string, params?: unknown[]): Promise<T | null> {
-  const pool = getPool();
+export async function queryOne<T>(sql: string, params?: unknown[], key?: string): Promise<T | null> {
+  const pool = getPool(key);
   const result = await pool.query(sql, params);
   return (result.rows[0] as T) ?? null;
 }
@@ -280,8 +426,8 @@ export async function queryOne<T>(sql: string, params?: unknown[]): Promise<T |
  * @example
  * const users = await queryMany<User>('SELECT * FROM users WHERE role = $1 LIMIT $2', ['admin', 50]);
  */
-export async function queryMany<T>(sql: string, params?: unknown[]): Promise<T[]> {
-  const pool = getPool();
+export async function queryMany<T>(sql: string, params?: unknown[], key?: string): Promise<T[]> {
+  const pool = getPool(key);
   const result = await pool.query(sql, params);
   return result.rows as T[];
 }
@@ -292,8 +438,8 @@ export async function queryMany<T>(sql: string, params?: unknown[]): Promise<T[]
  * @example
  * const total = await count('users', { role: 'admin' });
  */
-export async function count(table: string, where?: Record<string, unknown>): Promise<number> {
-  const pool = getPool();
+export async function count(table: string, where?: Record<string, unknown>, key?: string): Promise<number> {
+  const pool = getPool(key);
   if (!where || Object.keys(where).length === 0) {
     const result = await pool.query(`SELECT COUNT(*) as count FROM "${table}"`);
     return Number((result.rows[0] as { count: string | number }).count);
@@ -311,10 +457,10 @@ export async function count(table: string, where?: Record<string, unknown>): Pro
  * @example
  * await execute('UPDATE users SET active = $1 WHERE last_login < $2', [false, cutoffDate]);
  */
-export async function execute(sql: string, params?: unknown[]): Promise<ResultSet> {
-  const pool = getPool();
+export async function execute(sql: string, params?: unknown[], key?: string): Promise<ResultSet> {
+  const pool = getPool(key);
   const result = await pool.query(sql, params);
-  return { rowCount: result.rowCount, rows: result.rows };
+  return { rowCount: result.rowCount, rows: result.rows, insertId: result.insertId, resultSets: result.resultSets };
 }
 
 /**
@@ -323,7 +469,7 @@ export async function execute(sql: string, params?: unknown[]): Promise<ResultSe
  * @example
  * await insertOne('users', { email: 'a@b.com', name: 'Alice', created_at: new Date() });
  */
-export async function insertOne(table: string, data: Record<string, unknown>): Promise<ResultSet> {
+export async function insertOne(table: string, data: Record<string, unknown>, key?: string): Promise<ResultSet> {
   const keys = Object.keys(data);
   const values = Object.values(data);
   const placeholders = keys.map((_, i) => `$${i + 1}`).join(', ');
@@ -331,6 +477,7 @@ export async function insertOne(table: string, data: Record<string, unknown>): P
   return execute(
     `INSERT INTO "${table}" (${columns}) VALUES (${placeholders})`,
     values,
+    key,
   );
 }
 
@@ -340,7 +487,7 @@ export async function insertOne(table: string, data: Record<string, unknown>): P
  * @example
  * await insertMany('events', [{ type: 'click', ts: new Date() }, { type: 'view', ts: new Date() }]);
  */
-export async function insertMany(table: string, rows: Record<string, unknown>[]): Promise<void> {
+export async function insertMany(table: string, rows: Record<string, unknown>[], key?: string): Promise<void> {
   if (rows.length === 0) return;
   const keys = Object.keys(rows[0]!);
   const columns = keys.map((k) => `"${k}"`).join(', ');
@@ -356,6 +503,7 @@ export async function insertMany(table: string, rows: Record<string, unknown>[])
   await execute(
     `INSERT INTO "${table}" (${columns}) VALUES ${rowPlaceholders.join(', ')}`,
     allValues,
+    key,
   );
 }
 
@@ -369,6 +517,7 @@ export async function updateOne(
   table: string,
   where: Record<string, unknown>,
   set: Record<string, unknown>,
+  key?: string,
 ): Promise<ResultSet> {
   const setKeys = Object.keys(set);
   const whereKeys = Object.keys(where);
@@ -380,6 +529,7 @@ export async function updateOne(
   return execute(
     `UPDATE "${table}" SET ${setClauses} WHERE ${whereClauses}`,
     allValues,
+    key,
   );
 }
 
@@ -389,9 +539,9 @@ export async function updateOne(
  * @example
  * await deleteOne('tokens', { token: 'abc123' });
  */
-export async function deleteOne(table: string, where: Record<string, unknown>): Promise<ResultSet> {
+export async function deleteOne(table: string, where: Record<string, unknown>, key?: string): Promise<ResultSet> {
   const { clause, values } = buildWhere(where);
-  return execute(`DELETE FROM "${table}" WHERE ${clause}`, values);
+  return execute(`DELETE FROM "${table}" WHERE ${clause}`, values, key);
 }
 
 // ─── Transactions ───────────────────────────────────────────────────────────
@@ -410,17 +560,18 @@ export async function deleteOne(table: string, where: Record<string, unknown>):
 export async function withTransaction<T>(
   fn: (client: PoolClient) => Promise<T>,
   dialect?: 'pg' | 'mysql2' | 'mssql' | 'sqlite',
+  key?: string,
 ): Promise<T> {
-  const pool = getPool();
+  const pool = getPool(key);
   const client = await pool.connect();
   const beginCmd = dialect === 'mssql' ? 'BEGIN TRANSACTION' : 'BEGIN';
   try {
-    await client.query(beginCmd);
+    await (client.begin ? client.begin() : client.query(beginCmd));
     const result = await fn(client);
-    await client.query('COMMIT');
+    await (client.commit ? client.commit() : client.query('COMMIT'));
     return result;
   } catch (err) {
-    await client.query('ROLLBACK');
+    await (client.rollback ? client.rollback() : client.query('ROLLBACK'));
     throw err;
   } finally {
     client.release();
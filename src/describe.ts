@@ -7,12 +7,232 @@
  * Data sources:
  * - With Zod schemas registered: Returns exact schema definition
  * - Without Zod schemas:
- *   - MongoDB: $sample + type detection
+ *   - MongoDB: $sample + type detection (inferFieldsFromSample below)
  *   - SQL: information_schema.columns
  *   - Elasticsearch: GET /{index}/_mapping
  *
- * NOTE: This module is integrated directly into strictdb.ts describe() method.
- * This file exists as documentation and for any standalone utility needs.
+ * Indexes come from listIndexes, pg_indexes, information_schema.statistics,
+ * sys.indexes, PRAGMA index_list or the ES mapping, and steer exampleFilter
+ * toward fields a query can use an index for.
+ *
+ * NOTE: describe() itself lives in strictdb.ts. This file holds the
+ * standalone pieces it uses.
+ */
+
+import { IMPLICIT_INDEX_FIELDS } from './guardrails.js';
+import { sqlTypeFamily } from './migrate.js';
+import type { Backend } from './types.js';
+
+// ─── MongoDB Sample Inference ────────────────────────────────────────────────
+
+/** Documents MongoDB's describeCollection() samples with $sample */
+export const DESCRIBE_SAMPLE_SIZE = 1000;
+
+/** A string field with at most this many distinct values is reported as an enum */
+const ENUM_MAX_VALUES = 10;
+/** ...once at least this many values were seen, so a handful of documents don't look like an enum */
+const ENUM_MIN_OCCURRENCES = 20;
+/** Subdocuments deeper than this are reported as 'object' without their fields */
+const MAX_DEPTH = 4;
+
+interface PathStats {
+  present: number;
+  nulls: number;
+  types: Set<string>;
+  strings: Set<string> | null;
+  stringCount: number;
+}
+
+/**
+ * Infer fields from sampled documents. Subdocument fields are listed with
+ * dot paths after their parent. A field is required when every sampled
+ * document has a non-null value; several value types are joined with '|'
+ * (e.g. 'number|string'); a string field with few distinct values gets enum.
+ */
+export function inferFieldsFromSample(
+  docs: Array<Record<string, unknown>>,
+): Array<{ name: string; type: string; required: boolean; enum?: string[] }> {
+  const paths = new Map<string, PathStats>();
+  for (const doc of docs) {
+    collectPaths(doc, '', 0, paths);
+  }
+
+  return [...paths.entries()].map(([name, stats]) => {
+    const types = [...stats.types].sort();
+    const field: { name: string; type: string; required: boolean; enum?: string[] } = {
+      name,
+      type: types.length === 0 ? 'null' : types.join('|'),
+      required: stats.present === docs.length && stats.nulls === 0,
+    };
+    if (types.length === 1 && types[0] === 'string' && stats.strings && stats.stringCount >= ENUM_MIN_OCCURRENCES) {
+      field.enum = [...stats.strings].sort();
+    }
+    return field;
+  });
+}
+
+function collectPaths(doc: Record<string, unknown>, prefix: string, depth: number, paths: Map<string, PathStats>): void {
+  for (const [key, value] of Object.entries(doc)) {
+    if (value === undefined) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    let stats = paths.get(path);
+    if (!stats) {
+      stats = { present: 0, nulls: 0, types: new Set(), strings: new Set(), stringCount: 0 };
+      paths.set(path, stats);
+    }
+
+    stats.present++;
+    const type = valueType(value);
+    if (type === 'null') {
+      stats.nulls++;
+      continue;
+    }
+    stats.types.add(type);
+
+    if (type === 'string') {
+      stats.stringCount++;
+      if (stats.strings) {
+        stats.strings.add(value as string);
+        if (stats.strings.size > ENUM_MAX_VALUES) stats.strings = null;
+      }
+    } else if (type === 'object' && depth < MAX_DEPTH) {
+      collectPaths(value as Record<string, unknown>, path, depth + 1, paths);
+    }
+  }
+}
+
+/** BSON-aware type name — driver value classes carry a _bsontype tag */
+function valueType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  switch (typeof value) {
+    case 'string': return 'string';
+    case 'number':
+    case 'bigint': return 'number';
+    case 'boolean': return 'boolean';
+    case 'object': {
+      const bsonType = (value as { _bsontype?: string })._bsontype;
+      if (!bsonType) return 'object';
+      if (['Double', 'Int32', 'Long', 'Decimal128'].includes(bsonType)) return 'number';
+      if (bsonType === 'ObjectId') return 'objectId';
+      return bsonType.charAt(0).toLowerCase() + bsonType.slice(1);
+    }
+    default: return typeof value;
+  }
+}
+
+// ─── Index Introspection ─────────────────────────────────────────────────────
+
+/** One key column of a SQL index, as the per-dialect catalog queries return it */
+export interface SqlIndexColumn {
+  name: string;
+  column_name: string | null;
+  descending: number | boolean;
+  is_unique: number | boolean;
+}
+
+/**
+ * Group per-column catalog rows (ordered by index, then key position) into
+ * index definitions. Indexes with an expression column are left out — they
+ * don't serve a plain filter on the column.
  */
+export function groupIndexColumns(rows: SqlIndexColumn[]): Array<{ fields: Record<string, 1 | -1>; unique?: boolean }> {
+  const grouped = new Map<string, { fields: Record<string, 1 | -1>; unique: boolean; expression: boolean }>();
+  for (const row of rows) {
+    let index = grouped.get(row.name);
+    if (!index) {
+      index = { fields: {}, unique: Boolean(row.is_unique), expression: false };
+      grouped.set(row.name, index);
+    }
+    if (row.column_name === null) index.expression = true;
+    else index.fields[row.column_name] = row.descending ? -1 : 1;
+  }
+
+  return [...grouped.values()]
+    .filter(index => !index.expression)
+    .map(index => ({ fields: index.fields, ...(index.unique ? { unique: true } : {}) }));
+}
+
+/**
+ * Parse a pg_indexes.indexdef, e.g.
+ * CREATE UNIQUE INDEX users_email_idx ON public.users USING btree (email, created_at DESC).
+ * Returns null for non-btree and expression indexes.
+ */
+export function parsePgIndexDef(indexdef: string): { fields: Record<string, 1 | -1>; unique?: boolean } | null {
+  const match = /^CREATE (UNIQUE )?INDEX .+? USING (\w+) \((.+?)\)(?:\s+(?:INCLUDE|NULLS|WITH|TABLESPACE|WHERE)\b.*)?$/s.exec(indexdef);
+  if (!match || match[2] !== 'btree') return null;
+
+  const fields: Record<string, 1 | -1> = {};
+  for (const part of match[3]!.split(',')) {
+    const column = /^\s*("(?:[^"]|"")+"|\w+)(?:\s+(ASC|DESC))?(?:\s+NULLS (?:FIRST|LAST))?\s*$/i.exec(part);
+    if (!column) return null;
+    const name = column[1]!.startsWith('"') ? column[1]!.slice(1, -1).replace(/""/g, '"') : column[1]!;
+    fields[name] = column[2]?.toUpperCase() === 'DESC' ? -1 : 1;
+  }
+  return { fields, ...(match[1] ? { unique: true } : {}) };
+}
+
+/**
+ * Elasticsearch indexes every mapped field on its own — one single-field
+ * entry per searchable property. Objects and index: false fields are skipped.
+ */
+export function elasticIndexedFields(properties: Record<string, Record<string, unknown>>): Array<{ fields: Record<string, 1 | -1> }> {
+  return Object.entries(properties)
+    .filter(([, prop]) => prop['type'] !== undefined && prop['type'] !== 'object' && prop['type'] !== 'nested' && prop['index'] !== false)
+    .map(([name]) => ({ fields: { [name]: 1 as const } }));
+}
+
+// ─── Example Filters ─────────────────────────────────────────────────────────
+
+const ELASTIC_NUMBER_TYPES = ['long', 'integer', 'short', 'byte', 'double', 'float', 'half_float', 'scaled_float', 'unsigned_long'];
+const ELASTIC_STRING_TYPES = ['keyword', 'constant_keyword', 'wildcard', 'text'];
+
+/**
+ * An example filter on the leading fields of the first index that has an
+ * example-able field, so the first query an AI writes can use an index.
+ * Implicit id indexes are skipped; {} when no index fits.
+ */
+export function buildIndexedExampleFilter(
+  fields: Array<{ name: string; type: string; enum?: string[] }>,
+  indexes: Array<{ fields: Record<string, 1 | -1> }>,
+  backend: Backend,
+): Record<string, unknown> {
+  const byName = new Map(fields.map(field => [field.name, field]));
+
+  for (const index of indexes) {
+    const filter: Record<string, unknown> = {};
+    // Only a prefix of a compound index is usable, so stop at the first gap
+    for (const name of Object.keys(index.fields).slice(0, 2)) {
+      const field = byName.get(name);
+      const value = field && !IMPLICIT_INDEX_FIELDS[backend].includes(name) ? exampleValue(field, backend) : undefined;
+      if (value === undefined) break;
+      filter[name] = value;
+    }
+    if (Object.keys(filter).length > 0) return filter;
+  }
+  return {};
+}
+
+function exampleValue(field: { type: string; enum?: string[] }, backend: Backend): unknown {
+  if (field.enum && field.enum.length > 0) return field.enum[0];
+  switch (valueKind(field.type, backend)) {
+    case 'string': return 'example';
+    case 'number': return { $gte: 0 };
+    case 'boolean': return true;
+    default: return undefined;
+  }
+}
 
-export { } // Module declaration — actual implementation in strictdb.ts
+/** Reduce a native column, mapping or sampled type to string/number/boolean */
+function valueKind(type: string, backend: Backend): string {
+  if (backend === 'sql') {
+    const family = sqlTypeFamily(type);
+    return family === 'integer' ? 'number' : family;
+  }
+  if (backend === 'elastic') {
+    if (ELASTIC_NUMBER_TYPES.includes(type)) return 'number';
+    if (ELASTIC_STRING_TYPES.includes(type)) return 'string';
+  }
+  return type;
+}
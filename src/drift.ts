@@ -0,0 +1,139 @@
+/**
+ * StrictDB — Schema Drift Detection
+ *
+ * Pure comparison behind db.checkSchema(): a registered Zod schema against
+ * the columns, mapping or sampled fields the database reports, plus the
+ * registered indexes against the ones that exist.
+ */
+
+import type { z } from 'zod';
+import { IMPLICIT_INDEX_FIELDS } from './guardrails.js';
+import { sqlTypeFamily } from './migrate.js';
+import { generateColumnDefinitions, generateElasticMapping } from './schema.js';
+import type { Backend, IndexDefinition, SchemaDriftReport, SqlDialect } from './types.js';
+
+type LiveField = { name: string; type: string; required: boolean };
+
+export interface DriftInput {
+  collection: string;
+  backend: Backend;
+  dialect: SqlDialect;
+  schema: z.ZodType;
+  /** Registered field info — names, types and whether each is required */
+  fields: Array<{ name: string; type: string; required: boolean }>;
+  /** What the database reports, or null when the collection does not exist */
+  live: LiveField[] | null;
+  indexes: IndexDefinition[];
+  /** Indexes the database reports — undefined when the adapter cannot list them */
+  liveIndexes?: Array<{ fields: Record<string, 1 | -1> }>;
+  /** Fields StrictDB writes itself (timestamps, deleted_at, the tenant field) — never extra, declared or not */
+  managedFields?: string[];
+}
+
+export function buildDriftReport(input: DriftInput): SchemaDriftReport {
+  const { collection, backend, fields, live, indexes } = input;
+  const report: SchemaDriftReport = {
+    collection,
+    backend,
+    exists: live !== null,
+    inSync: false,
+    missingFields: [],
+    extraFields: [],
+    typeMismatches: [],
+    nullabilityMismatches: [],
+    missingIndexes: [],
+  };
+
+  if (!live) {
+    report.missingFields = fields.map(f => f.name);
+    report.missingIndexes = [...indexes];
+    return report;
+  }
+
+  const expectedTypes = expectedFieldTypes(input);
+  const liveFields = new Map(live.map(f => [f.name, f]));
+
+  for (const field of fields) {
+    const current = liveFields.get(field.name);
+    if (!current) {
+      // Samples only show fields that are set: an optional field may be in none
+      // of them, and an empty MongoDB collection has nothing to sample at all
+      if (backend === 'mongo' && (!field.required || live.length === 0)) continue;
+      report.missingFields.push(field.name);
+      continue;
+    }
+
+    const expected = expectedTypes.get(field.name) ?? field.type;
+    if (!typesMatch(backend, expected, current.type)) {
+      report.typeMismatches.push({ field: field.name, expected, actual: current.type });
+    }
+
+    // Elasticsearch mappings carry no required flag; sampled MongoDB fields
+    // only show that some documents lack a field, not that it may be missing
+    const nullabilityDiffers = backend === 'sql'
+      ? field.required !== current.required
+      : backend === 'mongo' && field.required && !current.required;
+    if (nullabilityDiffers) {
+      report.nullabilityMismatches.push({
+        field: field.name,
+        expected: field.required ? 'required' : 'optional',
+        actual: current.required ? 'required' : 'optional',
+      });
+    }
+  }
+
+  // Dot paths are fields inside sampled MongoDB subdocuments
+  const declared = new Set([...fields.map(f => f.name), ...(input.managedFields ?? [])]);
+  report.extraFields = live
+    .map(f => f.name)
+    .filter(name => !name.includes('.') && !declared.has(name) && !IMPLICIT_INDEX_FIELDS[backend].includes(name));
+
+  if (input.liveIndexes) {
+    const existing = new Set(input.liveIndexes.map(idx => JSON.stringify(idx.fields)));
+    report.missingIndexes = indexes.filter(idx => !existing.has(JSON.stringify(idx.fields)));
+  }
+
+  report.inSync = isInSync(report);
+  return report;
+}
+
+/** True when the collection exists and nothing differs */
+export function isInSync(report: SchemaDriftReport): boolean {
+  return report.exists
+    && report.missingFields.length === 0
+    && report.extraFields.length === 0
+    && report.typeMismatches.length === 0
+    && report.nullabilityMismatches.length === 0
+    && report.missingIndexes.length === 0;
+}
+
+/** One line per kind of difference, for warnings and SCHEMA_MISMATCH messages */
+export function summarizeDrift(report: SchemaDriftReport): string {
+  if (!report.exists) return 'does not exist';
+  const parts: string[] = [];
+  if (report.missingFields.length > 0) parts.push(`missing fields: ${report.missingFields.join(', ')}`);
+  if (report.extraFields.length > 0) parts.push(`extra fields: ${report.extraFields.join(', ')}`);
+  for (const m of report.typeMismatches) parts.push(`${m.field} is ${m.actual}, expected ${m.expected}`);
+  for (const m of report.nullabilityMismatches) parts.push(`${m.field} is ${m.actual}, expected ${m.expected}`);
+  for (const idx of report.missingIndexes) parts.push(`no index on ${JSON.stringify(idx.fields)}`);
+  return parts.join('; ');
+}
+
+/** The type each backend should report for a field — SQL column type, mapping type or BSON-ish name */
+function expectedFieldTypes(input: DriftInput): Map<string, string> {
+  switch (input.backend) {
+    case 'sql':
+      return new Map(generateColumnDefinitions(input.schema, input.dialect).map(c => [c.name, c.type]));
+    case 'elastic': {
+      const properties = generateElasticMapping(input.schema)['properties'] as Record<string, Record<string, unknown>>;
+      return new Map(Object.entries(properties).map(([name, p]) => [name, (p['type'] as string | undefined) ?? 'object']));
+    }
+    case 'mongo':
+      return new Map(input.fields.map(f => [f.name, f.type === 'enum' ? 'string' : f.type]));
+  }
+}
+
+function typesMatch(backend: Backend, expected: string, actual: string): boolean {
+  if (backend === 'sql') return sqlTypeFamily(expected) === sqlTypeFamily(actual);
+  return expected === actual;
+}
@@ -83,6 +83,19 @@ export function mapMongoError(err: unknown, collection?: string, operation?: str
     });
   }
 
+  // DocumentValidationFailure — rejected by the collection's $jsonSchema validator
+  if (code === 121) {
+    return new StrictDBError({
+      code: 'VALIDATION_ERROR',
+      message: `Document failed schema validation in "${collection ?? 'unknown'}".`,
+      fix: `The collection's $jsonSchema validator rejected the write. Call db.describe('${collection ?? 'collection'}') to see the expected fields and types, or check err.originalError.errInfo for the failing rule.`,
+      backend: 'mongo',
+      originalError: err,
+      collection,
+      operation,
+    });
+  }
+
   // Topology closed / connection lost
   if (message.includes('topology was destroyed') || message.includes('TopologyDescription') || message.includes('Server selection timed out')) {
     return new StrictDBError({
@@ -170,6 +183,23 @@ export function mapSqlError(err: unknown, collection?: string, operation?: strin
     });
   }
 
+  // Connection dropped mid-session — pg admin shutdown 57P01, MySQL PROTOCOL_CONNECTION_LOST, MSSQL ECONNCLOSED
+  if (
+    code === 'ECONNRESET' || code === '57P01' || code === 'PROTOCOL_CONNECTION_LOST' || code === 'ECONNCLOSED' ||
+    message.includes('Connection terminated') || message.includes('ECONNRESET')
+  ) {
+    return new StrictDBError({
+      code: 'CONNECTION_LOST',
+      message: `SQL database connection lost.`,
+      fix: `Connection will auto-reconnect. If persistent, check the DATABASE_URL and that the database server is running.`,
+      backend: 'sql',
+      originalError: err,
+      collection,
+      operation,
+      retryable: true,
+    });
+  }
+
   // Connection refused
   if (code === 'ECONNREFUSED' || message.includes('ECONNREFUSED') || message.includes('connect ENOTFOUND')) {
     return new StrictDBError({
@@ -299,6 +329,23 @@ export function mapElasticError(err: unknown, collection?: string, operation?: s
     });
   }
 
+  // Connection dropped / every node marked dead
+  if (
+    e['name'] === 'NoLivingConnectionsError' || message.includes('NoLivingConnectionsError') ||
+    message.includes('ECONNRESET') || message.includes('socket hang up')
+  ) {
+    return new StrictDBError({
+      code: 'CONNECTION_LOST',
+      message: `Elasticsearch connection lost.`,
+      fix: `Connection will auto-reconnect. If persistent, check that the cluster is running and reachable.`,
+      backend: 'elastic',
+      originalError: err,
+      collection,
+      operation,
+      retryable: true,
+    });
+  }
+
   // Connection errors
   if (message.includes('ConnectionError') || message.includes('ECONNREFUSED') || message.includes('connect ENOTFOUND')) {
     return new StrictDBError({
@@ -365,9 +412,10 @@ export function unknownMethodError(methodName: string): StrictDBError {
   const suggestions: Record<string, string> = {
     find: 'db.queryMany(collection, filter)',
     findOne: 'db.queryOne(collection, filter)',
-    findOneAndUpdate: 'db.updateOne(collection, filter, update)',
-    findOneAndDelete: 'db.deleteOne(collection, filter)',
-    aggregate: 'db.queryMany(collection, filter) — StrictDB handles aggregation internally',
+    findById: 'db.getById(collection, id)',
+    findOneAndUpdate: "db.updateOneAndReturn(collection, filter, update, { returnDocument: 'after' })",
+    findOneAndDelete: 'db.deleteOneAndReturn(collection, filter)',
+    aggregate: "db.aggregate(collection, { match, groupBy, metrics: { total: { $sum: 'amount' } } })",
     save: 'db.insertOne(collection, doc) or db.updateOne(collection, filter, update)',
     remove: 'db.deleteOne(collection, filter) or db.deleteMany(collection, filter)',
     create: 'db.insertOne(collection, doc)',
@@ -378,7 +426,7 @@ export function unknownMethodError(methodName: string): StrictDBError {
   const suggestion = suggestions[methodName];
   const fix = suggestion
     ? `Use ${suggestion}.`
-    : `Check the StrictDB API. Available methods: queryOne, queryMany, count, insertOne, insertMany, updateOne, updateMany, deleteOne, deleteMany, batch, describe, validate, explain.`;
+    : `Check the StrictDB API. Available methods: queryOne, queryMany, getById, count, aggregate, insertOne, insertMany, updateOne, updateOneAndReturn, updateMany, deleteOne, deleteOneAndReturn, deleteMany, batch, describe, validate, explain.`;
 
   return new StrictDBError({
     code: 'UNSUPPORTED_OPERATION',
@@ -392,7 +440,7 @@ export function unknownOperatorError(operator: string, collection?: string): Str
   const suggestions: Record<string, string> = {
     $match: 'Use filter syntax: db.queryMany("col", { status: "active" }). $match is a MongoDB aggregation concept — StrictDB handles this internally.',
     $project: 'Use projection in options: db.queryMany("col", filter, { projection: { name: 1 } }).',
-    $group: 'StrictDB does not support aggregation pipelines directly. Use db.queryMany() with filters and process results in application code.',
+    $group: 'Use db.aggregate("col", { groupBy: "region", metrics: { total: { $sum: "amount" } } }) — it compiles to $group, SQL GROUP BY, or an Elasticsearch terms aggregation.',
     $lookup: 'Use db.queryWithLookup() for joins.',
     $sort: 'Use sort in options: db.queryMany("col", filter, { sort: { name: 1 } }).',
     $limit: 'Use limit in options: db.queryMany("col", filter, { limit: 50 }).',
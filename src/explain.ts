@@ -1,12 +1,252 @@
 /**
  * StrictDB Query Explanation — db.explain()
  *
- * Shows the native query that StrictDB would execute.
- * AI uses to verify intent matches execution.
- * Developers use for debugging.
+ * Without options, explain() shows the native query StrictDB would execute.
+ * With { analyze: true } it also asks the database how it runs that query:
+ *   MongoDB:       aggregate(...).explain('executionStats')
+ *   PostgreSQL:    EXPLAIN (ANALYZE, FORMAT JSON)
+ *   MySQL:         EXPLAIN
+ *   SQLite:        EXPLAIN QUERY PLAN
+ *   MSSQL:         SET STATISTICS XML ON
+ *   Elasticsearch: _search with profile: true
  *
- * NOTE: This module is integrated directly into strictdb.ts explain() method.
- * This file exists as documentation and for any standalone utility needs.
+ * Each native plan is reduced to the same ExplainSummary, so an agent can
+ * spot a collection scan before running the query for real.
  */
 
-export { } // Module declaration — actual implementation in strictdb.ts
+import type { ExplainSummary, SqlDialect } from './types.js';
+
+type PlanNode = Record<string, unknown>;
+
+const FULL_SCAN_FIX = 'Add an index on the filtered fields, or narrow the filter.';
+const SORT_FIX = 'Add an index whose key order matches the sort.';
+
+/**
+ * Wrap a SELECT in the dialect's plan statement. Only PostgreSQL and MSSQL
+ * execute the query; MySQL and SQLite return the planner's estimate.
+ */
+export function buildExplainSQL(sql: string, dialect: SqlDialect): string {
+  switch (dialect) {
+    case 'pg':
+      return `EXPLAIN (ANALYZE, FORMAT JSON) ${sql}`;
+    case 'mysql2':
+      return `EXPLAIN ${sql}`;
+    case 'sqlite':
+      return `EXPLAIN QUERY PLAN ${sql}`;
+    case 'mssql':
+      // The XML showplan arrives as an extra result set after the query's rows
+      return `SET STATISTICS XML ON; ${sql}; SET STATISTICS XML OFF;`;
+  }
+}
+
+/** Every node of a plan tree, parents before children */
+function flattenPlan(root: PlanNode | undefined, children: (node: PlanNode) => unknown): PlanNode[] {
+  if (!root) return [];
+  const nested = children(root);
+  const list = Array.isArray(nested) ? nested : nested ? [nested] : [];
+  return [root, ...list.flatMap(child => flattenPlan(child as PlanNode, children))];
+}
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+// ─── MongoDB ─────────────────────────────────────────────────────────────────
+
+/** MongoDB stages that find documents through an index */
+const MONGO_INDEX_STAGES = new Set(['IXSCAN', 'IDHACK', 'EXPRESS_IXSCAN', 'EXPRESS_CLUSTERED_IXSCAN']);
+
+/** Summarize the output of aggregate(...).explain('executionStats') */
+export function summarizeMongoPlan(explain: PlanNode): ExplainSummary {
+  // A pipeline pushed down entirely reports at the top level; otherwise the
+  // find layer sits in a leading $cursor stage and later stages follow it
+  const stages = Array.isArray(explain['stages']) ? explain['stages'] as PlanNode[] : [];
+  const cursor = (stages[0]?.['$cursor'] as PlanNode | undefined) ?? explain;
+  const planner = cursor['queryPlanner'] as PlanNode | undefined;
+  const stats = cursor['executionStats'] as PlanNode | undefined;
+  let winning = planner?.['winningPlan'] as PlanNode | undefined;
+  // The slot-based engine nests the classic tree under queryPlan
+  if (winning?.['queryPlan']) winning = winning['queryPlan'] as PlanNode;
+
+  const nodes = flattenPlan(winning, node => node['inputStage'] ?? node['inputStages']);
+  const indexNode = nodes.find(node => MONGO_INDEX_STAGES.has(String(node['stage'])));
+  const warnings: string[] = [];
+  if (nodes.some(node => node['stage'] === 'COLLSCAN')) {
+    warnings.push(`Collection scan — every document is read. ${FULL_SCAN_FIX}`);
+  }
+  if (nodes.some(node => node['stage'] === 'SORT') || stages.some(stage => '$sort' in stage)) {
+    warnings.push(`In-memory sort. ${SORT_FIX}`);
+  }
+
+  return {
+    usesIndex: indexNode !== undefined,
+    indexName: indexNode ? String(indexNode['indexName'] ?? '_id_') : undefined,
+    docsExamined: toNumber(stats?.['totalDocsExamined']),
+    estimatedRows: toNumber(stats?.['nReturned']),
+    warnings,
+  };
+}
+
+// ─── SQL ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Summarize the rows of buildExplainSQL(). MSSQL passes every result set of
+ * the batch — the showplan XML is the last one.
+ */
+export function summarizeSqlPlan(dialect: SqlDialect, rows: unknown[], resultSets?: unknown[][]): ExplainSummary {
+  switch (dialect) {
+    case 'pg':
+      return summarizePostgresPlan(rows as PlanNode[]);
+    case 'mysql2':
+      return summarizeMysqlPlan(rows as PlanNode[]);
+    case 'sqlite':
+      return summarizeSqlitePlan(rows as PlanNode[]);
+    case 'mssql':
+      return summarizeMssqlPlan(mssqlShowplan(resultSets));
+  }
+}
+
+/** The showplan XML from the last result set of a SET STATISTICS XML batch */
+export function mssqlShowplan(resultSets: unknown[][] | undefined): string {
+  const row = resultSets?.[resultSets.length - 1]?.[0] as PlanNode | undefined;
+  return String(Object.values(row ?? {})[0] ?? '');
+}
+
+const PG_INDEX_NODES = new Set(['Index Scan', 'Index Only Scan', 'Bitmap Index Scan']);
+const PG_SCAN_NODES = new Set(['Seq Scan', 'Index Scan', 'Index Only Scan', 'Bitmap Heap Scan']);
+
+function summarizePostgresPlan(rows: PlanNode[]): ExplainSummary {
+  let output = rows[0]?.['QUERY PLAN'];
+  if (typeof output === 'string') output = JSON.parse(output);
+  const root = (Array.isArray(output) ? output[0] as PlanNode : undefined)?.['Plan'] as PlanNode | undefined;
+  const nodes = flattenPlan(root, node => node['Plans']);
+
+  const indexNode = nodes.find(node => PG_INDEX_NODES.has(String(node['Node Type'])));
+  const warnings: string[] = [];
+  for (const node of nodes) {
+    if (node['Node Type'] === 'Seq Scan') {
+      warnings.push(`Sequential scan on "${String(node['Relation Name'])}" — every row is read. ${FULL_SCAN_FIX}`);
+    }
+    if (node['Node Type'] === 'Sort' && node['Sort Space Type'] === 'Disk') {
+      warnings.push(`Sort spilled to disk. ${SORT_FIX}`);
+    }
+  }
+
+  // Rows each scan read: the ones it returned plus the ones its filter threw away, per loop
+  const scans = nodes.filter(node => PG_SCAN_NODES.has(String(node['Node Type'])) && node['Actual Rows'] !== undefined);
+  const docsExamined = scans.length === 0 ? undefined : scans.reduce((sum, node) =>
+    sum + ((toNumber(node['Actual Rows']) ?? 0) + (toNumber(node['Rows Removed by Filter']) ?? 0)) * (toNumber(node['Actual Loops']) ?? 1), 0);
+
+  return {
+    usesIndex: indexNode !== undefined,
+    indexName: indexNode ? String(indexNode['Index Name']) : undefined,
+    docsExamined,
+    estimatedRows: toNumber(root?.['Plan Rows']),
+    warnings,
+  };
+}
+
+function summarizeMysqlPlan(rows: PlanNode[]): ExplainSummary {
+  const indexRow = rows.find(row => row['key'] !== null && row['key'] !== undefined);
+  const warnings: string[] = [];
+  for (const row of rows) {
+    if (row['type'] === 'ALL') {
+      warnings.push(`Full table scan on "${String(row['table'])}" — every row is read. ${FULL_SCAN_FIX}`);
+    }
+    if (String(row['Extra'] ?? '').includes('Using filesort')) {
+      warnings.push(`Filesort — rows are sorted after they are read. ${SORT_FIX}`);
+    }
+  }
+
+  // rows = rows MySQL expects to examine; filtered = the percentage of those that match
+  const first = rows[0];
+  const examined = toNumber(first?.['rows']);
+  const filtered = toNumber(first?.['filtered']) ?? 100;
+  return {
+    usesIndex: indexRow !== undefined,
+    indexName: indexRow ? String(indexRow['key']) : undefined,
+    estimatedRows: examined === undefined ? undefined : Math.round(examined * filtered / 100),
+    warnings,
+  };
+}
+
+function summarizeSqlitePlan(rows: PlanNode[]): ExplainSummary {
+  let indexName: string | undefined;
+  let usesIndex = false;
+  const warnings: string[] = [];
+  for (const row of rows) {
+    const detail = String(row['detail'] ?? '');
+    const index = detail.match(/USING (?:COVERING )?INDEX (\S+)/);
+    if (index) {
+      usesIndex = true;
+      indexName ??= index[1];
+    } else if (/USING (?:INTEGER )?PRIMARY KEY/.test(detail)) {
+      usesIndex = true;
+    } else if (/^SCAN /.test(detail)) {
+      // "SCAN users" on current SQLite, "SCAN TABLE users" before 3.36
+      const table = detail.replace(/^SCAN (?:TABLE )?/, '');
+      warnings.push(`Full table scan on "${table}" — every row is read. ${FULL_SCAN_FIX}`);
+    }
+    if (detail.startsWith('USE TEMP B-TREE FOR ORDER BY')) {
+      warnings.push(`Temporary sort — rows are sorted after they are read. ${SORT_FIX}`);
+    }
+  }
+  return { usesIndex, indexName, warnings };
+}
+
+/** PhysicalOp and EstimateRows of every <RelOp> in a showplan, in document order */
+function mssqlOperators(xml: string): Array<{ op: string; estimateRows?: number; at: number }> {
+  return [...xml.matchAll(/<RelOp\b[^>]*>/g)].map(match => ({
+    op: match[0].match(/PhysicalOp="([^"]+)"/)?.[1] ?? '',
+    estimateRows: toNumber(match[0].match(/EstimateRows="([^"]+)"/)?.[1]),
+    at: match.index ?? 0,
+  }));
+}
+
+function summarizeMssqlPlan(xml: string): ExplainSummary {
+  const operators = mssqlOperators(xml);
+  const seek = operators.find(o => o.op === 'Index Seek' || o.op === 'Clustered Index Seek' || o.op === 'Index Scan');
+  const warnings: string[] = [];
+  if (operators.some(o => o.op === 'Table Scan' || o.op === 'Clustered Index Scan')) {
+    warnings.push(`Full table scan — every row is read. ${FULL_SCAN_FIX}`);
+  }
+  if (operators.some(o => o.op === 'Sort')) {
+    warnings.push(`Sort operator — rows are sorted after they are read. ${SORT_FIX}`);
+  }
+
+  // ActualRowsRead is reported per thread on SQL Server 2016 SP1 and later
+  const read = [...xml.matchAll(/ActualRowsRead="(\d+)"/g)].map(m => Number(m[1]));
+  return {
+    usesIndex: seek !== undefined,
+    indexName: seek ? xml.slice(seek.at).match(/<Object\b[^>]*Index="\[([^\]]+)\]"/)?.[1] : undefined,
+    docsExamined: read.length > 0 ? read.reduce((a, b) => a + b, 0) : undefined,
+    estimatedRows: operators[0]?.estimateRows,
+    warnings,
+  };
+}
+
+// ─── Elasticsearch ───────────────────────────────────────────────────────────
+
+/** Summarize a _search response run with profile: true */
+export function summarizeElasticProfile(response: PlanNode): ExplainSummary {
+  const shards = ((response['profile'] as PlanNode | undefined)?.['shards'] as PlanNode[] | undefined) ?? [];
+  const queries = shards
+    .flatMap(shard => (shard['searches'] as PlanNode[] | undefined) ?? [])
+    .flatMap(search => (search['query'] as PlanNode[] | undefined) ?? [])
+    .flatMap(root => flattenPlan(root, node => node['children']));
+  const types = new Set(queries.map(node => String(node['type'])));
+
+  const warnings: string[] = [];
+  const matchAll = types.has('MatchAllDocsQuery');
+  if (matchAll) warnings.push(`Matches every document in the index. ${FULL_SCAN_FIX}`);
+  if (types.has('ScriptQuery')) warnings.push('Script query — the script runs against every candidate document.');
+
+  const total = (response['hits'] as PlanNode | undefined)?.['total'];
+  return {
+    // Every other query resolves through the inverted index or doc values
+    usesIndex: queries.length > 0 && !matchAll && !types.has('ScriptQuery'),
+    estimatedRows: toNumber(typeof total === 'object' && total !== null ? (total as PlanNode)['value'] : total),
+    warnings,
+  };
+}
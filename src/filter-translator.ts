@@ -535,6 +535,43 @@ export function translateSortToElastic(sort: Record<string, unknown>): Array<Rec
   return result;
 }
 
+// ─── Elasticsearch Distinct ──────────────────────────────────────────────────
+
+/** terms aggregation over one field, buckets sorted by value */
+export function buildElasticDistinctBody(
+  field: string,
+  filter: Record<string, unknown>,
+  size: number,
+): Record<string, unknown> {
+  return {
+    query: translateToElastic(filter),
+    size: 0,
+    aggs: { values: { terms: { field, size, order: { _key: 'asc' } } } },
+  };
+}
+
+/**
+ * The field a terms aggregation can run on: the field itself, or its keyword
+ * sub-field when it is mapped as text (text fields have no doc values).
+ * Null for a text field without a keyword sub-field.
+ */
+export function elasticTermsField(
+  field: string,
+  properties: Record<string, Record<string, unknown>>,
+): string | null {
+  let mapping: Record<string, unknown> | undefined;
+  let level: Record<string, Record<string, unknown>> | undefined = properties;
+  for (const part of field.split('.')) {
+    mapping = level?.[part];
+    level = mapping?.['properties'] as Record<string, Record<string, unknown>> | undefined;
+  }
+  if (mapping?.['type'] !== 'text') return field;
+
+  const subFields = (mapping['fields'] ?? {}) as Record<string, Record<string, unknown>>;
+  const keyword = Object.entries(subFields).find(([, sub]) => sub['type'] === 'keyword');
+  return keyword ? `${field}.${keyword[0]}` : null;
+}
+
 // ─── Elasticsearch Update Translation (Painless Script) ─────────────────────
 
 export interface PainlessScript {
@@ -606,6 +643,33 @@ export function translateUpdateToElastic(
   };
 }
 
+// ─── Upsert Document ─────────────────────────────────────────────────────────
+
+/**
+ * The document an upsert inserts when nothing matches: the filter's top-level
+ * equality fields plus every $set field. Operator conditions are skipped.
+ */
+export function buildUpsertDocument(
+  filter: Record<string, unknown>,
+  update: UpdateOperators<Record<string, unknown>>,
+): Record<string, unknown> {
+  const doc: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (!key.startsWith('$') && (typeof value !== 'object' || value === null || value instanceof Date)) {
+      doc[key] = value;
+    }
+  }
+
+  if (update.$set) {
+    for (const [key, value] of Object.entries(update.$set)) {
+      doc[key] = value;
+    }
+  }
+
+  return doc;
+}
+
 // ─── SQL Helper Functions ────────────────────────────────────────────────────
 
 export function quoteIdentifier(name: string): string {
@@ -747,6 +811,7 @@ export function buildInsertSQL(
   table: string,
   doc: Record<string, unknown>,
   dialect: SqlDialect = 'pg',
+  returning: string[] = [],
 ): FullSqlQuery {
   const keys = Object.keys(doc);
   const vals = Object.values(doc);
@@ -754,7 +819,7 @@ export function buildInsertSQL(
   const placeholders = keys.map((_, i) => placeholder(dialect, i + 1)).join(', ');
 
   return {
-    sql: `INSERT INTO ${quoteIdentifier(table)} (${columns}) VALUES (${placeholders})`,
+    sql: insertStatement(table, columns, `(${placeholders})`, dialect, returning),
     values: vals,
   };
 }
@@ -763,6 +828,7 @@ export function buildBatchInsertSQL(
   table: string,
   docs: Record<string, unknown>[],
   dialect: SqlDialect = 'pg',
+  returning: string[] = [],
 ): FullSqlQuery {
   if (docs.length === 0) return { sql: '', values: [] };
 
@@ -778,11 +844,25 @@ export function buildBatchInsertSQL(
   });
 
   return {
-    sql: `INSERT INTO ${quoteIdentifier(table)} (${columns}) VALUES ${rowPlaceholders.join(', ')}`,
+    sql: insertStatement(table, columns, rowPlaceholders.join(', '), dialect, returning),
     values: allValues,
   };
 }
 
+/**
+ * INSERT that hands back the `returning` columns of every inserted row —
+ * RETURNING on PostgreSQL/SQLite, OUTPUT INSERTED on MSSQL. MySQL has
+ * neither, so the columns are ignored there.
+ */
+function insertStatement(table: string, columns: string, rows: string, dialect: SqlDialect, returning: string[]): string {
+  const head = `INSERT INTO ${quoteIdentifier(table)} (${columns})`;
+  if (returning.length === 0 || dialect === 'mysql2') return `${head} VALUES ${rows}`;
+  if (dialect === 'mssql') {
+    return `${head} OUTPUT ${returning.map(c => `INSERTED.${quoteIdentifier(c)}`).join(', ')} VALUES ${rows}`;
+  }
+  return `${head} VALUES ${rows} RETURNING ${returning.map(quoteIdentifier).join(', ')}`;
+}
+
 export function buildUpdateSQL(
   table: string,
   filter: Record<string, unknown>,
@@ -815,6 +895,63 @@ export function buildDeleteSQL(
   return { sql, values: where.values };
 }
 
+/**
+ * MSSQL single-row UPDATE that returns the row — atomic without a transaction.
+ * The CTE picks the first match in sort order; OUTPUT returns the old
+ * (DELETED) or new (INSERTED) column values.
+ */
+export function buildMssqlUpdateOutputSQL(
+  table: string,
+  filter: Record<string, unknown>,
+  update: UpdateOperators<Record<string, unknown>>,
+  options: { sort?: Record<string, unknown>; returnDocument?: 'before' | 'after' } = {},
+): FullSqlQuery {
+  const target = buildMssqlTargetCTE(table, filter, options.sort);
+  const updateResult = translateUpdateToSQL(update, 'mssql', target.values.length + 1);
+  const output = options.returnDocument === 'before' ? 'DELETED' : 'INSERTED';
+  return {
+    sql: `${target.sql} UPDATE "target" SET ${updateResult.setClauses} OUTPUT ${output}.*`,
+    values: [...target.values, ...updateResult.values],
+  };
+}
+
+/** MSSQL single-row DELETE that returns the deleted row. */
+export function buildMssqlDeleteOutputSQL(
+  table: string,
+  filter: Record<string, unknown>,
+  options: { sort?: Record<string, unknown> } = {},
+): FullSqlQuery {
+  const target = buildMssqlTargetCTE(table, filter, options.sort);
+  return { sql: `${target.sql} DELETE FROM "target" OUTPUT DELETED.*`, values: target.values };
+}
+
+function buildMssqlTargetCTE(table: string, filter: Record<string, unknown>, sort?: Record<string, unknown>): FullSqlQuery {
+  const select = buildSelectSQL(table, filter, { sort, limit: 1, dialect: 'mssql' });
+  return { sql: `WITH "target" AS (${select.sql})`, values: select.values };
+}
+
+export function buildDistinctSQL(
+  table: string,
+  field: string,
+  filter: Record<string, unknown>,
+  options: { limit?: number; dialect?: SqlDialect } = {},
+): FullSqlQuery {
+  const dialect = options.dialect ?? 'pg';
+  const column = quoteIdentifier(field);
+  const where = translateToSQL(filter, dialect);
+  const top = dialect === 'mssql' && options.limit !== undefined ? ` TOP(${Number(options.limit)})` : '';
+
+  let sql = `SELECT DISTINCT${top} ${column} FROM ${quoteIdentifier(table)}`;
+  if (where.clause !== '1=1') {
+    sql += ` WHERE ${where.clause}`;
+  }
+  sql += ` ORDER BY ${column}`;
+  if (options.limit !== undefined && dialect !== 'mssql') {
+    sql += ` LIMIT ${Number(options.limit)}`;
+  }
+  return { sql, values: where.values };
+}
+
 export function buildCountSQL(
   table: string,
   filter: Record<string, unknown>,
@@ -6,10 +6,19 @@
  * - updateMany with empty filter (modifies all documents)
  * - queryMany without limit (unbounded result set)
  * - deleteOne with empty filter (deletes arbitrary document)
+ *
+ * config.readOnly blocks every write outright.
+ *
+ * config.guardrailPolicy adds declarative limits (forbidden operations,
+ * read-only collections, max limit / $in size / regex length, required
+ * filter fields) and custom rule functions on top of these.
+ *
+ * With config.indexGuard, reads on large collections are also checked
+ * against known indexes and warned about or blocked when they would scan.
  */
 
 import { StrictDBError } from './errors.js';
-import type { Backend } from './types.js';
+import type { Backend, GuardrailCollectionPolicy, GuardrailOperation, GuardrailPolicy, GuardrailRule, GuardrailRuleContext, IndexGuardConfig } from './types.js';
 import type { StrictDBEventEmitter } from './events.js';
 
 export interface GuardrailContext {
@@ -17,6 +26,24 @@ export interface GuardrailContext {
   emitter: StrictDBEventEmitter;
 }
 
+export interface PolicyContext {
+  policy: GuardrailPolicy;
+  /** Policy rules plus any added with db.addGuardrailRule() */
+  rules: GuardrailRule[];
+  emitter: StrictDBEventEmitter;
+}
+
+export interface IndexGuardContext {
+  mode: IndexGuardConfig['mode'];
+  emitter: StrictDBEventEmitter;
+}
+
+/** Collections smaller than this are never index-checked unless indexGuard.minDocuments says otherwise */
+export const DEFAULT_INDEX_GUARD_MIN_DOCUMENTS = 10_000;
+
+/** Fields every backend indexes without a registered index */
+export const IMPLICIT_INDEX_FIELDS: Record<Backend, string[]> = { mongo: ['_id'], sql: ['id'], elastic: [] };
+
 /**
  * Check if an operation is safe to execute.
  * Throws StrictDBError with code GUARDRAIL_BLOCKED if blocked.
@@ -60,6 +87,24 @@ export function checkGuardrails(
       }
       break;
 
+    case 'restore':
+      if (isEmpty && options?.confirm !== 'UPDATE_ALL') {
+        emitAndThrow(ctx, collection, operation,
+          'restore requires a non-empty filter to prevent restoring every deleted document by accident.',
+          `To restore all deleted documents: db.restore('${collection}', {}, { confirm: 'UPDATE_ALL' })`,
+        );
+      }
+      break;
+
+    case 'purge':
+      if (isEmpty && options?.confirm !== 'DELETE_ALL') {
+        emitAndThrow(ctx, collection, operation,
+          'purge requires a non-empty filter to prevent permanently removing every deleted document by accident.',
+          `To purge all deleted documents: db.purge('${collection}', {}, { confirm: 'DELETE_ALL' })`,
+        );
+      }
+      break;
+
     case 'queryMany':
       if (options?.limit === undefined) {
         emitAndThrow(ctx, collection, operation,
@@ -71,6 +116,216 @@ export function checkGuardrails(
   }
 }
 
+const WRITE_OPERATIONS = new Set<GuardrailOperation>(['insertOne', 'insertMany', 'updateOne', 'updateMany', 'deleteOne', 'deleteMany', 'restore', 'purge']);
+
+/**
+ * Block a write on a read-only connection. Applies even with guardrails
+ * disabled — config.readOnly is a permission, not a safety net.
+ */
+export function checkReadOnly(ctx: GuardrailContext, operation: string, collection: string): void {
+  if (!ctx.enabled) return;
+  emitAndThrow(ctx, collection, operation,
+    `${operation} on "${collection}" is blocked — this connection is read-only.`,
+    'Only read through this connection. Writes need a StrictDB instance created without readOnly: true.',
+  );
+}
+
+/**
+ * Enforce the guardrail policy for one operation: the declarative settings
+ * for the collection first, then each rule in order.
+ * Throws StrictDBError with code GUARDRAIL_BLOCKED on the first violation.
+ */
+export function checkPolicy(ctx: PolicyContext, context: GuardrailRuleContext): void {
+  const { operation, collection, filter, limit } = context;
+  const policy = resolveCollectionPolicy(ctx.policy, collection);
+  const block = (reason: string, fix: string) => emitAndThrow({ enabled: true, emitter: ctx.emitter }, collection, operation, reason, fix);
+
+  if (policy.forbid?.includes(operation)) {
+    block(
+      `${operation} is forbidden on "${collection}" by the guardrail policy.`,
+      `Do not call ${operation} on "${collection}". To allow it, remove '${operation}' from guardrailPolicy.collections['${collection}'].forbid.`,
+    );
+  }
+
+  if (policy.readOnly && WRITE_OPERATIONS.has(operation)) {
+    block(
+      `"${collection}" is read-only under the guardrail policy — ${operation} is not allowed.`,
+      `Only read from "${collection}". To allow writes, set guardrailPolicy.collections['${collection}'].readOnly to false.`,
+    );
+  }
+
+  if (policy.maxLimit !== undefined && limit !== undefined && limit > policy.maxLimit) {
+    block(
+      `${operation} asked for ${limit} rows from "${collection}"; the guardrail policy allows at most ${policy.maxLimit}.`,
+      `Use a smaller limit and page through the rest: db.paginate('${collection}', filter, { pageSize: ${policy.maxLimit} })`,
+    );
+  }
+
+  // A lookup by key has no filter to pin the required fields with
+  if (operation === 'getById' && policy.requireFilterFields?.length) {
+    const key = IMPLICIT_INDEX_FIELDS[context.backend][0] ?? '_id';
+    block(
+      `getById on "${collection}" cannot filter on ${policy.requireFilterFields.join(', ')}, which the guardrail policy requires.`,
+      `Use queryOne with the key and the required fields: db.queryOne('${collection}', { ${key}: id, ${policy.requireFilterFields.map(field => `${field}: <value>`).join(', ')} })`,
+    );
+  }
+
+  if (filter) {
+    const missing = (policy.requireFilterFields ?? []).filter(field => !constrainsField(filter, field));
+    if (missing.length > 0) {
+      block(
+        `${operation} on "${collection}" must filter on ${missing.join(', ')}.`,
+        `Add ${missing.map(field => `${field}: <value>`).join(', ')} to the filter, e.g. db.${operation}('${collection}', { ${missing[0]}: ..., ...filter })`,
+      );
+    }
+
+    walkFilter(filter, (field, operator, value) => {
+      if ((operator === '$in' || operator === '$nin') && policy.maxInSize !== undefined
+        && Array.isArray(value) && value.length > policy.maxInSize) {
+        block(
+          `${operator} on "${field}" has ${value.length} values; the guardrail policy allows at most ${policy.maxInSize}.`,
+          `Split the values into chunks of ${policy.maxInSize} and run one ${operation} per chunk.`,
+        );
+      }
+      if (operator === '$regex' && policy.maxRegexLength !== undefined) {
+        const pattern = value instanceof RegExp ? value.source : String(value);
+        if (pattern.length > policy.maxRegexLength) {
+          block(
+            `$regex on "${field}" is ${pattern.length} characters; the guardrail policy allows at most ${policy.maxRegexLength}.`,
+            `Shorten the pattern, or match an exact value instead: { ${field}: 'value' }`,
+          );
+        }
+      }
+    });
+  }
+
+  for (const rule of ctx.rules) {
+    const violation = rule(context);
+    if (violation) block(violation.reason, violation.fix);
+  }
+}
+
+function resolveCollectionPolicy(policy: GuardrailPolicy, collection: string): GuardrailCollectionPolicy {
+  const { collections, rules: _rules, ...defaults } = policy;
+  return { ...defaults, ...collections?.[collection] };
+}
+
+/** True when every document the filter can match has the field pinned by a condition */
+function constrainsField(filter: Record<string, unknown>, field: string): boolean {
+  if (field in filter) return true;
+  const and = (filter['$and'] as Record<string, unknown>[] | undefined) ?? [];
+  if (and.some(branch => constrainsField(branch, field))) return true;
+  const or = (filter['$or'] as Record<string, unknown>[] | undefined) ?? [];
+  return or.length > 0 && or.every(branch => constrainsField(branch, field));
+}
+
+/** Visit every field-level operator in a filter, including inside $and / $or / $nor / $not / $elemMatch */
+function walkFilter(
+  filter: Record<string, unknown>,
+  visit: (field: string, operator: string, value: unknown) => void,
+): void {
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or' || key === '$nor') {
+      for (const branch of (value as Record<string, unknown>[] | undefined) ?? []) walkFilter(branch, visit);
+      continue;
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Date) continue;
+    if (value instanceof RegExp) {
+      visit(key, '$regex', value);
+      continue;
+    }
+    for (const [operator, operand] of Object.entries(value as Record<string, unknown>)) {
+      if (!operator.startsWith('$')) continue;
+      visit(key, operator, operand);
+      if ((operator === '$not' || operator === '$elemMatch') && typeof operand === 'object' && operand !== null) {
+        walkFilter({ [key]: operand }, visit);
+        // $elemMatch on subdocuments: { items: { $elemMatch: { sku: { $in: [...] } } } }
+        if (operator === '$elemMatch') walkFilter(operand as Record<string, unknown>, visit);
+      }
+    }
+  }
+}
+
+/**
+ * Check that an index can serve a read: one of the filter's fields must lead
+ * an index (for $or, every branch needs one), and a sort must follow an
+ * index's key order after its equality-matched fields. Emits
+ * 'guardrail-warning' in warn mode; throws GUARDRAIL_BLOCKED in block mode.
+ */
+export function checkIndexCoverage(
+  ctx: IndexGuardContext,
+  operation: string,
+  collection: string,
+  filter: Record<string, unknown>,
+  sort: Record<string, unknown> | undefined,
+  indexes: Array<Record<string, 1 | -1>>,
+  documentCount?: number,
+): void {
+  const keys = indexes.map(index => Object.keys(index));
+  const filterOk = isFilterIndexed(filter, new Set(keys.map(k => k[0]).filter((k): k is string => k !== undefined)));
+  const sortOk = !sort || Object.keys(sort).length === 0 || isSortIndexed(filter, Object.keys(sort), keys);
+  if (filterOk && sortOk) return;
+
+  const suggested = suggestIndex(filter, sort);
+  const size = documentCount === undefined ? '' : ` (~${documentCount} documents)`;
+  const what = filterOk ? `sort on ${Object.keys(sort ?? {}).join(', ')}` : `filter on ${Object.keys(suggested).join(', ') || 'these fields'}`;
+  const message = `${operation} on "${collection}"${size} has no index for its ${what} — it would scan the whole collection.`;
+  const fix = `Register and create an index: db.registerIndex({ collection: '${collection}', fields: ${formatFields(suggested)} }); await db.ensureIndexes();`;
+
+  if (ctx.mode === 'block') {
+    emitAndThrow({ enabled: true, emitter: ctx.emitter }, collection, operation, message, fix);
+  }
+  ctx.emitter.emit('guardrail-warning', { collection, operation, reason: message, fix });
+}
+
+function isFilterIndexed(filter: Record<string, unknown>, leading: Set<string>): boolean {
+  const fields = Object.keys(filter).filter(key => !key.startsWith('$'));
+  if (fields.length === 0 && !filter['$and'] && !filter['$or']) return true;
+  if (fields.some(field => leading.has(field))) return true;
+
+  const and = (filter['$and'] as Record<string, unknown>[] | undefined) ?? [];
+  if (and.some(branch => isFilterIndexed(branch, leading))) return true;
+  const or = (filter['$or'] as Record<string, unknown>[] | undefined) ?? [];
+  return or.length > 0 && or.every(branch => isFilterIndexed(branch, leading));
+}
+
+function isSortIndexed(filter: Record<string, unknown>, sortFields: string[], indexKeys: string[][]): boolean {
+  const equality = new Set(equalityFields(filter));
+  return indexKeys.some(keys => {
+    let start = 0;
+    while (start < keys.length && equality.has(keys[start]!) && !sortFields.includes(keys[start]!)) start++;
+    return sortFields.every((field, i) => keys[start + i] === field);
+  });
+}
+
+function equalityFields(filter: Record<string, unknown>): string[] {
+  return Object.entries(filter)
+    .filter(([key, value]) => !key.startsWith('$') && (typeof value !== 'object' || value === null || value instanceof Date))
+    .map(([key]) => key);
+}
+
+/** Equality fields, then sort fields, then range fields — the order one compound index serves best */
+function suggestIndex(filter: Record<string, unknown>, sort: Record<string, unknown> | undefined): Record<string, 1 | -1> {
+  const fields: Record<string, 1 | -1> = {};
+  for (const field of equalityFields(filter)) fields[field] = 1;
+  for (const [field, direction] of Object.entries(sort ?? {})) {
+    fields[field] ??= direction === -1 || direction === 'desc' ? -1 : 1;
+  }
+  for (const key of Object.keys(filter)) {
+    if (!key.startsWith('$')) fields[key] ??= 1;
+  }
+  if (Object.keys(fields).length === 0) {
+    const branch = ((filter['$or'] ?? filter['$and']) as Record<string, unknown>[] | undefined)?.[0];
+    if (branch) return suggestIndex(branch, undefined);
+  }
+  return fields;
+}
+
+function formatFields(fields: Record<string, 1 | -1>): string {
+  const entries = Object.entries(fields).map(([field, direction]) => `${field}: ${direction}`);
+  return entries.length === 0 ? '{ field: 1 }' : `{ ${entries.join(', ')} }`;
+}
+
 function isEmptyFilter(filter: Record<string, unknown>): boolean {
   return !filter || Object.keys(filter).length === 0;
 }
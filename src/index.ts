@@ -10,36 +10,70 @@ export { StrictDB } from './strictdb.js';
 // Error class
 export { StrictDBError } from './errors.js';
 
+// Schema registry (share across instances via config.registry)
+export { SchemaRegistry } from './schema.js';
+
 // Types
 export type {
+  AggregateMetric,
+  AggregateSpec,
+  ApplyMigrationOptions,
   Backend,
   BatchOperation,
   CollectionDescription,
   CollectionSchema,
   ConfirmOptions,
   ConnectionStatus,
+  DeleteAndReturnOptions,
   Driver,
+  ExplainOptions,
   ExplainResult,
+  ExplainSummary,
   FilterOperators,
   FilterValue,
+  GetByIdOptions,
+  GuardrailCollectionPolicy,
+  GuardrailOperation,
+  GuardrailPolicy,
+  GuardrailRule,
+  GuardrailRuleContext,
+  GuardrailViolation,
   IndexDefinition,
+  IndexGuardConfig,
   LogicalFilter,
   LookupOptions,
+  MigrateApi,
+  Migration,
+  MigrationAction,
+  MigrationOptions,
+  MigrationPlan,
+  MigrationRecord,
+  MigrationResult,
+  MigrationStep,
   OperationReceipt,
+  Page,
+  PaginateOptions,
   PoolPreset,
+  PoolStats,
   Projection,
   QueryOptions,
   ReconnectConfig,
+  RollbackMigrationOptions,
   SanitizeRule,
+  SchemaDriftReport,
+  SoftDeleteOptions,
   SortDirection,
   SortSpec,
   SqlDialect,
   SqlTranslation,
+  StreamOptions,
   StrictDBConfig,
   StrictDBEvents,
   StrictErrorCode,
   StrictFilter,
+  TenancyConfig,
   TimestampFieldNames,
+  UpdateAndReturnOptions,
   UpdateOperators,
   ValidationResult,
 } from './types.js';
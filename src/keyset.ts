@@ -0,0 +1,164 @@
+/**
+ * StrictDB Keyset Paging — walk a sorted result set without OFFSET
+ *
+ * Each page resumes strictly after the last row of the previous one:
+ *   sort { createdAt: -1 } + tiebreaker id
+ *   → { $or: [ { createdAt: { $lt: v1 } }, { createdAt: v1, id: { $gt: v2 } } ] }
+ *
+ * The filter is plain StrictDB syntax, so every backend's translator handles it
+ * and each page costs the same no matter how deep into the result set it is.
+ * The tiebreaker must be unique, and sort fields should not contain nulls.
+ *
+ * Used by db.stream() for SQL batches and by db.paginate(), whose page
+ * tokens carry the sort keys plus the last row's values.
+ */
+
+import { StrictDBError } from './errors.js';
+import type { Backend } from './types.js';
+
+export type KeysetSort = Array<[field: string, direction: 1 | -1]>;
+
+/** Documents per round trip when db.stream() is not given a batchSize */
+export const DEFAULT_BATCH_SIZE = 1000;
+
+/** Items per page when db.paginate() is not given a pageSize */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** Unique field appended to every keyset sort, per backend */
+export const DEFAULT_TIEBREAKER: Record<Backend, string> = { mongo: '_id', sql: 'id', elastic: 'id' };
+
+/**
+ * Normalize a SortSpec and append the tiebreaker (ascending) unless the
+ * sort already ends in it.
+ */
+export function resolveKeysetSort(sort: Record<string, unknown> | undefined, tiebreaker: string): KeysetSort {
+  const keys: KeysetSort = Object.entries(sort ?? {}).map(([field, dir]) =>
+    [field, dir === -1 || dir === 'desc' ? -1 : 1]);
+  if (!keys.some(([field]) => field === tiebreaker)) keys.push([tiebreaker, 1]);
+  return keys;
+}
+
+/** Convert a resolved sort back to a { field: 1 | -1 } spec for the adapters */
+export function toSortSpec(keys: KeysetSort): Record<string, 1 | -1> {
+  return Object.fromEntries(keys);
+}
+
+/** Read the sort key values of a row, in sort order */
+export function keysetValues(keys: KeysetSort, row: Record<string, unknown>): unknown[] {
+  return keys.map(([field]) => row[field]);
+}
+
+/** Build the filter matching every row that sorts after `values` */
+export function buildKeysetFilter(keys: KeysetSort, values: unknown[]): Record<string, unknown> {
+  const branches = keys.map(([field, direction], i) => {
+    const branch: Record<string, unknown> = {};
+    for (let j = 0; j < i; j++) branch[keys[j]![0]] = values[j];
+    branch[field] = { [direction === 1 ? '$gt' : '$lt']: values[i] };
+    return branch;
+  });
+  return branches.length === 1 ? branches[0]! : { $or: branches };
+}
+
+/** Combine the caller's filter with a keyset filter */
+export function andFilters(filter: Record<string, unknown>, extra: Record<string, unknown>): Record<string, unknown> {
+  return Object.keys(filter).length === 0 ? extra : { $and: [filter, extra] };
+}
+
+/** Parse a SortSpec-shaped record produced by toSortSpec() back into keys */
+export function fromSortSpec(spec: Record<string, 1 | -1>): KeysetSort {
+  return Object.entries(spec);
+}
+
+// ─── Page Cursors ────────────────────────────────────────────────────────────
+
+/**
+ * Encode the sort keys and the last row's values as an opaque, URL-safe token.
+ * Dates and ObjectIds are tagged so they survive the JSON round trip.
+ */
+export function encodeCursor(keys: KeysetSort, values: unknown[]): string {
+  const payload = { s: keys, v: values.map(encodeValue) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a token from encodeCursor(). The token must have been produced with
+ * the same sort — resuming a different ordering would skip or repeat rows.
+ * ObjectIds come back as { $oid } tags for the Mongo adapter to revive.
+ */
+export function decodeCursor(token: string, keys: KeysetSort, backend: Backend): unknown[] {
+  let payload: { s?: unknown; v?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as { s?: unknown; v?: unknown };
+  } catch {
+    throw invalidCursorError(backend, 'The cursor is not a valid page token.');
+  }
+  if (JSON.stringify(payload.s) !== JSON.stringify(keys) || !Array.isArray(payload.v) || payload.v.length !== keys.length) {
+    throw invalidCursorError(backend, 'The cursor was created with a different sort.');
+  }
+  return payload.v.map(value => decodeValue(value, backend));
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  const bson = value as { _bsontype?: string; toHexString?: () => string } | null;
+  if (bson?._bsontype === 'ObjectId' && bson.toHexString) return { $oid: bson.toHexString() };
+  return value;
+}
+
+/**
+ * The token is client-controlled and its values land in the filter after
+ * sanitization — only plain scalars and the two tags are accepted, so a
+ * forged { $ne } or { $regex } cannot slip an operator in.
+ */
+function decodeValue(value: unknown, backend: Backend): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 1) {
+      const [tag, tagged] = entries[0]!;
+      if (tag === '$date' && typeof tagged === 'string' && !Number.isNaN(Date.parse(tagged))) return new Date(tagged);
+      if (tag === '$oid' && typeof tagged === 'string' && /^[0-9a-f]{24}$/i.test(tagged)) return value;
+    }
+  }
+  throw invalidCursorError(backend, 'The cursor contains a value that is not a sort key value.');
+}
+
+/** True for the { $oid: hex } tag decodeCursor() leaves in place of an ObjectId */
+export function isObjectIdTag(value: unknown): value is { $oid: string } {
+  return !!value && typeof value === 'object' && typeof (value as { $oid?: unknown }).$oid === 'string';
+}
+
+function invalidCursorError(backend: Backend, message: string): StrictDBError {
+  return new StrictDBError({
+    code: 'VALIDATION_ERROR',
+    message,
+    fix: 'Pass the nextCursor returned by a previous db.paginate() call with the same sort, or omit "after" to start from the first page.',
+    backend,
+    operation: 'paginate',
+  });
+}
+
+/**
+ * Make sure the projection keeps the sort keys — they are needed to resume.
+ * Returns the fields that were added so they can be stripped again.
+ */
+export function withKeyFields(
+  projection: Record<string, 0 | 1> | undefined,
+  keys: KeysetSort,
+): { projection: Record<string, 0 | 1> | undefined; added: string[] } {
+  if (!projection) return { projection, added: [] };
+  const fields = keys.map(([field]) => field);
+
+  if (Object.values(projection).includes(1)) {
+    const added = fields.filter(field => projection[field] !== 1);
+    if (added.length === 0) return { projection, added };
+    return { projection: { ...projection, ...Object.fromEntries(added.map(f => [f, 1 as const])) }, added };
+  }
+
+  const added = fields.filter(field => projection[field] === 0);
+  if (added.length === 0) return { projection, added };
+  const rest = Object.fromEntries(Object.entries(projection).filter(([field]) => !added.includes(field)));
+  return { projection: Object.keys(rest).length > 0 ? rest : undefined, added };
+}
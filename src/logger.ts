@@ -4,7 +4,7 @@
  * Emits operation events with timing, receipt, and optionally the native query.
  */
 
-import type { OperationReceipt } from './types.js';
+import type { OperationReceipt, SchemaDriftReport } from './types.js';
 import type { StrictDBEventEmitter } from './events.js';
 
 export interface LoggerConfig {
@@ -45,4 +45,11 @@ export class StrictDBLogger {
       });
     }
   }
+  /**
+   * Report a registered schema that differs from the database. Sent whether
+   * or not operation logging is enabled — drift is not per-operation noise.
+   */
+  logSchemaDrift(report: SchemaDriftReport): void {
+    this.emitter.emit('schema-drift', { collection: report.collection, report });
+  }
 }
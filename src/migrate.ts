@@ -0,0 +1,319 @@
+/**
+ * StrictDB — Schema Migrations
+ *
+ * Pure helpers behind db.migrate: diffing a registered schema against the
+ * live table, index mapping or validator, the statements that close the gap,
+ * and checksums for the _strictdb_migrations history.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import { StrictDBError } from './errors.js';
+import { quoteIdentifier } from './filter-translator.js';
+import { IMPLICIT_INDEX_FIELDS } from './guardrails.js';
+import {
+  generateColumnDefinitions,
+  generateCreateTableSQL,
+  generateElasticMapping,
+  generateMongoValidator,
+} from './schema.js';
+import type { Backend, Migration, MigrationStep, SqlDialect } from './types.js';
+
+// ─── History ─────────────────────────────────────────────────────────────────
+
+export const MIGRATIONS_COLLECTION = '_strictdb_migrations';
+
+/** Elasticsearch index names cannot start with an underscore */
+export function migrationsCollection(backend: Backend): string {
+  return backend === 'elastic' ? 'strictdb_migrations' : MIGRATIONS_COLLECTION;
+}
+
+/**
+ * History row id that doubles as the apply()/rollback() lock. The history id
+ * is unique, so only one run can insert it; the row is removed when the run ends.
+ */
+export const MIGRATION_LOCK_ID = 'migrate:lock';
+
+/** How long a run waits for another run's lock (ms), and how often it checks */
+export const DEFAULT_MIGRATION_LOCK_TIMEOUT = 60_000;
+export const MIGRATION_LOCK_POLL_INTERVAL = 250;
+
+export const migrationHistorySchema = z.object({
+  id: z.string().max(255),
+  kind: z.enum(['schema', 'migration', 'lock']),
+  checksum: z.string().max(64),
+  applied_at: z.date(),
+});
+
+/** The history table, keyed on id so a migration or the lock can only be recorded once */
+export function generateMigrationHistorySQL(dialect: SqlDialect): string {
+  const columns = generateColumnDefinitions(migrationHistorySchema, dialect).map(c =>
+    `  ${quoteIdentifier(c.name)} ${c.type}${c.required ? ' NOT NULL' : ''}${c.check}`,
+  );
+  return `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(MIGRATIONS_COLLECTION)} (\n${columns.join(',\n')},\n  PRIMARY KEY (${quoteIdentifier('id')})\n)`;
+}
+
+export function checksum(value: unknown): string {
+  return createHash('sha256').update(typeof value === 'string' ? value : JSON.stringify(value)).digest('hex');
+}
+
+/** Checksum of a migration's code — a change after it was applied shows up as a plan warning */
+export function migrationChecksum(migration: Migration): string {
+  return checksum(`${String(migration.up)}\n${migration.down ? String(migration.down) : ''}`);
+}
+
+/**
+ * Import every .js/.mjs/.cjs file in a directory as a migration, sorted by
+ * file name. The id is the file name without its extension.
+ */
+export async function loadMigrations(dir: string, backend: Backend): Promise<Migration[]> {
+  const files = (await readdir(dir)).filter(file => /\.(m?js|cjs)$/.test(file)).sort();
+  const migrations: Migration[] = [];
+
+  for (const file of files) {
+    const mod = await import(pathToFileURL(join(dir, file)).href) as Partial<Migration> & { default?: Partial<Migration> };
+    const source = mod.default ?? mod;
+    if (typeof source.up !== 'function') {
+      throw new StrictDBError({
+        code: 'VALIDATION_ERROR',
+        message: `Migration file "${file}" does not export an up() function.`,
+        fix: `Export the migration steps: export async function up(db) { ... } and optionally export async function down(db) { ... }`,
+        backend,
+        operation: 'migrate',
+      });
+    }
+    migrations.push({
+      id: source.id ?? file.replace(/\.(m?js|cjs)$/, ''),
+      description: source.description,
+      up: source.up,
+      down: source.down,
+    });
+  }
+
+  return migrations;
+}
+
+// ─── Diffing ─────────────────────────────────────────────────────────────────
+
+export interface MigrationDiff {
+  steps: MigrationStep[];
+  warnings: string[];
+}
+
+/**
+ * Reduce a declared or introspected SQL type to a family, so VARCHAR(255)
+ * matches "character varying" and TIMESTAMPTZ matches "timestamp with time zone".
+ */
+export function sqlTypeFamily(type: string): string {
+  const t = type.toLowerCase().trim();
+  if (t.startsWith('tinyint') || t === 'bit' || t.startsWith('bool')) return 'boolean';
+  if (/^(big|small|medium)?int(eger)?\b/.test(t) || t === 'int') return 'integer';
+  if (/^(double|float|real|numeric|decimal|money)/.test(t)) return 'number';
+  if (/^(timestamp|datetime|date|time)/.test(t)) return 'date';
+  if (t.startsWith('json')) return 'json';
+  if (/char|text|clob|uuid/.test(t)) return 'string';
+  return t;
+}
+
+/**
+ * Compare a schema with a live table's columns. An empty column list means
+ * the table does not exist yet.
+ */
+export function diffSqlTable(
+  collection: string,
+  schema: z.ZodType,
+  live: Array<{ name: string; type: string; required: boolean }>,
+  dialect: SqlDialect,
+): MigrationDiff {
+  if (live.length === 0) {
+    return {
+      steps: [{
+        collection,
+        action: 'createCollection',
+        description: `Create table "${collection}"`,
+        native: generateCreateTableSQL(collection, schema, dialect),
+        destructive: false,
+      }],
+      warnings: [],
+    };
+  }
+
+  const steps: MigrationStep[] = [];
+  const warnings: string[] = [];
+  const liveColumns = new Map(live.map(column => [column.name, column]));
+  const columns = generateColumnDefinitions(schema, dialect);
+
+  for (const column of columns) {
+    const current = liveColumns.get(column.name);
+
+    if (!current) {
+      // Added as nullable so existing rows stay valid
+      const add = dialect === 'mssql' ? 'ADD' : 'ADD COLUMN';
+      steps.push({
+        collection,
+        action: 'addField',
+        field: column.name,
+        description: `Add column "${column.name}" to "${collection}"`,
+        native: `ALTER TABLE ${quoteIdentifier(collection)} ${add} ${quoteIdentifier(column.name)} ${column.type}${column.check}`,
+        destructive: false,
+      });
+      if (column.required) {
+        warnings.push(dialect === 'sqlite'
+          ? `"${collection}"."${column.name}" is added as nullable — SQLite cannot make an existing column NOT NULL.`
+          : `"${collection}"."${column.name}" is added as nullable — backfill it, then apply again to make it NOT NULL.`);
+      }
+      continue;
+    }
+
+    const typeChanged = sqlTypeFamily(current.type) !== sqlTypeFamily(column.type);
+    const nullChanged = current.required !== column.required;
+    if (!typeChanged && !nullChanged) continue;
+
+    if (dialect === 'sqlite') {
+      const change = typeChanged ? `${current.type} → ${column.type}` : column.required ? 'NOT NULL' : 'nullable';
+      warnings.push(`SQLite cannot alter "${collection}"."${column.name}" (${change}) — rebuild the table in a hand-written migration.`);
+      continue;
+    }
+
+    steps.push(...alterColumnSteps(collection, column, current.type, typeChanged, nullChanged, dialect));
+  }
+
+  const declared = new Set(columns.map(column => column.name));
+  for (const column of live) {
+    if (declared.has(column.name) || IMPLICIT_INDEX_FIELDS.sql.includes(column.name)) continue;
+    steps.push({
+      collection,
+      action: 'dropField',
+      field: column.name,
+      description: `Drop column "${column.name}" from "${collection}"`,
+      native: `ALTER TABLE ${quoteIdentifier(collection)} DROP COLUMN ${quoteIdentifier(column.name)}`,
+      destructive: true,
+    });
+  }
+
+  return { steps, warnings };
+}
+
+function alterColumnSteps(
+  collection: string,
+  column: { name: string; type: string; required: boolean },
+  currentType: string,
+  typeChanged: boolean,
+  nullChanged: boolean,
+  dialect: SqlDialect,
+): MigrationStep[] {
+  const field = column.name;
+  const table = quoteIdentifier(collection);
+  const quoted = quoteIdentifier(field);
+  const base = { collection, action: 'alterField' as const, field };
+  const description = typeChanged
+    ? `Change "${collection}"."${field}" from ${currentType} to ${column.type}${nullChanged ? (column.required ? ' NOT NULL' : ' NULL') : ''}`
+    : `Make "${collection}"."${field}" ${column.required ? 'NOT NULL' : 'nullable'}`;
+
+  switch (dialect) {
+    case 'pg': {
+      const steps: MigrationStep[] = [];
+      if (typeChanged) {
+        steps.push({
+          ...base,
+          description: `Change "${collection}"."${field}" from ${currentType} to ${column.type}`,
+          native: `ALTER TABLE ${table} ALTER COLUMN ${quoted} TYPE ${column.type} USING ${quoted}::${column.type}`,
+          destructive: true,
+        });
+      }
+      if (nullChanged) {
+        steps.push({
+          ...base,
+          description: `Make "${collection}"."${field}" ${column.required ? 'NOT NULL' : 'nullable'}`,
+          native: `ALTER TABLE ${table} ALTER COLUMN ${quoted} ${column.required ? 'SET' : 'DROP'} NOT NULL`,
+          destructive: false,
+        });
+      }
+      return steps;
+    }
+    case 'mysql2':
+      return [{
+        ...base,
+        description,
+        native: `ALTER TABLE ${table} MODIFY COLUMN ${quoted} ${column.type}${column.required ? ' NOT NULL' : ''}`,
+        destructive: typeChanged,
+      }];
+    case 'mssql':
+      return [{
+        ...base,
+        description,
+        native: `ALTER TABLE ${table} ALTER COLUMN ${quoted} ${column.type} ${column.required ? 'NOT NULL' : 'NULL'}`,
+        destructive: typeChanged,
+      }];
+    case 'sqlite':
+      return [];
+  }
+}
+
+/**
+ * Compare a schema with a live index mapping — null when the index does not
+ * exist yet. Elasticsearch can only add fields; a changed type needs a reindex.
+ */
+export function diffElasticMapping(
+  collection: string,
+  schema: z.ZodType,
+  live: Array<{ name: string; type: string }> | null,
+): MigrationDiff {
+  const mapping = generateElasticMapping(schema);
+  if (!live) {
+    return {
+      steps: [{ collection, action: 'createCollection', description: `Create index "${collection}"`, native: mapping, destructive: false }],
+      warnings: [],
+    };
+  }
+
+  const warnings: string[] = [];
+  const liveTypes = new Map(live.map(field => [field.name, field.type]));
+  const missing: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(mapping['properties'] as Record<string, Record<string, unknown>>)) {
+    const currentType = liveTypes.get(name);
+    const type = (property['type'] as string | undefined) ?? 'object';
+    if (currentType === undefined) {
+      missing[name] = property;
+    } else if (currentType !== type) {
+      warnings.push(`Elasticsearch cannot change "${collection}"."${name}" from ${currentType} to ${type} — reindex into a new index.`);
+    }
+  }
+
+  const names = Object.keys(missing);
+  if (names.length === 0) return { steps: [], warnings };
+  return {
+    steps: [{
+      collection,
+      action: 'updateMapping',
+      description: `Add ${names.map(name => `"${name}"`).join(', ')} to the "${collection}" mapping`,
+      native: { properties: missing },
+      destructive: false,
+    }],
+    warnings,
+  };
+}
+
+/** Compare a schema with a live collection's validator — exists is false when the collection is missing. */
+export function diffMongoValidator(
+  collection: string,
+  schema: z.ZodType,
+  live: { exists: boolean; validator?: Record<string, unknown> },
+): MigrationDiff {
+  const validator = generateMongoValidator(schema);
+  if (!live.exists) {
+    return {
+      steps: [{ collection, action: 'createCollection', description: `Create collection "${collection}" with a $jsonSchema validator`, native: validator, destructive: false }],
+      warnings: [],
+    };
+  }
+  if (JSON.stringify(live.validator ?? {}) === JSON.stringify(validator)) return { steps: [], warnings: [] };
+  return {
+    steps: [{ collection, action: 'updateValidator', description: `Update the $jsonSchema validator on "${collection}"`, native: validator, destructive: false }],
+    warnings: [],
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * StrictDB Pool Monitor — Periodic pool-status events
+ *
+ * Samples the adapter's pool counters on an interval and emits
+ * 'pool-status' whenever they change.
+ */
+
+import type { Backend, PoolStats } from './types.js';
+import type { StrictDBEventEmitter } from './events.js';
+
+export class PoolMonitor {
+  private intervalMs: number;
+  private emitter: StrictDBEventEmitter;
+  private backend: Backend;
+  private read: () => PoolStats;
+  private last: PoolStats | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    intervalMs: number,
+    emitter: StrictDBEventEmitter,
+    backend: Backend,
+    read: () => PoolStats,
+  ) {
+    this.intervalMs = intervalMs;
+    this.emitter = emitter;
+    this.backend = backend;
+    this.read = read;
+  }
+
+  start(): void {
+    if (this.intervalMs <= 0 || this.timer) return;
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+    // Monitoring must never keep the process alive
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sample the pool once. Emits 'pool-status' if anything changed since the last sample.
+   */
+  check(): void {
+    const stats = this.read();
+    const last = this.last;
+    if (
+      last &&
+      last.active === stats.active &&
+      last.idle === stats.idle &&
+      last.waiting === stats.waiting &&
+      last.max === stats.max
+    ) {
+      return;
+    }
+
+    this.last = { ...stats };
+    this.emitter.emit('pool-status', { ...stats, backend: this.backend });
+  }
+}
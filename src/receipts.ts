@@ -4,7 +4,7 @@
  * Every write returns OperationReceipt. Never void. Never driver-specific.
  */
 
-import type { Backend, OperationReceipt } from './types.js';
+import type { Backend, BatchFailure, OperationReceipt } from './types.js';
 
 export function createReceipt(opts: {
   operation: OperationReceipt['operation'];
@@ -15,9 +15,13 @@ export function createReceipt(opts: {
   modifiedCount?: number;
   insertedCount?: number;
   deletedCount?: number;
+  insertedIds?: unknown[];
+  upsertedId?: unknown;
   success?: boolean;
+  errors?: BatchFailure[];
+  deleteMode?: OperationReceipt['deleteMode'];
 }): OperationReceipt {
-  return {
+  const receipt: OperationReceipt = {
     operation: opts.operation,
     collection: opts.collection,
     success: opts.success ?? true,
@@ -28,4 +32,9 @@ export function createReceipt(opts: {
     duration: Date.now() - opts.startTime,
     backend: opts.backend,
   };
+  if (opts.insertedIds) receipt.insertedIds = opts.insertedIds;
+  if (opts.upsertedId !== undefined) receipt.upsertedId = opts.upsertedId;
+  if (opts.errors) receipt.errors = opts.errors;
+  if (opts.deleteMode) receipt.deleteMode = opts.deleteMode;
+  return receipt;
 }
@@ -6,6 +6,7 @@
 
 import type { Backend, ReconnectConfig } from './types.js';
 import type { StrictDBEventEmitter } from './events.js';
+import { StrictDBError } from './errors.js';
 
 const DEFAULTS: Required<ReconnectConfig> = {
   enabled: true,
@@ -13,6 +14,7 @@ const DEFAULTS: Required<ReconnectConfig> = {
   initialDelayMs: 1000,
   maxDelayMs: 30000,
   backoffMultiplier: 2,
+  queueWhileReconnecting: true,
 };
 
 export class ReconnectManager {
@@ -22,6 +24,8 @@ export class ReconnectManager {
   private attempts = 0;
   private disconnectedAt: Date | null = null;
   private timer: ReturnType<typeof setTimeout> | null = null;
+  private wake: (() => void) | null = null;
+  private pending: Promise<boolean> | null = null;
   private _stopped = false;
 
   constructor(
@@ -52,6 +56,45 @@ export class ReconnectManager {
     return this.disconnectedAt ?? undefined;
   }
 
+  get isReconnecting(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Start the reconnect loop in the background after a connection loss.
+   * Repeated triggers while a loop is running are ignored.
+   */
+  trigger(connectFn: () => Promise<void>): void {
+    if (!this.config.enabled || this._stopped || this.pending) return;
+    this.pending = this.reconnect(connectFn)
+      .catch(() => false)
+      .finally(() => { this.pending = null; });
+  }
+
+  /**
+   * Gate for operations. Resolves immediately when connected. While reconnecting,
+   * either waits for the loop to finish (queueWhileReconnecting) or fails fast.
+   * Throws CONNECTION_LOST if the connection could not be restored.
+   */
+  async ready(): Promise<void> {
+    if (!this.pending) return;
+
+    if (!this.config.queueWhileReconnecting) {
+      throw this.connectionLostError(
+        `${this.backend} connection lost — reconnect in progress (attempt ${this.attempts}/${this.config.maxAttempts}).`,
+        'Retry the operation after the "reconnected" event, or set reconnect.queueWhileReconnecting: true to wait automatically.',
+      );
+    }
+
+    const restored = await this.pending;
+    if (!restored) {
+      throw this.connectionLostError(
+        `${this.backend} connection lost and could not be restored.`,
+        `Check the database server and network connectivity. Max attempts: ${this.config.maxAttempts}.`,
+      );
+    }
+  }
+
   /**
    * Start reconnect loop. Calls connectFn on each attempt.
    * Returns when connected or max attempts exceeded.
@@ -118,6 +161,9 @@ export class ReconnectManager {
       clearTimeout(this.timer);
       this.timer = null;
     }
+    // Release a loop that is sleeping between attempts so it can exit
+    this.wake?.();
+    this.wake = null;
   }
 
   reset(): void {
@@ -136,7 +182,18 @@ export class ReconnectManager {
 
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => {
+      this.wake = resolve;
       this.timer = setTimeout(resolve, ms);
     });
   }
+
+  private connectionLostError(message: string, fix: string): StrictDBError {
+    return new StrictDBError({
+      code: 'CONNECTION_LOST',
+      message,
+      fix,
+      backend: this.backend as Backend,
+      retryable: true,
+    });
+  }
 }
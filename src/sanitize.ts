@@ -13,6 +13,9 @@ import type { Backend, SanitizeRule } from './types.js';
 
 const schemaCache = new Map<string, Set<string>>();
 
+/** Resolves the field whitelist for a collection — undefined skips validation. */
+export type FieldLookup = (collection: string) => Set<string> | undefined;
+
 /**
  * Register known fields for a collection. Used by the filter translator
  * to validate field names in filters and prevent identifier injection.
@@ -40,8 +43,9 @@ export function validateFilterFields(
   collection: string,
   filter: Record<string, unknown>,
   backend: Backend,
+  lookup: FieldLookup = getRegisteredFields,
 ): void {
-  const fields = schemaCache.get(collection);
+  const fields = lookup(collection);
   if (!fields) return; // No schema registered — skip validation
 
   validateFieldsRecursive(collection, filter, fields, backend);
@@ -96,12 +100,13 @@ const ES_INTERNAL_FIELDS = new Set([
 export function validateElasticFields(
   collection: string,
   filter: Record<string, unknown>,
+  lookup: FieldLookup = getRegisteredFields,
 ): void {
   for (const [key, value] of Object.entries(filter)) {
     if (key === '$and' || key === '$or' || key === '$nor') {
       if (Array.isArray(value)) {
         for (const sub of value) {
-          validateElasticFields(collection, sub as Record<string, unknown>);
+          validateElasticFields(collection, sub as Record<string, unknown>, lookup);
         }
       }
       continue;
@@ -109,19 +114,22 @@ export function validateElasticFields(
 
     if (key.startsWith('$')) continue;
 
+    // _id addresses documents by identity, e.g. updateOne('users', { _id }, ...)
+    if (key === '_id') continue;
+
     // Block ES internal fields
     if (ES_INTERNAL_FIELDS.has(key)) {
       throw new StrictDBError({
         code: 'QUERY_ERROR',
         message: `Field "${key}" is an Elasticsearch internal field and cannot be used in queries.`,
-        fix: `Remove "${key}" from your filter. To query by document ID, use a separate lookup method.`,
+        fix: `Remove "${key}" from your filter. To fetch a document by ID, use db.getById(collection, id); to match by ID, filter on _id.`,
         backend: 'elastic',
         collection,
       });
     }
 
     // Validate against registered schema
-    validateFilterFields(collection, { [key]: value }, 'elastic');
+    validateFilterFields(collection, { [key]: value }, 'elastic', lookup);
   }
 }
 
@@ -189,20 +197,45 @@ export function sanitizeFilter(
   collection: string,
   filter: Record<string, unknown>,
   backend: Backend,
+  lookup: FieldLookup = getRegisteredFields,
 ): void {
   switch (backend) {
     case 'mongo':
       // MongoDB sanitization is handled internally by core/db/mongo.ts
       break;
     case 'sql':
-      validateFilterFields(collection, filter, 'sql');
+      validateFilterFields(collection, filter, 'sql', lookup);
       break;
     case 'elastic':
-      validateElasticFields(collection, filter);
+      validateElasticFields(collection, filter, lookup);
       break;
   }
 }
 
+/**
+ * Run the same checks on bare field names — groupBy keys, metric inputs,
+ * distinct fields. Names may not start with $ on any backend.
+ */
+export function sanitizeFields(
+  collection: string,
+  fields: string[],
+  backend: Backend,
+  lookup: FieldLookup = getRegisteredFields,
+): void {
+  for (const field of fields) {
+    if (field.startsWith('$')) {
+      throw new StrictDBError({
+        code: 'QUERY_ERROR',
+        message: `Field name "${field}" cannot start with "$".`,
+        fix: `Pass the plain field name without "$", e.g. "${field.slice(1)}".`,
+        backend,
+        collection,
+      });
+    }
+  }
+  sanitizeFilter(collection, Object.fromEntries(fields.map(field => [field, null])), backend, lookup);
+}
+
 // ─── Custom Sanitize Rules ───────────────────────────────────────────────────
 
 /**
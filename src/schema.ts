@@ -5,52 +5,111 @@
  * - Write validation (parse on every write when schema: true)
  * - SQL DDL generation (CREATE TABLE)
  * - Elasticsearch mapping generation
+ * - MongoDB $jsonSchema validator generation
  * - Field whitelist for sanitization
  */
 
 import type { z } from 'zod';
 import type { CollectionSchema, IndexDefinition, SqlDialect } from './types.js';
+import { quoteIdentifier } from './filter-translator.js';
 import { registerFields } from './sanitize.js';
 
 // ─── Schema Registry ─────────────────────────────────────────────────────────
 
-const schemaRegistry = new Map<string, CollectionSchema>();
-const indexRegistry: IndexDefinition[] = [];
+/**
+ * Registered schemas, indexes and field whitelists.
+ * Each StrictDB instance owns one — pass the same registry to several
+ * instances via config.registry to share registrations between them.
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, CollectionSchema>();
+  private indexes: IndexDefinition[] = [];
+  private fields = new Map<string, Set<string>>();
 
-export function registerCollection<T>(definition: CollectionSchema<T>): void {
-  schemaRegistry.set(definition.name, definition as CollectionSchema);
+  register<T>(definition: CollectionSchema<T>): void {
+    this.schemas.set(definition.name, definition as CollectionSchema);
 
-  // Extract field names for sanitization whitelist
-  const fieldNames = extractFieldNames(definition.schema);
-  registerFields(definition.name, fieldNames);
+    // Extract field names for sanitization whitelist
+    this.fields.set(definition.name, new Set(extractFieldNames(definition.schema)));
 
-  // Register indexes
-  if (definition.indexes) {
-    for (const idx of definition.indexes) {
-      indexRegistry.push(idx);
+    // Register indexes
+    if (definition.indexes) {
+      for (const idx of definition.indexes) {
+        this.indexes.push(idx);
+      }
     }
   }
+
+  registerIndex(definition: IndexDefinition): void {
+    this.indexes.push(definition);
+  }
+
+  getSchema(name: string): CollectionSchema | undefined {
+    return this.schemas.get(name);
+  }
+
+  getCollections(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  getIndexes(collection?: string): IndexDefinition[] {
+    return collection
+      ? this.indexes.filter(i => i.collection === collection)
+      : [...this.indexes];
+  }
+
+  /** Field whitelist for a collection — undefined when no schema is registered. */
+  getFields(collection: string): Set<string> | undefined {
+    return this.fields.get(collection);
+  }
+
+  /**
+   * Validate a document against the registered schema.
+   * Returns null if valid, or a Zod error if invalid.
+   */
+  validate(collection: string, doc: unknown): z.ZodError | null {
+    const schema = this.schemas.get(collection);
+    if (!schema) return null;
+
+    const result = schema.schema.safeParse(doc);
+    if (result.success) return null;
+    return result.error;
+  }
+
+  clear(): void {
+    this.schemas.clear();
+    this.indexes.length = 0;
+    this.fields.clear();
+  }
+}
+
+// Module-level registry for standalone use of the functions below.
+// StrictDB instances never read from it.
+const defaultRegistry = new SchemaRegistry();
+
+export function registerCollection<T>(definition: CollectionSchema<T>): void {
+  defaultRegistry.register(definition);
+  registerFields(definition.name, [...defaultRegistry.getFields(definition.name) ?? []]);
 }
 
 export function getSchema(name: string): CollectionSchema | undefined {
-  return schemaRegistry.get(name);
+  return defaultRegistry.getSchema(name);
 }
 
 export function getRegisteredCollections(): string[] {
-  return [...schemaRegistry.keys()];
+  return defaultRegistry.getCollections();
 }
 
 export function getRegisteredIndexes(): IndexDefinition[] {
-  return [...indexRegistry];
+  return defaultRegistry.getIndexes();
 }
 
 export function registerIndex(definition: IndexDefinition): void {
-  indexRegistry.push(definition);
+  defaultRegistry.registerIndex(definition);
 }
 
 export function clearRegistry(): void {
-  schemaRegistry.clear();
-  indexRegistry.length = 0;
+  defaultRegistry.clear();
 }
 
 /**
@@ -58,26 +117,34 @@ export function clearRegistry(): void {
  * Returns null if valid, or a Zod error if invalid.
  */
 export function validateDocument(collection: string, doc: unknown): z.ZodError | null {
-  const schema = schemaRegistry.get(collection);
-  if (!schema) return null;
-
-  const result = schema.schema.safeParse(doc);
-  if (result.success) return null;
-  return result.error;
+  return defaultRegistry.validate(collection, doc);
 }
 
 // ─── SQL DDL Generation ──────────────────────────────────────────────────────
 
 export function generateCreateTableSQL(name: string, schema: z.ZodType, dialect: SqlDialect = 'pg'): string {
-  const fields = extractFieldsWithTypes(schema);
-  const columns = fields.map(f => {
-    const sqlType = zodTypeToSQL(f.type, f.constraints, dialect);
-    const nullable = f.required ? ' NOT NULL' : '';
-    const check = f.enumValues ? generateCheckConstraint(f.name, f.enumValues, dialect) : '';
-    return `  "${f.name}" ${sqlType}${nullable}${check}`;
+  const columns = generateColumnDefinitions(schema, dialect).map(c => {
+    const nullable = c.required ? ' NOT NULL' : '';
+    return `  ${quoteIdentifier(c.name)} ${c.type}${nullable}${c.check}`;
   });
 
-  return `CREATE TABLE IF NOT EXISTS "${name}" (\n${columns.join(',\n')}\n)`;
+  return `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(name)} (\n${columns.join(',\n')}\n)`;
+}
+
+/**
+ * The column each schema field maps to — SQL type, NOT NULL and the enum
+ * CHECK constraint (with a leading space, empty when there is none).
+ */
+export function generateColumnDefinitions(
+  schema: z.ZodType,
+  dialect: SqlDialect = 'pg',
+): Array<{ name: string; type: string; required: boolean; check: string }> {
+  return extractFieldsWithTypes(schema).map(f => ({
+    name: f.name,
+    type: zodTypeToSQL(f.type, f.constraints, dialect),
+    required: f.required,
+    check: f.enumValues ? generateCheckConstraint(f.name, f.enumValues, dialect) : '',
+  }));
 }
 
 export function generateCreateIndexSQL(
@@ -87,14 +154,14 @@ export function generateCreateIndexSQL(
   const indexName = `idx_${idx.collection}_${Object.keys(idx.fields).join('_')}`;
   const unique = idx.unique ? 'UNIQUE ' : '';
   const columns = Object.entries(idx.fields)
-    .map(([col, dir]) => `"${col}" ${dir === 1 ? 'ASC' : 'DESC'}`)
+    .map(([col, dir]) => `${quoteIdentifier(col)} ${dir === 1 ? 'ASC' : 'DESC'}`)
     .join(', ');
 
-  let sql = `CREATE ${unique}INDEX IF NOT EXISTS "${indexName}" ON "${idx.collection}" (${columns})`;
+  let sql = `CREATE ${unique}INDEX IF NOT EXISTS ${quoteIdentifier(indexName)} ON ${quoteIdentifier(idx.collection)} (${columns})`;
 
   // TTL indexes are MongoDB-specific — skip for SQL
   if (idx.sparse && dialect === 'pg') {
-    sql += ` WHERE ${Object.keys(idx.fields).map(f => `"${f}" IS NOT NULL`).join(' AND ')}`;
+    sql += ` WHERE ${Object.keys(idx.fields).map(f => `${quoteIdentifier(f)} IS NOT NULL`).join(' AND ')}`;
   }
 
   return sql;
@@ -113,6 +180,109 @@ export function generateElasticMapping(schema: z.ZodType): Record<string, unknow
   return { properties };
 }
 
+// ─── MongoDB Validator Generation ────────────────────────────────────────────
+
+/**
+ * A $jsonSchema validator with each field's BSON type and the required
+ * fields. Optional fields also accept null.
+ */
+export function generateMongoValidator(schema: z.ZodType): Record<string, unknown> {
+  const fields = extractFieldsWithTypes(schema);
+  const properties: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const bsonType = zodTypeToBsonType(field.type);
+    if (!bsonType) {
+      properties[field.name] = {};
+      continue;
+    }
+    const property: Record<string, unknown> = { bsonType: field.required ? bsonType : [bsonType, 'null'] };
+    if (field.enumValues) {
+      property['enum'] = field.required ? field.enumValues : [...field.enumValues, null];
+    }
+    Object.assign(property, mongoRangeKeywords(field));
+    properties[field.name] = property;
+  }
+
+  const required = fields.filter(f => f.required).map(f => f.name);
+  return {
+    $jsonSchema: {
+      bsonType: 'object',
+      ...(required.length > 0 ? { required } : {}),
+      properties,
+    },
+  };
+}
+
+/** Zod min/max as $jsonSchema length, item-count or numeric bounds */
+function mongoRangeKeywords(field: FieldInfo): Record<string, unknown> {
+  const { min, max } = field.constraints;
+  const keywords: Record<string, unknown> = {};
+  switch (field.type) {
+    case 'string':
+      if (min !== undefined) keywords['minLength'] = min;
+      if (max !== undefined) keywords['maxLength'] = max;
+      break;
+    case 'array':
+      if (min !== undefined) keywords['minItems'] = min;
+      if (max !== undefined) keywords['maxItems'] = max;
+      break;
+    case 'number':
+      if (min !== undefined) {
+        keywords['minimum'] = min;
+        if (field.constraints['exclusiveMin']) keywords['exclusiveMinimum'] = true;
+      }
+      if (max !== undefined) {
+        keywords['maximum'] = max;
+        if (field.constraints['exclusiveMax']) keywords['exclusiveMaximum'] = true;
+      }
+      break;
+  }
+  return keywords;
+}
+
+/**
+ * createCollection options for a registered MongoDB collection: the
+ * $jsonSchema validator with its validationLevel and validationAction, plus
+ * capped or time-series settings. Time-series collections get no validator —
+ * MongoDB does not accept one on them.
+ */
+export function generateMongoCollectionOptions(definition: CollectionSchema): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+
+  if (definition.timeseries) {
+    const { expireAfterSeconds, ...timeseries } = definition.timeseries;
+    options['timeseries'] = timeseries;
+    if (expireAfterSeconds !== undefined) options['expireAfterSeconds'] = expireAfterSeconds;
+  } else {
+    options['validator'] = generateMongoValidator(definition.schema);
+    options['validationLevel'] = definition.validationLevel ?? 'strict';
+    options['validationAction'] = definition.validationAction ?? 'error';
+  }
+
+  if (definition.capped) {
+    options['capped'] = true;
+    options['size'] = definition.capped.size;
+    if (definition.capped.max !== undefined) options['max'] = definition.capped.max;
+  }
+
+  return options;
+}
+
+function zodTypeToBsonType(type: string): string | undefined {
+  switch (type) {
+    case 'string':
+    case 'enum':
+      return 'string';
+    case 'number': return 'number';
+    case 'boolean': return 'bool';
+    case 'date': return 'date';
+    case 'array': return 'array';
+    case 'object': return 'object';
+    default: return undefined;
+  }
+}
+
 // ─── Type Extraction Helpers ─────────────────────────────────────────────────
 
 interface FieldInfo {
@@ -183,6 +353,9 @@ function analyzeZodType(schema: z.ZodType): Omit<FieldInfo, 'name'> {
       if (check['kind'] === 'max') constraints['max'] = check['value'];
       if (check['kind'] === 'min') constraints['min'] = check['value'];
       if (check['kind'] === 'int') constraints['int'] = true;
+      // z.number().gt()/.lt() — inclusive is only present on number checks
+      if (check['kind'] === 'min' && check['inclusive'] === false) constraints['exclusiveMin'] = true;
+      if (check['kind'] === 'max' && check['inclusive'] === false) constraints['exclusiveMax'] = true;
     }
   }
 
@@ -211,6 +384,10 @@ function analyzeZodType(schema: z.ZodType): Omit<FieldInfo, 'name'> {
     }
 
     case 'ZodArray': {
+      const minLength = def['minLength'] as { value: number } | null;
+      const maxLength = def['maxLength'] as { value: number } | null;
+      if (minLength) constraints['min'] = minLength.value;
+      if (maxLength) constraints['max'] = maxLength.value;
       return { type: 'array', required: true, constraints };
     }
 
@@ -327,11 +504,11 @@ function generateCheckConstraint(field: string, values: string[], dialect: SqlDi
   if (dialect === 'mysql2') {
     // MySQL 8 supports CHECK
     const list = values.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-    return ` CHECK ("${field}" IN (${list}))`;
+    return ` CHECK (${quoteIdentifier(field)} IN (${list}))`;
   }
   // PG, SQLite, MSSQL all support CHECK
   const list = values.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-  return ` CHECK ("${field}" IN (${list}))`;
+  return ` CHECK (${quoteIdentifier(field)} IN (${list}))`;
 }
 
 // ─── ES Mapping Type ─────────────────────────────────────────────────────────
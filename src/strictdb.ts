@@ -14,51 +14,129 @@
  *     → return to caller
  */
 
+import { randomUUID } from 'node:crypto';
 import type {
+  AggregateSpec,
+  ApplyMigrationOptions,
   Backend,
   BatchOperation,
   CollectionDescription,
   CollectionSchema,
   ConfirmOptions,
   ConnectionStatus,
+  DeleteAndReturnOptions,
+  ExplainOptions,
   ExplainResult,
+  GetByIdOptions,
+  GuardrailRule,
+  GuardrailRuleContext,
   IndexDefinition,
   LookupOptions,
+  MigrateApi,
+  Migration,
+  MigrationOptions,
+  MigrationPlan,
+  MigrationRecord,
+  MigrationResult,
+  MigrationStep,
   OperationReceipt,
+  Page,
+  PaginateOptions,
+  Projection,
   QueryOptions,
+  RollbackMigrationOptions,
   SanitizeRule,
+  SchemaDriftReport,
+  SoftDeleteOptions,
+  SortSpec,
+  StreamOptions,
   StrictDBConfig,
   StrictDBEvents,
   StrictFilter,
+  UpdateAndReturnOptions,
   UpdateOperators,
   ValidationResult,
 } from './types.js';
 import { StrictDBError } from './errors.js';
 import { StrictDBEventEmitter } from './events.js';
 import { StrictDBLogger } from './logger.js';
-import { checkGuardrails } from './guardrails.js';
-import { sanitizeFilter, applySanitizeRules } from './sanitize.js';
+import { createReceipt } from './receipts.js';
+import { PoolMonitor } from './pool-monitor.js';
+import { checkGuardrails, checkIndexCoverage, checkPolicy, checkReadOnly, DEFAULT_INDEX_GUARD_MIN_DOCUMENTS, IMPLICIT_INDEX_FIELDS } from './guardrails.js';
+import {
+  aggregateFields,
+  buildAggregateSQL,
+  buildElasticAggregateBody,
+  buildMongoAggregatePipeline,
+  normalizeAggregate,
+} from './aggregate.js';
 import {
-  registerCollection,
-  getSchema,
-  getRegisteredCollections,
-  getRegisteredIndexes,
-  registerIndex,
-  validateDocument,
+  andFilters,
+  buildKeysetFilter,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_TIEBREAKER,
+  encodeCursor,
+  keysetValues,
+  resolveKeysetSort,
+  toSortSpec,
+  withKeyFields,
+} from './keyset.js';
+import { sanitizeFields, sanitizeFilter, applySanitizeRules } from './sanitize.js';
+import type { FieldLookup } from './sanitize.js';
+import {
+  SchemaRegistry,
   generateCreateTableSQL,
   generateCreateIndexSQL,
   generateElasticMapping,
+  generateMongoCollectionOptions,
 } from './schema.js';
-import { createReceipt } from './receipts.js';
-import { translateToElastic, buildSelectSQL } from './filter-translator.js';
-import { resolveTimestampConfig, injectInsertTimestamps, injectUpdateTimestamps } from './timestamps.js';
+import { runBatchOperation, summarizeBatch } from './batch.js';
+import { translateToElastic, translateSortToElastic, buildSelectSQL } from './filter-translator.js';
+import {
+  resolveTimestampConfig,
+  injectInsertTimestamps,
+  injectUpdateTimestamps,
+  buildSoftDeleteUpdate,
+  applySoftDeleteFilter,
+  matchesSoftDelete,
+} from './timestamps.js';
 import type { ResolvedTimestampConfig } from './timestamps.js';
+import {
+  resolveTenancyConfig,
+  isTenantCollection,
+  sameTenant,
+  pinsOtherTenant,
+  scopeFilter,
+  stampTenant,
+  tenantFieldOperator,
+} from './tenancy.js';
+import type { ResolvedTenancyConfig } from './tenancy.js';
+import {
+  checksum,
+  DEFAULT_MIGRATION_LOCK_TIMEOUT,
+  diffElasticMapping,
+  diffMongoValidator,
+  diffSqlTable,
+  generateMigrationHistorySQL,
+  loadMigrations,
+  MIGRATION_LOCK_ID,
+  MIGRATION_LOCK_POLL_INTERVAL,
+  migrationChecksum,
+  migrationHistorySchema,
+  migrationsCollection,
+} from './migrate.js';
+import type { MigrationDiff } from './migrate.js';
+import { buildDriftReport, isInSync, summarizeDrift } from './drift.js';
+import { buildIndexedExampleFilter } from './describe.js';
 import type { DatabaseAdapter } from './adapters/adapter.js';
 import { MongoAdapter } from './adapters/mongo-adapter.js';
 import { SqlAdapter } from './adapters/sql-adapter.js';
 import { ElasticAdapter } from './adapters/elastic-adapter.js';
 
 export class StrictDB {
+  /** Diff registered schemas against the database and apply the changes — see MigrateApi */
+  readonly migrate: MigrateApi;
   private adapter: DatabaseAdapter;
   private emitter: StrictDBEventEmitter;
   private logger: StrictDBLogger;
@@ -66,9 +144,18 @@ export class StrictDB {
   private backend: Backend;
   private schemaValidation: boolean;
   private guardrailsEnabled: boolean;
+  private readOnly: boolean;
   private sanitizeEnabled: boolean;
   private sanitizeRules: SanitizeRule[];
   private timestampConfig: ResolvedTimestampConfig;
+  private tenancy: ResolvedTenancyConfig;
+  /** Set on views returned by forTenant() */
+  private tenantId: unknown;
+  private registry: SchemaRegistry;
+  private fieldLookup: FieldLookup;
+  private poolMonitor: PoolMonitor;
+  private guardrailRules: GuardrailRule[];
+  private indexGuardCache = new Map<string, { indexes: Array<Record<string, 1 | -1>>; documentCount: number; expiresAt: number }>();
 
   private constructor(
     config: StrictDBConfig,
@@ -76,6 +163,7 @@ export class StrictDB {
     emitter: StrictDBEventEmitter,
     logger: StrictDBLogger,
     backend: Backend,
+    registry: SchemaRegistry,
   ) {
     this.config = config;
     this.adapter = adapter;
@@ -84,9 +172,26 @@ export class StrictDB {
     this.backend = backend;
     this.schemaValidation = config.schema ?? false;
     this.guardrailsEnabled = config.guardrails ?? true;
+    this.readOnly = config.readOnly ?? false;
     this.sanitizeEnabled = config.sanitize ?? true;
     this.sanitizeRules = config.sanitizeRules ?? [];
+    this.guardrailRules = [...(config.guardrailPolicy?.rules ?? [])];
     this.timestampConfig = resolveTimestampConfig(config.timestamps);
+    this.tenancy = resolveTenancyConfig(config.tenancy);
+    this.registry = registry;
+    this.fieldLookup = (collection) => registry.getFields(collection);
+    this.poolMonitor = new PoolMonitor(
+      config.poolStatusIntervalMs ?? 5000,
+      emitter,
+      backend,
+      () => this.adapter.status().pool,
+    );
+    this.migrate = {
+      plan: async (options) => (await this.buildMigrationPlan(options)).plan,
+      apply: (options) => this.applyMigrations(options),
+      rollback: (options) => this.rollbackMigrations(options),
+      history: () => this.readMigrationHistory(),
+    };
   }
 
   /**
@@ -119,26 +224,39 @@ export class StrictDB {
 
     await adapter.connect();
 
-    return new StrictDB(config, adapter, emitter, logger, backend);
+    const db = new StrictDB(config, adapter, emitter, logger, backend, config.registry ?? new SchemaRegistry());
+    if (config.schemaCheck) {
+      try {
+        // Listeners can only be added once create() resolves — hand them startup drift on the next tick
+        await db.runSchemaCheck(report => setImmediate(() => logger.logSchemaDrift(report)));
+      } catch (err) {
+        await adapter.close();
+        throw err;
+      }
+    }
+    db.poolMonitor.start();
+    return db;
   }
 
   // ─── Read Operations ───────────────────────────────────────────────────────
 
   async queryOne<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T | null> {
     if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
     }
-    const sanitizedFilter = this.applyRulesToFilter(collection, filter);
+    const sanitizedFilter = this.scopeToTenant('queryOne', collection, this.applyRulesToFilter(collection, filter));
+    this.enforcePolicy({ operation: 'queryOne', collection, filter: sanitizedFilter as Record<string, unknown> });
+    await this.checkIndexGuard('queryOne', collection, sanitizedFilter as Record<string, unknown>, options?.sort);
 
-    const result = await this.adapter.queryOne(collection, sanitizedFilter, options);
+    const result = await this.adapter.queryOne(collection, this.excludeDeleted(collection, sanitizedFilter, options), options);
     return result;
   }
 
   async queryMany<T>(collection: string, filter: StrictFilter<T>, options?: QueryOptions<T>): Promise<T[]> {
     if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
     }
-    const sanitizedFilter = this.applyRulesToFilter(collection, filter);
+    const sanitizedFilter = this.scopeToTenant('queryMany', collection, this.applyRulesToFilter(collection, filter));
 
     if (this.guardrailsEnabled) {
       checkGuardrails(
@@ -149,86 +267,269 @@ export class StrictDB {
         { limit: options?.limit },
       );
     }
+    this.enforcePolicy({ operation: 'queryMany', collection, filter: sanitizedFilter as Record<string, unknown>, limit: options?.limit });
+    await this.checkIndexGuard('queryMany', collection, sanitizedFilter as Record<string, unknown>, options?.sort);
 
-    const result = await this.adapter.queryMany(collection, sanitizedFilter, options);
+    const result = await this.adapter.queryMany(collection, this.excludeDeleted(collection, sanitizedFilter, options), options);
     return result;
   }
 
+  /**
+   * Iterate every matching document without buffering the result set.
+   * Exempt from the queryMany limit guardrail — the next batch is only
+   * fetched once the consumer has worked through the current one.
+   */
+  stream<T>(collection: string, filter: StrictFilter<T>, options?: StreamOptions<T>): AsyncIterable<T> {
+    if (!this.adapter.stream) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: 'db.stream() is not available inside a transaction.',
+        fix: 'Call db.stream() on the main StrictDB instance, outside withTransaction().',
+        backend: this.backend,
+        collection,
+        operation: 'stream',
+      });
+    }
+    if (this.sanitizeEnabled) {
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
+    }
+    const sanitizedFilter = this.scopeToTenant('stream', collection, this.applyRulesToFilter(collection, filter));
+    this.enforcePolicy({ operation: 'stream', collection, filter: sanitizedFilter as Record<string, unknown> });
+
+    return this.guardedStream(collection, sanitizedFilter, options);
+  }
+
+  /** Run the index guard on first iteration, then hand over to the adapter's stream */
+  private async *guardedStream<T>(collection: string, filter: StrictFilter<T>, options?: StreamOptions<T>): AsyncGenerator<T> {
+    await this.checkIndexGuard('stream', collection, filter as Record<string, unknown>, options?.sort);
+    yield* this.adapter.stream!(collection, this.excludeDeleted(collection, filter, options), options);
+  }
+
+  /**
+   * Keyset pagination. Each page resumes after the previous page's last sort
+   * values plus a unique tiebreaker, so deep pages cost the same as the first.
+   */
+  async paginate<T>(collection: string, filter: StrictFilter<T>, options: PaginateOptions<T> = {}): Promise<Page<T>> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new StrictDBError({
+        code: 'VALIDATION_ERROR',
+        message: `pageSize must be a positive integer, received ${pageSize}.`,
+        fix: `Pass a page size: db.paginate('${collection}', filter, { pageSize: 20 })`,
+        backend: this.backend,
+        collection,
+        operation: 'paginate',
+      });
+    }
+    if (this.sanitizeEnabled) {
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
+    }
+    const scopedFilter = this.scopeToTenant('paginate', collection, this.applyRulesToFilter(collection, filter));
+    this.enforcePolicy({ operation: 'paginate', collection, filter: scopedFilter as Record<string, unknown>, limit: pageSize });
+    await this.checkIndexGuard('paginate', collection, scopedFilter as Record<string, unknown>, options.sort);
+    const sanitizedFilter = this.excludeDeleted(collection, scopedFilter, options);
+
+    const keys = resolveKeysetSort(options.sort as Record<string, unknown> | undefined, options.tiebreaker ?? DEFAULT_TIEBREAKER[this.backend]);
+    const after = options.after ? decodeCursor(options.after, keys, this.backend) : undefined;
+    const select = withKeyFields(options.projection as Record<string, 0 | 1> | undefined, keys);
+
+    // One extra row tells us whether another page exists
+    let rows: Array<{ doc: T; sortValues: unknown[] }>;
+    if (this.adapter.queryPage) {
+      rows = await this.adapter.queryPage(collection, sanitizedFilter, {
+        sort: toSortSpec(keys), after, limit: pageSize + 1, projection: select.projection,
+      });
+    } else {
+      const pageFilter = after
+        ? andFilters(sanitizedFilter as Record<string, unknown>, buildKeysetFilter(keys, after)) as StrictFilter<T>
+        : sanitizedFilter;
+      const docs = await this.adapter.queryMany(collection, pageFilter, {
+        sort: toSortSpec(keys) as SortSpec<T>,
+        limit: pageSize + 1,
+        projection: select.projection as Projection<T> | undefined,
+      });
+      rows = docs.map(doc => ({ doc, sortValues: keysetValues(keys, doc as Record<string, unknown>) }));
+    }
+
+    const hasMore = rows.length > pageSize;
+    const page = rows.slice(0, pageSize);
+    const last = page[page.length - 1];
+    const items = page.map(({ doc }) => {
+      if (select.added.length === 0) return doc;
+      const item = { ...(doc as Record<string, unknown>) };
+      for (const field of select.added) delete item[field];
+      return item as T;
+    });
+
+    return {
+      items,
+      nextCursor: hasMore && last ? encodeCursor(keys, last.sortValues) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Grouped metrics — compiled to a $group pipeline, SQL GROUP BY, or an
+   * Elasticsearch terms aggregation. Returns one flat row per group.
+   */
+  async aggregate<R = Record<string, unknown>, T = Record<string, unknown>>(collection: string, spec: AggregateSpec<T>): Promise<R[]> {
+    const agg = normalizeAggregate(spec as AggregateSpec, this.backend);
+    if (this.sanitizeEnabled) {
+      sanitizeFilter(collection, agg.match, this.backend, this.fieldLookup);
+      sanitizeFields(collection, aggregateFields(agg), this.backend, this.fieldLookup);
+    }
+    if (!this.adapter.aggregate) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: `aggregate() is not supported by this ${this.backend} adapter.`,
+        fix: 'Call db.aggregate() on the main StrictDB instance.',
+        backend: this.backend,
+        collection,
+        operation: 'aggregate',
+      });
+    }
+    const match = this.scopeToTenant('aggregate', collection, this.applyRulesToFilter(collection, agg.match));
+    this.enforcePolicy({ operation: 'aggregate', collection, filter: match, limit: spec.limit });
+    await this.checkIndexGuard('aggregate', collection, match);
+
+    return this.adapter.aggregate<R>(collection, { ...(spec as AggregateSpec), match: this.excludeDeleted(collection, match, spec) });
+  }
+
+  /** Distinct values of one field, e.g. for filter dropdowns */
+  async distinct<V = unknown, T = Record<string, unknown>>(
+    collection: string,
+    field: string,
+    filter: StrictFilter<T> = {} as StrictFilter<T>,
+    options?: { limit?: number } & SoftDeleteOptions,
+  ): Promise<V[]> {
+    if (this.sanitizeEnabled) {
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
+      sanitizeFields(collection, [field], this.backend, this.fieldLookup);
+    }
+    if (!this.adapter.distinct) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: `distinct() is not supported by this ${this.backend} adapter.`,
+        fix: 'Call db.distinct() on the main StrictDB instance.',
+        backend: this.backend,
+        collection,
+        operation: 'distinct',
+      });
+    }
+    const sanitizedFilter = this.scopeToTenant('distinct', collection, this.applyRulesToFilter(collection, filter));
+    this.enforcePolicy({ operation: 'distinct', collection, filter: sanitizedFilter as Record<string, unknown>, limit: options?.limit });
+    await this.checkIndexGuard('distinct', collection, sanitizedFilter as Record<string, unknown>);
+
+    const liveFilter = this.excludeDeleted(collection, sanitizedFilter, options);
+    return this.adapter.distinct<V>(collection, field, liveFilter as StrictFilter<unknown>, options);
+  }
+
   async queryWithLookup<T>(collection: string, options: LookupOptions<T>): Promise<T | null> {
     if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, options.match as Record<string, unknown>, this.backend);
+      sanitizeFilter(collection, options.match as Record<string, unknown>, this.backend, this.fieldLookup);
+      if (options.lookup.match) {
+        sanitizeFilter(options.lookup.from, options.lookup.match, this.backend, this.fieldLookup);
+      }
     }
 
+    let scoped = options;
     if (this.sanitizeRules.length > 0) {
       const sanitizedMatch = applySanitizeRules(
         options.match as Record<string, unknown>,
         collection,
         this.sanitizeRules,
       ) as StrictFilter<T>;
-      return this.adapter.queryWithLookup(collection, { ...options, match: sanitizedMatch });
+      scoped = { ...scoped, match: sanitizedMatch };
     }
+    // Both sides of the join are pinned to the tenant
+    scoped = { ...scoped, match: this.scopeToTenant('queryWithLookup', collection, scoped.match) };
+    if (isTenantCollection(this.tenancy, options.lookup.from)) {
+      scoped = { ...scoped, lookup: { ...scoped.lookup, match: this.scopeToTenant('queryWithLookup', options.lookup.from, scoped.lookup.match ?? {}) } };
+    }
+    this.enforcePolicy({ operation: 'queryWithLookup', collection, filter: scoped.match as Record<string, unknown>, limit: options.limit });
 
-    return this.adapter.queryWithLookup(collection, options);
+    // withDeleted / onlyDeleted pick the main documents; joined ones are always live
+    scoped = { ...scoped, match: this.excludeDeleted(collection, scoped.match, options) };
+    if (this.isSoftDelete(options.lookup.from)) {
+      scoped = { ...scoped, lookup: { ...scoped.lookup, match: this.excludeDeleted(options.lookup.from, scoped.lookup.match ?? {}) } };
+    }
+    return this.adapter.queryWithLookup(collection, scoped);
   }
 
-  async count<T>(collection: string, filter?: StrictFilter<T>): Promise<number> {
-    if (filter && this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
+  /**
+   * One document by its primary key: MongoDB _id (24-character hex strings
+   * also match the ObjectId), the SQL primary key (an object for composite
+   * keys) or the Elasticsearch document _id.
+   */
+  async getById<T>(collection: string, id: unknown, options?: GetByIdOptions<T>): Promise<T | null> {
+    if (id === undefined || id === null) {
+      throw new StrictDBError({
+        code: 'QUERY_ERROR',
+        message: `getById() on "${collection}" was called without an id.`,
+        fix: 'Pass the document id, e.g. the value from receipt.insertedIds.',
+        backend: this.backend,
+        collection,
+        operation: 'getById',
+      });
+    }
+    this.enforcePolicy({ operation: 'getById', collection });
+    const tenant = isTenantCollection(this.tenancy, collection);
+    const softDelete = this.isSoftDelete(collection);
+    if (!tenant && !softDelete) {
+      return this.adapter.getById<T>(collection, id, options);
+    }
+    if (tenant) this.requireTenantScope('getById', collection);
+
+    // Fetch by key, then apply the tenant and soft-delete checks a filter would have.
+    // Both fields are fetched even when the projection leaves them out.
+    const checked = [...(tenant ? [this.tenancy.field] : []), ...(softDelete ? [this.timestampConfig.deletedAt] : [])];
+    let projection = options?.projection as Record<string, 0 | 1> | undefined;
+    const inclusive = !!projection && Object.values(projection).includes(1);
+    const hidden = projection ? checked.filter(field => inclusive ? !projection![field] : projection![field] === 0) : [];
+    if (projection && hidden.length > 0) {
+      projection = { ...projection };
+      for (const field of hidden) {
+        if (inclusive) projection[field] = 1;
+        else delete projection[field];
+      }
+      if (Object.keys(projection).length === 0) projection = undefined;
     }
+    const doc = await this.adapter.getById<Record<string, unknown>>(collection, id, { ...options, projection } as GetByIdOptions<Record<string, unknown>>);
+    if (!doc) return null;
+    if (tenant && !sameTenant(doc[this.tenancy.field], this.tenantId)) return null;
+    if (softDelete && !matchesSoftDelete(doc, this.timestampConfig, options)) return null;
+    for (const field of hidden) delete doc[field];
+    return doc as T;
+  }
 
-    return this.adapter.count(collection, filter);
+  async count<T>(collection: string, filter?: StrictFilter<T>, options?: SoftDeleteOptions): Promise<number> {
+    if (filter && this.sanitizeEnabled) {
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
+    }
+    const scopedFilter = filter || isTenantCollection(this.tenancy, collection)
+      ? this.scopeToTenant('count', collection, filter ?? {} as StrictFilter<T>)
+      : undefined;
+    this.enforcePolicy({ operation: 'count', collection, filter: (scopedFilter ?? {}) as Record<string, unknown> });
+    if (scopedFilter) await this.checkIndexGuard('count', collection, scopedFilter as Record<string, unknown>);
+
+    const liveFilter = this.isSoftDelete(collection)
+      ? this.excludeDeleted(collection, scopedFilter ?? {} as StrictFilter<T>, options)
+      : scopedFilter;
+    return this.adapter.count(collection, liveFilter);
   }
 
   // ─── Write Operations ──────────────────────────────────────────────────────
 
   async insertOne<T>(collection: string, doc: T): Promise<OperationReceipt> {
-    if (this.schemaValidation) {
-      const error = validateDocument(collection, doc);
-      if (error) {
-        throw new StrictDBError({
-          code: 'VALIDATION_ERROR',
-          message: `Validation failed for "${collection}": ${error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')}`,
-          fix: `Fix the document to match the registered schema.`,
-          backend: this.backend,
-          collection,
-          operation: 'insertOne',
-        });
-      }
-    }
-
-    let sanitizedDoc = doc as Record<string, unknown>;
-    if (this.sanitizeRules.length > 0) {
-      sanitizedDoc = applySanitizeRules(sanitizedDoc, collection, this.sanitizeRules);
-    }
-    const stamped = injectInsertTimestamps(sanitizedDoc, this.timestampConfig);
-    const receipt = await this.adapter.insertOne(collection, stamped);
+    const prepared = this.prepareInsert(collection, doc, 'insertOne');
+    const receipt = await this.adapter.insertOne(collection, prepared);
     this.logger.logOperation(receipt);
     return receipt;
   }
 
   async insertMany<T>(collection: string, docs: T[]): Promise<OperationReceipt> {
-    if (this.schemaValidation) {
-      for (const doc of docs) {
-        const error = validateDocument(collection, doc);
-        if (error) {
-          throw new StrictDBError({
-            code: 'VALIDATION_ERROR',
-            message: `Validation failed for "${collection}": ${error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')}`,
-            fix: `Fix the documents to match the registered schema.`,
-            backend: this.backend,
-            collection,
-            operation: 'insertMany',
-          });
-        }
-      }
-    }
-
-    let sanitizedDocs = docs as Record<string, unknown>[];
-    if (this.sanitizeRules.length > 0) {
-      sanitizedDocs = sanitizedDocs.map(d => applySanitizeRules(d as Record<string, unknown>, collection, this.sanitizeRules));
-    }
-    const stampedDocs = sanitizedDocs.map(d => injectInsertTimestamps(d, this.timestampConfig));
-    const receipt = await this.adapter.insertMany(collection, stampedDocs);
+    const prepared = docs.map(d => this.prepareInsert(collection, d, 'insertMany'));
+    const receipt = await this.adapter.insertMany(collection, prepared);
     this.logger.logOperation(receipt);
     return receipt;
   }
@@ -238,84 +539,144 @@ export class StrictDB {
     filter: StrictFilter<T>,
     update: UpdateOperators<T>,
     upsert?: boolean,
+    options?: SoftDeleteOptions,
   ): Promise<OperationReceipt> {
-    if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
-    }
-    const sanitizedFilter = this.applyRulesToFilter(collection, filter);
-    const sanitizedUpdate = this.applyRulesToUpdate(collection, update);
-
-    const stampedUpdate = injectUpdateTimestamps(sanitizedUpdate as Record<string, unknown>, this.timestampConfig);
+    const sanitizedFilter = this.prepareWriteFilter('updateOne', collection, filter, undefined, update, options);
+    const stampedUpdate = this.prepareUpdate(collection, update);
     const receipt = await this.adapter.updateOne(collection, sanitizedFilter, stampedUpdate, upsert);
     this.logger.logOperation(receipt);
     return receipt;
   }
 
-  async updateMany<T>(
+  /**
+   * Atomically update one document and return it — claim a job, bump a
+   * counter and read the new value. Returns the document after the update
+   * unless `returnDocument: 'before'`, or null when nothing matched.
+   */
+  async updateOneAndReturn<T>(
     collection: string,
     filter: StrictFilter<T>,
     update: UpdateOperators<T>,
-    options?: ConfirmOptions,
-  ): Promise<OperationReceipt> {
-    if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
-    }
-    const sanitizedFilter = this.applyRulesToFilter(collection, filter);
-    const sanitizedUpdate = this.applyRulesToUpdate(collection, update);
-
-    if (this.guardrailsEnabled) {
-      checkGuardrails(
-        { enabled: true, emitter: this.emitter },
-        'updateMany',
+    options: UpdateAndReturnOptions<T> = {},
+  ): Promise<T | null> {
+    const sanitizedFilter = this.prepareWriteFilter('updateOne', collection, filter, undefined, update, options);
+    const stampedUpdate = this.prepareUpdate(collection, update);
+    if (!this.adapter.updateOneAndReturn) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: `updateOneAndReturn() is not supported by this ${this.backend} adapter.`,
+        fix: 'Call db.updateOneAndReturn() on the main StrictDB instance.',
+        backend: this.backend,
         collection,
-        sanitizedFilter as Record<string, unknown>,
-        { confirm: options?.confirm },
-      );
+        operation: 'updateOneAndReturn',
+      });
     }
+    const startTime = Date.now();
+    const { doc, upserted } = await this.adapter.updateOneAndReturn(collection, sanitizedFilter, stampedUpdate, options);
+    const matched = !upserted && doc !== null ? 1 : 0;
+    this.logger.logOperation(createReceipt({
+      operation: 'updateOne',
+      collection,
+      backend: this.backend,
+      startTime,
+      matchedCount: matched,
+      modifiedCount: matched,
+      insertedCount: upserted ? 1 : 0,
+    }));
+    return doc;
+  }
 
-    const stampedUpdate = injectUpdateTimestamps(sanitizedUpdate as Record<string, unknown>, this.timestampConfig);
+  async updateMany<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    update: UpdateOperators<T>,
+    options?: ConfirmOptions & SoftDeleteOptions,
+  ): Promise<OperationReceipt> {
+    const sanitizedFilter = this.prepareWriteFilter('updateMany', collection, filter, options?.confirm, update, options);
+    const stampedUpdate = this.prepareUpdate(collection, update);
     const receipt = await this.adapter.updateMany(collection, sanitizedFilter, stampedUpdate);
     this.logger.logOperation(receipt);
     return receipt;
   }
 
   async deleteOne<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt> {
-    if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
-    }
-    const sanitizedFilter = this.applyRulesToFilter(collection, filter);
+    const sanitizedFilter = this.prepareWriteFilter('deleteOne', collection, filter);
+    if (this.isSoftDelete(collection)) return this.softDelete('deleteOne', collection, sanitizedFilter);
+    const receipt = { ...await this.adapter.deleteOne(collection, sanitizedFilter, options), deleteMode: 'hard' as const };
+    this.logger.logOperation(receipt);
+    return receipt;
+  }
 
-    if (this.guardrailsEnabled) {
-      checkGuardrails(
-        { enabled: true, emitter: this.emitter },
-        'deleteOne',
+  /** Atomically delete one document and return it, or null when nothing matched */
+  async deleteOneAndReturn<T>(
+    collection: string,
+    filter: StrictFilter<T>,
+    options: DeleteAndReturnOptions<T> = {},
+  ): Promise<T | null> {
+    const sanitizedFilter = this.prepareWriteFilter('deleteOne', collection, filter);
+    const softDelete = this.isSoftDelete(collection);
+    if (softDelete ? !this.adapter.updateOneAndReturn : !this.adapter.deleteOneAndReturn) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: `deleteOneAndReturn() is not supported by this ${this.backend} adapter.`,
+        fix: 'Call db.deleteOneAndReturn() on the main StrictDB instance.',
+        backend: this.backend,
         collection,
-        sanitizedFilter as Record<string, unknown>,
-      );
+        operation: 'deleteOneAndReturn',
+      });
     }
+    const startTime = Date.now();
+    // Soft delete returns the document with its deleted_at set
+    const doc = softDelete
+      ? (await this.adapter.updateOneAndReturn!(
+        collection,
+        this.excludeDeleted(collection, sanitizedFilter),
+        this.prepareUpdate(collection, buildSoftDeleteUpdate(this.timestampConfig) as UpdateOperators<T>),
+        { sort: options.sort },
+      )).doc
+      : await this.adapter.deleteOneAndReturn!(collection, sanitizedFilter, options);
+    this.logger.logOperation(createReceipt({
+      operation: 'deleteOne',
+      collection,
+      backend: this.backend,
+      startTime,
+      deletedCount: doc ? 1 : 0,
+      deleteMode: softDelete ? 'soft' : 'hard',
+    }));
+    return doc;
+  }
 
-    const receipt = await this.adapter.deleteOne(collection, sanitizedFilter, options);
+  async deleteMany<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt> {
+    const sanitizedFilter = this.prepareWriteFilter('deleteMany', collection, filter, options?.confirm);
+    if (this.isSoftDelete(collection)) return this.softDelete('deleteMany', collection, sanitizedFilter);
+    const receipt = { ...await this.adapter.deleteMany(collection, sanitizedFilter, options), deleteMode: 'hard' as const };
     this.logger.logOperation(receipt);
     return receipt;
   }
 
-  async deleteMany<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt> {
-    if (this.sanitizeEnabled) {
-      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend);
-    }
-    const sanitizedFilter = this.applyRulesToFilter(collection, filter);
-
-    if (this.guardrailsEnabled) {
-      checkGuardrails(
-        { enabled: true, emitter: this.emitter },
-        'deleteMany',
-        collection,
-        sanitizedFilter as Record<string, unknown>,
-        { confirm: options?.confirm },
-      );
-    }
+  /**
+   * Undo soft deletes: clear deleted_at on the matching soft-deleted
+   * documents. An empty filter needs { confirm: 'UPDATE_ALL' }.
+   */
+  async restore<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt> {
+    this.requireSoftDelete('restore', collection);
+    const sanitizedFilter = this.prepareWriteFilter('restore', collection, filter, options?.confirm);
+    const update = this.prepareUpdate(collection, { $unset: { [this.timestampConfig.deletedAt]: true } } as UpdateOperators<T>);
+    const deleted = this.excludeDeleted(collection, sanitizedFilter, { onlyDeleted: true });
+    const receipt = await this.adapter.updateMany(collection, deleted, update);
+    this.logger.logOperation(receipt);
+    return receipt;
+  }
 
-    const receipt = await this.adapter.deleteMany(collection, sanitizedFilter, options);
+  /**
+   * Permanently remove soft-deleted documents matching the filter. Live
+   * documents are never touched. An empty filter needs { confirm: 'DELETE_ALL' }.
+   */
+  async purge<T>(collection: string, filter: StrictFilter<T>, options?: ConfirmOptions): Promise<OperationReceipt> {
+    this.requireSoftDelete('purge', collection);
+    const sanitizedFilter = this.prepareWriteFilter('purge', collection, filter, options?.confirm);
+    const deleted = this.excludeDeleted(collection, sanitizedFilter, { onlyDeleted: true });
+    const receipt = { ...await this.adapter.deleteMany(collection, deleted, options), deleteMode: 'hard' as const };
     this.logger.logOperation(receipt);
     return receipt;
   }
@@ -324,58 +685,41 @@ export class StrictDB {
 
   async batch(operations: BatchOperation[]): Promise<OperationReceipt> {
     const startTime = Date.now();
-    let insertedCount = 0;
-    let modifiedCount = 0;
-    let deletedCount = 0;
-
-    for (const op of operations) {
-      let receipt: OperationReceipt;
-      switch (op.operation) {
-        case 'insertOne': {
-          const doc = injectInsertTimestamps(op.doc, this.timestampConfig);
-          receipt = await this.adapter.insertOne(op.collection, doc);
-          insertedCount += receipt.insertedCount;
-          break;
-        }
-        case 'insertMany': {
-          const docs = op.docs.map(d => injectInsertTimestamps(d, this.timestampConfig));
-          receipt = await this.adapter.insertMany(op.collection, docs);
-          insertedCount += receipt.insertedCount;
-          break;
-        }
-        case 'updateOne': {
-          const update = injectUpdateTimestamps(op.update as Record<string, unknown>, this.timestampConfig);
-          receipt = await this.adapter.updateOne(op.collection, op.filter, update, op.upsert);
-          modifiedCount += receipt.modifiedCount;
-          break;
-        }
-        case 'updateMany': {
-          const update = injectUpdateTimestamps(op.update as Record<string, unknown>, this.timestampConfig);
-          receipt = await this.adapter.updateMany(op.collection, op.filter, update);
-          modifiedCount += receipt.modifiedCount;
-          break;
-        }
-        case 'deleteOne':
-          receipt = await this.adapter.deleteOne(op.collection, op.filter);
-          deletedCount += receipt.deletedCount;
-          break;
-        case 'deleteMany':
-          receipt = await this.adapter.deleteMany(op.collection, op.filter);
-          deletedCount += receipt.deletedCount;
-          break;
-      }
-    }
 
-    const batchReceipt = createReceipt({
-      operation: 'batch',
-      collection: 'batch',
-      backend: this.backend,
-      startTime,
-      insertedCount,
-      modifiedCount,
-      deletedCount,
+    // Run every operation through the pipeline before any write — one blocked
+    // or invalid operation rejects the whole batch.
+    const prepared = operations.map((op, index) => {
+      try {
+        return this.prepareBatchOperation(op);
+      } catch (err) {
+        if (!(err instanceof StrictDBError)) throw err;
+        throw new StrictDBError({
+          code: err.code,
+          message: `Batch operation ${index} (${op.operation} on "${op.collection}") was rejected, so no operations were executed. ${err.message.replace(` Fix: ${err.fix}`, '')}`,
+          fix: err.fix,
+          backend: this.backend,
+          collection: op.collection,
+          operation: 'batch',
+          originalError: err,
+        });
+      }
     });
 
+    let batchReceipt: OperationReceipt;
+    if (prepared.length === 0) {
+      batchReceipt = summarizeBatch(this.backend, startTime, []);
+    } else if (this.adapter.batch) {
+      batchReceipt = await this.adapter.batch(prepared);
+    } else {
+      // Transaction-scoped adapter — the enclosing transaction provides atomicity,
+      // so a failure propagates and rolls back with it
+      const receipts: OperationReceipt[] = [];
+      for (const op of prepared) {
+        receipts.push(await runBatchOperation(this.adapter, op));
+      }
+      batchReceipt = summarizeBatch(this.backend, startTime, receipts);
+    }
+
     this.logger.logOperation(batchReceipt);
     return batchReceipt;
   }
@@ -393,27 +737,86 @@ export class StrictDB {
     }
 
     return this.adapter.withTransaction(async (txAdapter) => {
-      const tx = new StrictDB(this.config, txAdapter, this.emitter, this.logger, this.backend);
+      const tx = new StrictDB(this.config, txAdapter, this.emitter, this.logger, this.backend, this.registry);
+      tx.guardrailRules = this.guardrailRules;
+      tx.tenantId = this.tenantId;
       return fn(tx);
     });
   }
 
+  // ─── Tenancy ───────────────────────────────────────────────────────────────
+
+  /**
+   * A view of this database scoped to one tenant. Every filter on a
+   * config.tenancy collection gets the tenant field added, inserts are
+   * stamped with it, and updates cannot change it. The view shares this
+   * instance's connection — closing either closes both.
+   */
+  forTenant(tenantId: unknown): StrictDB {
+    if (!this.tenancy.enabled) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: 'forTenant() needs tenant collections configured.',
+        fix: "Pass tenancy in the config: StrictDB.create({ uri, tenancy: { field: 'tenantId', collections: ['orders', 'invoices'] } })",
+        backend: this.backend,
+        operation: 'forTenant',
+      });
+    }
+    if (tenantId === undefined || tenantId === null || tenantId === '') {
+      throw new StrictDBError({
+        code: 'QUERY_ERROR',
+        message: 'forTenant() was called without a tenant id.',
+        fix: "Pass the tenant id, e.g. db.forTenant(session.tenantId)",
+        backend: this.backend,
+        operation: 'forTenant',
+      });
+    }
+    if (this.tenantId !== undefined) {
+      if (sameTenant(tenantId, this.tenantId)) return this;
+      this.blockTenancy('forTenant', '*',
+        `This view is already scoped to tenant "${String(this.tenantId)}".`,
+        'Call forTenant() on the unscoped StrictDB instance instead.',
+      );
+    }
+
+    const view = new StrictDB(this.config, this.adapter, this.emitter, this.logger, this.backend, this.registry);
+    view.tenantId = tenantId;
+    view.guardrailRules = this.guardrailRules;
+    view.indexGuardCache = this.indexGuardCache;
+    return view;
+  }
+
+  // ─── Guardrails ────────────────────────────────────────────────────────────
+
+  /**
+   * Add a custom guardrail rule. It runs for every operation, after the
+   * declarative guardrailPolicy checks; return { reason, fix } to block.
+   */
+  addGuardrailRule(rule: GuardrailRule): void {
+    this.guardrailRules.push(rule);
+  }
+
   // ─── Schema & Indexes ──────────────────────────────────────────────────────
 
   registerCollection<T>(definition: CollectionSchema<T>): void {
-    registerCollection(definition);
+    this.registry.register(definition);
+    this.indexGuardCache.delete(definition.name);
   }
 
   registerIndex(definition: IndexDefinition): void {
-    registerIndex(definition);
+    this.registry.registerIndex(definition);
+    this.indexGuardCache.delete(definition.collection);
   }
 
   async ensureCollections(options?: { dryRun?: boolean }): Promise<void> {
-    const collections = getRegisteredCollections();
-    const definitions: Array<{ name: string; sql?: string; mapping?: Record<string, unknown> }> = [];
+    const collections = this.registry.getCollections();
+    if (!options?.dryRun && collections.length > 0) {
+      checkReadOnly({ enabled: this.readOnly, emitter: this.emitter }, 'ensureCollections', collections.join(', '));
+    }
+    const definitions: Array<{ name: string; sql?: string; mapping?: Record<string, unknown>; options?: Record<string, unknown> }> = [];
 
     for (const name of collections) {
-      const schema = getSchema(name);
+      const schema = this.registry.getSchema(name);
       if (!schema) continue;
 
       if (this.backend === 'sql') {
@@ -431,16 +834,30 @@ export class StrictDB {
         } else {
           definitions.push({ name, mapping });
         }
+      } else {
+        const collectionOptions = generateMongoCollectionOptions(schema);
+        if (options?.dryRun) {
+          console.log(`[strictdb] Would create collection "${name}" with options:`, JSON.stringify(collectionOptions, null, 2));
+        } else {
+          definitions.push({ name, options: collectionOptions });
+        }
       }
     }
 
     if (!options?.dryRun && definitions.length > 0 && this.adapter.ensureCollections) {
       await this.adapter.ensureCollections(definitions);
     }
+    if (!options?.dryRun) {
+      await this.runSchemaCheck();
+    }
   }
 
   async ensureIndexes(options?: { dryRun?: boolean }): Promise<void> {
-    const indexes = getRegisteredIndexes();
+    const indexes = this.registry.getIndexes();
+    if (!options?.dryRun && indexes.length > 0) {
+      checkReadOnly({ enabled: this.readOnly, emitter: this.emitter }, 'ensureIndexes', [...new Set(indexes.map(idx => idx.collection))].join(', '));
+    }
+    this.indexGuardCache.clear();
 
     if (this.backend === 'sql') {
       const dialect = detectSqlDialect(this.config.uri);
@@ -449,11 +866,8 @@ export class StrictDB {
         if (options?.dryRun) {
           console.log(`[strictdb] Would create index:\n${sql}`);
         } else if (this.adapter.ensureCollections) {
-          // Use raw SQL execution for index creation
-          const rawAdapter = this.adapter.raw() as { execute?(sql: string): Promise<unknown> };
-          if (rawAdapter.execute) {
-            await rawAdapter.execute(sql);
-          }
+          // DDL runs on this instance's own pool
+          await this.adapter.ensureCollections([{ name: idx.collection, sql }]);
         }
       }
     } else if (this.adapter.ensureIndexes) {
@@ -467,27 +881,394 @@ export class StrictDB {
     }
   }
 
-  // ─── AI-First: Discovery & Validation ──────────────────────────────────────
+  /**
+   * The schemaCheck startup assertion, run by create() and ensureCollections() —
+   * 'warn' reports drift as schema-drift events, 'fail' also throws
+   */
+  private async runSchemaCheck(emit: (report: SchemaDriftReport) => void = report => this.logger.logSchemaDrift(report)): Promise<void> {
+    const mode = this.config.schemaCheck;
+    if (!mode || this.registry.getCollections().length === 0) return;
+
+    // Runs before ensureIndexes() creates the registered indexes, so only field drift counts here
+    const drifted = (await this.checkSchema())
+      .map(report => {
+        const fieldsOnly = { ...report, missingIndexes: [] };
+        return { ...fieldsOnly, inSync: isInSync(fieldsOnly) };
+      })
+      .filter(report => !report.inSync);
+    for (const report of drifted) {
+      emit(report);
+    }
 
-  async describe(collection: string): Promise<CollectionDescription> {
-    const schema = getSchema(collection);
+    if (mode === 'fail' && drifted.length > 0) {
+      throw new StrictDBError({
+        code: 'SCHEMA_MISMATCH',
+        message: `Registered schemas do not match the database: ${drifted.map(r => `"${r.collection}" (${summarizeDrift(r)})`).join('; ')}.`,
+        fix: 'Run db.migrate.plan() to see the changes and db.migrate.apply() to make them, or update the Zod schemas. db.checkSchema() returns the full report.',
+        backend: this.backend,
+        collection: drifted.map(r => r.collection).join(', '),
+        operation: 'checkSchema',
+      });
+    }
+  }
 
-    // If schema is registered, use it
-    if (schema) {
-      const fields = extractFieldInfo(schema);
-      const indexes = getRegisteredIndexes().filter(i => i.collection === collection);
-      const docCount = this.adapter.getDocumentCount
-        ? await this.adapter.getDocumentCount(collection)
-        : 0;
+  // ─── Migrations ────────────────────────────────────────────────────────────
 
-      return {
-        name: collection,
-        backend: this.backend,
-        fields,
-        indexes,
-        documentCount: docCount,
-        exampleFilter: buildExampleFilter(fields),
-      };
+  private async buildMigrationPlan(options?: MigrationOptions): Promise<{ plan: MigrationPlan; pending: Migration[] }> {
+    const { steps, warnings } = await this.diffSchemas(options?.collections);
+    const migrations = await this.resolveMigrations(options);
+    const applied = new Map(
+      (await this.readMigrationHistory()).filter(record => record.kind === 'migration').map(record => [record.id, record]),
+    );
+
+    const pending: Migration[] = [];
+    for (const migration of migrations) {
+      const record = applied.get(migration.id);
+      if (!record) {
+        pending.push(migration);
+      } else if (record.checksum !== migrationChecksum(migration)) {
+        warnings.push(`Migration "${migration.id}" changed after it was applied on ${record.appliedAt.toISOString()} — add a new migration instead of editing it.`);
+      }
+    }
+
+    const plan: MigrationPlan = {
+      steps,
+      pending: pending.map(m => (m.description === undefined ? { id: m.id } : { id: m.id, description: m.description })),
+      warnings,
+      checksum: checksum({ steps: steps.map(step => step.native), pending: pending.map(m => m.id) }),
+    };
+    return { plan, pending };
+  }
+
+  /**
+   * Plans again once the lock is held — a run that waited for another one
+   * only applies what that run left pending
+   */
+  private async applyMigrations(options?: ApplyMigrationOptions): Promise<MigrationResult> {
+    const initial = await this.buildMigrationPlan(options);
+    if (initial.plan.steps.length === 0 && initial.pending.length === 0) {
+      return { steps: [], applied: [], warnings: initial.plan.warnings };
+    }
+
+    const history = migrationsCollection(this.backend);
+    const initialCollections = [...new Set(initial.plan.steps.map(step => step.collection))];
+    checkReadOnly({ enabled: this.readOnly, emitter: this.emitter }, 'migrate', initialCollections.join(', ') || history);
+
+    await this.ensureMigrationHistory();
+    const release = await this.acquireMigrationLock(options?.lockTimeout);
+    try {
+      const { plan, pending } = await this.buildMigrationPlan(options);
+      if (plan.steps.length === 0 && pending.length === 0) {
+        return { steps: [], applied: [], warnings: plan.warnings };
+      }
+
+      const destructive = plan.steps.filter(step => step.destructive);
+      if (destructive.length > 0 && !options?.allowDestructive) {
+        const collection = [...new Set(destructive.map(step => step.collection))].join(', ');
+        const reason = `Migration would ${destructive.map(step => step.description.charAt(0).toLowerCase() + step.description.slice(1)).join('; ')} — existing data can be lost.`;
+        this.emitter.emit('guardrail-blocked', { collection, operation: 'migrate', reason });
+        throw new StrictDBError({
+          code: 'GUARDRAIL_BLOCKED',
+          message: reason,
+          fix: 'Review db.migrate.plan(), back up the affected columns, then call db.migrate.apply({ allowDestructive: true }).',
+          backend: this.backend,
+          collection,
+          operation: 'migrate',
+        });
+      }
+
+      const applied: MigrationRecord[] = [];
+
+      // Schema changes first, so hand-written migrations can fill new fields
+      for (const collection of new Set(plan.steps.map(step => step.collection))) {
+        const steps = plan.steps.filter(step => step.collection === collection);
+        for (const step of steps) {
+          await this.runMigrationStep(step);
+        }
+        // The same steps can recur (a table dropped and created again), so the id carries the time
+        applied.push(await this.recordMigration(`schema:${collection}:${new Date().toISOString()}`, 'schema', checksum(steps.map(step => step.native))));
+      }
+      this.indexGuardCache.clear();
+
+      for (const migration of pending) {
+        await migration.up(this);
+        applied.push(await this.recordMigration(migration.id, 'migration', migrationChecksum(migration)));
+      }
+
+      return { steps: plan.steps, applied, warnings: plan.warnings };
+    } finally {
+      await release();
+    }
+  }
+
+  private async rollbackMigrations(options: RollbackMigrationOptions): Promise<MigrationRecord[]> {
+    const steps = options.steps ?? 1;
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new StrictDBError({
+        code: 'VALIDATION_ERROR',
+        message: `steps must be a positive integer, received ${steps}.`,
+        fix: 'Pass how many migrations to roll back: db.migrate.rollback({ migrationsDir, steps: 1 })',
+        backend: this.backend,
+        operation: 'migrate',
+      });
+    }
+
+    const migrations = new Map((await this.resolveMigrations(options)).map(m => [m.id, m]));
+    const lastApplied = async () =>
+      (await this.readMigrationHistory()).filter(record => record.kind === 'migration').slice(-steps).reverse();
+    if ((await lastApplied()).length === 0) return [];
+
+    const history = migrationsCollection(this.backend);
+    checkReadOnly({ enabled: this.readOnly, emitter: this.emitter }, 'migrate', history);
+
+    const release = await this.acquireMigrationLock(options.lockTimeout);
+    try {
+      const targets = await lastApplied();
+
+      // Check every target before running any down()
+      const runs = targets.map(record => {
+        const migration = migrations.get(record.id);
+        if (!migration?.down) {
+          throw new StrictDBError({
+            code: 'UNSUPPORTED_OPERATION',
+            message: migration
+              ? `Migration "${record.id}" has no down() to roll back with.`
+              : `Migration "${record.id}" is in the history but was not passed to rollback().`,
+            fix: migration
+              ? `Add a down(db) function to "${record.id}" that reverses up().`
+              : `Pass the applied migrations with { migrations } or { migrationsDir }.`,
+            backend: this.backend,
+            operation: 'migrate',
+          });
+        }
+        return { record, down: migration.down };
+      });
+
+      for (const { record, down } of runs) {
+        await down(this);
+        await this.adapter.deleteMany(history, { id: record.id });
+      }
+      return targets;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Insert the lock row into the history, waiting while another run holds it.
+   * Returns the function that removes it again.
+   */
+  private async acquireMigrationLock(timeout = DEFAULT_MIGRATION_LOCK_TIMEOUT): Promise<() => Promise<void>> {
+    const history = migrationsCollection(this.backend);
+    const owner = randomUUID();
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      try {
+        await this.adapter.insertOne(history, this.historyDocument(MIGRATION_LOCK_ID, 'lock', owner, new Date()));
+        return async () => {
+          await this.adapter.deleteMany(history, { id: MIGRATION_LOCK_ID, checksum: owner });
+        };
+      } catch (err) {
+        if (!(err instanceof StrictDBError) || err.code !== 'DUPLICATE_KEY') throw err;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new StrictDBError({
+          code: 'TIMEOUT',
+          message: `Another db.migrate run still holds the migration lock in "${history}" after ${timeout}ms.`,
+          fix: `Wait for the other run to finish, or raise { lockTimeout }. If no run is in progress, a crashed one left the lock behind — remove it with db.deleteOne('${history}', { id: '${MIGRATION_LOCK_ID}' }).`,
+          backend: this.backend,
+          collection: history,
+          operation: 'migrate',
+        });
+      }
+      await new Promise(resolve => setTimeout(resolve, MIGRATION_LOCK_POLL_INTERVAL));
+    }
+  }
+
+  private async readMigrationHistory(): Promise<MigrationRecord[]> {
+    const history = migrationsCollection(this.backend);
+    // A missing table fails with a dialect-specific error — check first
+    if (this.backend === 'sql' && this.adapter.describeCollection && (await this.adapter.describeCollection(history)).length === 0) {
+      return [];
+    }
+
+    try {
+      // Streamed in batches — one large page would exceed Elasticsearch's max_result_window
+      const rows: Record<string, unknown>[] = [];
+      if (this.adapter.stream) {
+        for await (const row of this.adapter.stream<Record<string, unknown>>(history, {}, { sort: { applied_at: 1 } })) {
+          rows.push(row);
+        }
+      } else {
+        rows.push(...await this.adapter.queryMany<Record<string, unknown>>(history, {}, { sort: { applied_at: 1 } }));
+      }
+      return rows
+        .filter(row => row['kind'] !== 'lock')
+        .map(row => ({
+          id: String(row['id']),
+          kind: row['kind'] === 'schema' ? 'schema' as const : 'migration' as const,
+          checksum: String(row['checksum']),
+          appliedAt: new Date(row['applied_at'] as string | Date),
+        }))
+        .sort((a, b) => a.appliedAt.getTime() - b.appliedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    } catch (err) {
+      if (err instanceof StrictDBError && err.code === 'COLLECTION_NOT_FOUND') return [];
+      throw err;
+    }
+  }
+
+  private async ensureMigrationHistory(): Promise<void> {
+    const history = migrationsCollection(this.backend);
+    if (!this.adapter.ensureCollections) return;
+    if (this.backend === 'sql') {
+      await this.adapter.ensureCollections([{ name: history, sql: generateMigrationHistorySQL(detectSqlDialect(this.config.uri)) }]);
+    } else if (this.backend === 'elastic') {
+      await this.adapter.ensureCollections([{ name: history, mapping: generateElasticMapping(migrationHistorySchema) }]);
+    }
+  }
+
+  private async recordMigration(id: string, kind: MigrationRecord['kind'], sum: string): Promise<MigrationRecord> {
+    const appliedAt = new Date();
+    await this.adapter.insertOne(migrationsCollection(this.backend), this.historyDocument(id, kind, sum, appliedAt));
+    return { id, kind, checksum: sum, appliedAt };
+  }
+
+  /** MongoDB and Elasticsearch key the row on _id, which keeps each id unique like the SQL primary key */
+  private historyDocument(id: string, kind: MigrationRecord['kind'] | 'lock', sum: string, appliedAt: Date): Record<string, unknown> {
+    const doc = { id, kind, checksum: sum, applied_at: appliedAt };
+    return this.backend === 'sql' ? doc : { _id: id, ...doc };
+  }
+
+  private async resolveMigrations(options?: { migrations?: Migration[]; migrationsDir?: string }): Promise<Migration[]> {
+    const migrations = [
+      ...(options?.migrations ?? []),
+      ...(options?.migrationsDir ? await loadMigrations(options.migrationsDir, this.backend) : []),
+    ].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    const duplicate = migrations.find((m, i) => i > 0 && migrations[i - 1]?.id === m.id);
+    if (duplicate) {
+      throw new StrictDBError({
+        code: 'VALIDATION_ERROR',
+        message: `Two migrations share the id "${duplicate.id}".`,
+        fix: 'Give every migration a unique id — file names double as ids in migrationsDir.',
+        backend: this.backend,
+        operation: 'migrate',
+      });
+    }
+    return migrations;
+  }
+
+  private async diffSchemas(collections?: string[]): Promise<MigrationDiff> {
+    const steps: MigrationStep[] = [];
+    const warnings: string[] = [];
+
+    for (const name of collections ?? this.registry.getCollections()) {
+      const schema = this.registry.getSchema(name);
+      if (!schema) {
+        throw new StrictDBError({
+          code: 'COLLECTION_NOT_FOUND',
+          message: `Cannot migrate "${name}" — no schema is registered for it.`,
+          fix: `Register it first: db.registerCollection({ name: '${name}', schema })`,
+          backend: this.backend,
+          collection: name,
+          operation: 'migrate',
+        });
+      }
+      const diff = await this.diffCollection(name, schema);
+      steps.push(...diff.steps);
+      warnings.push(...diff.warnings);
+    }
+
+    return { steps, warnings };
+  }
+
+  private async diffCollection(name: string, schema: CollectionSchema): Promise<MigrationDiff> {
+    switch (this.backend) {
+      case 'sql': {
+        const live = this.adapter.describeCollection ? await this.adapter.describeCollection(name) : [];
+        return diffSqlTable(name, schema.schema, live, detectSqlDialect(this.config.uri));
+      }
+      case 'elastic': {
+        let live: Array<{ name: string; type: string }> | null = null;
+        try {
+          live = this.adapter.describeCollection ? await this.adapter.describeCollection(name) : null;
+        } catch (err) {
+          if (!(err instanceof StrictDBError && err.code === 'COLLECTION_NOT_FOUND')) throw err;
+        }
+        return diffElasticMapping(name, schema.schema, live);
+      }
+      case 'mongo': {
+        if (!this.adapter.getValidator) return { steps: [], warnings: [] };
+        const live = await this.adapter.getValidator(name);
+        if (!schema.timeseries) return diffMongoValidator(name, schema.schema, live);
+        // Time-series collections take no validator — there is only creating them
+        if (live.exists) return { steps: [], warnings: [] };
+        return {
+          steps: [{ collection: name, action: 'createCollection', description: `Create time-series collection "${name}"`, native: generateMongoCollectionOptions(schema), destructive: false }],
+          warnings: [],
+        };
+      }
+    }
+  }
+
+  private async runMigrationStep(step: MigrationStep): Promise<void> {
+    const { collection, action, native } = step;
+    if (this.backend === 'sql' && this.adapter.ensureCollections) {
+      // DDL runs on this instance's own pool
+      await this.adapter.ensureCollections([{ name: collection, sql: native as string }]);
+      return;
+    }
+    if (this.backend === 'elastic' && action === 'createCollection' && this.adapter.ensureCollections) {
+      await this.adapter.ensureCollections([{ name: collection, mapping: native as Record<string, unknown> }]);
+      return;
+    }
+    if (this.backend === 'elastic' && action === 'updateMapping' && this.adapter.updateMapping) {
+      await this.adapter.updateMapping(collection, native as Record<string, unknown>);
+      return;
+    }
+    const registered = this.registry.getSchema(collection);
+    if (this.backend === 'mongo' && action === 'createCollection' && registered && this.adapter.ensureCollections) {
+      // Created with the registered validation, capped and time-series options
+      await this.adapter.ensureCollections([{ name: collection, options: generateMongoCollectionOptions(registered) }]);
+      return;
+    }
+    if (this.backend === 'mongo' && this.adapter.setValidator) {
+      await this.adapter.setValidator(collection, native as Record<string, unknown>);
+      return;
+    }
+    throw new StrictDBError({
+      code: 'UNSUPPORTED_OPERATION',
+      message: `Cannot ${step.description.charAt(0).toLowerCase() + step.description.slice(1)} on this connection.`,
+      fix: 'Run db.migrate.apply() on the main instance, not inside withTransaction().',
+      backend: this.backend,
+      collection,
+      operation: 'migrate',
+    });
+  }
+
+  // ─── AI-First: Discovery & Validation ──────────────────────────────────────
+
+  async describe(collection: string): Promise<CollectionDescription> {
+    const schema = this.registry.getSchema(collection);
+
+    // If schema is registered, use it
+    if (schema) {
+      const fields = extractFieldInfo(schema);
+      const indexes = this.registry.getIndexes(collection);
+      const docCount = this.adapter.getDocumentCount
+        ? await this.adapter.getDocumentCount(collection)
+        : 0;
+
+      return {
+        name: collection,
+        backend: this.backend,
+        fields,
+        indexes,
+        documentCount: docCount,
+        exampleFilter: buildExampleFilter(fields),
+      };
     }
 
     // Fall back to runtime introspection
@@ -496,14 +1277,17 @@ export class StrictDB {
       const docCount = this.adapter.getDocumentCount
         ? await this.adapter.getDocumentCount(collection)
         : 0;
+      const indexes = this.adapter.getIndexes
+        ? (await this.adapter.getIndexes(collection)).map(idx => ({ collection, ...idx }))
+        : [];
 
       return {
         name: collection,
         backend: this.backend,
-        fields: fields.map(f => ({ ...f, enum: undefined })),
-        indexes: [],
+        fields: fields.map(f => ({ name: f.name, type: f.type, required: f.required, enum: f.enum })),
+        indexes,
         documentCount: docCount,
-        exampleFilter: {},
+        exampleFilter: buildIndexedExampleFilter(fields, indexes, this.backend),
       };
     }
 
@@ -516,12 +1300,74 @@ export class StrictDB {
     });
   }
 
+  /**
+   * Compare registered schemas with the database: missing and extra fields,
+   * type and nullability differences, and registered indexes that do not exist.
+   * Checks every registered collection when none is given.
+   */
+  async checkSchema(collection?: string): Promise<SchemaDriftReport[]> {
+    const reports: SchemaDriftReport[] = [];
+
+    for (const name of collection ? [collection] : this.registry.getCollections()) {
+      const schema = this.registry.getSchema(name);
+      if (!schema) {
+        throw new StrictDBError({
+          code: 'COLLECTION_NOT_FOUND',
+          message: `Cannot check "${name}" — no schema is registered for it.`,
+          fix: `Register it first: db.registerCollection({ name: '${name}', schema })`,
+          backend: this.backend,
+          collection: name,
+          operation: 'checkSchema',
+        });
+      }
+      if (!this.adapter.describeCollection) {
+        throw new StrictDBError({
+          code: 'UNSUPPORTED_OPERATION',
+          message: `checkSchema() needs runtime introspection, which this ${this.backend} connection does not offer.`,
+          fix: 'Call db.checkSchema() on the main instance, not inside withTransaction().',
+          backend: this.backend,
+          collection: name,
+          operation: 'checkSchema',
+        });
+      }
+
+      let live: Array<{ name: string; type: string; required: boolean }> | null = null;
+      try {
+        live = await this.adapter.describeCollection(name);
+      } catch (err) {
+        if (!(err instanceof StrictDBError && err.code === 'COLLECTION_NOT_FOUND')) throw err;
+      }
+      // SQL reports no columns for a missing table; MongoDB throws COLLECTION_NOT_FOUND instead,
+      // and an Elasticsearch index can exist with an empty mapping
+      if (live && live.length === 0 && this.backend === 'sql') live = null;
+
+      reports.push(buildDriftReport({
+        collection: name,
+        backend: this.backend,
+        dialect: detectSqlDialect(this.config.uri),
+        schema: schema.schema,
+        fields: extractFieldInfo(schema),
+        live,
+        indexes: this.registry.getIndexes(name),
+        // Elasticsearch indexes each mapped field on its own — missing fields already cover it
+        liveIndexes: live && this.adapter.getIndexes && this.backend !== 'elastic' ? await this.adapter.getIndexes(name) : undefined,
+        managedFields: [
+          ...(this.timestampConfig.enabled ? [this.timestampConfig.createdAt, this.timestampConfig.updatedAt] : []),
+          ...(this.isSoftDelete(name) ? [this.timestampConfig.deletedAt] : []),
+          ...(isTenantCollection(this.tenancy, name) ? [this.tenancy.field] : []),
+        ],
+      }));
+    }
+
+    return reports;
+  }
+
   async validate(collection: string, operation: { filter?: Record<string, unknown>; update?: UpdateOperators<Record<string, unknown>>; doc?: Record<string, unknown> }): Promise<ValidationResult> {
     const errors: ValidationResult['errors'] = [];
 
     // Validate filter field names
     if (operation.filter) {
-      const schema = getSchema(collection);
+      const schema = this.registry.getSchema(collection);
       if (schema) {
         const fieldNames = extractFieldInfo(schema).map(f => f.name);
         for (const key of Object.keys(operation.filter)) {
@@ -539,7 +1385,7 @@ export class StrictDB {
 
     // Validate document against schema
     if (operation.doc) {
-      const error = validateDocument(collection, operation.doc);
+      const error = this.registry.validate(collection, operation.doc);
       if (error) {
         for (const issue of error.issues) {
           errors.push({
@@ -558,7 +1404,96 @@ export class StrictDB {
     };
   }
 
-  async explain(collection: string, operation: { filter?: Record<string, unknown>; sort?: Record<string, unknown>; limit?: number }): Promise<ExplainResult> {
+  /**
+   * The native query StrictDB would run. With { analyze: true } the database
+   * also reports how it runs it — index use, rows examined and warnings such
+   * as collection scans, normalized into `summary` next to the native `plan`.
+   */
+  async explain(
+    collection: string,
+    operation: { filter?: Record<string, unknown>; sort?: Record<string, unknown>; limit?: number; aggregate?: AggregateSpec },
+    options: ExplainOptions = {},
+  ): Promise<ExplainResult> {
+    if (options.analyze && !this.adapter.explainPlan) {
+      throw new StrictDBError({
+        code: 'UNSUPPORTED_OPERATION',
+        message: `explain({ analyze: true }) is not supported by this ${this.backend} adapter.`,
+        fix: 'Call db.explain() on the main StrictDB instance, outside withTransaction().',
+        backend: this.backend,
+        collection,
+        operation: 'explain',
+      });
+    }
+
+    // Analyzing runs the query, so it gets the same checks as a read
+    let { filter, aggregate } = operation;
+    if (options.analyze) {
+      if (aggregate) {
+        const agg = normalizeAggregate(aggregate, this.backend);
+        if (this.sanitizeEnabled) {
+          sanitizeFilter(collection, agg.match, this.backend, this.fieldLookup);
+          sanitizeFields(collection, aggregateFields(agg), this.backend, this.fieldLookup);
+        }
+        aggregate = { ...aggregate, match: this.applyRulesToFilter(collection, agg.match) };
+      } else {
+        if (filter && this.sanitizeEnabled) {
+          sanitizeFilter(collection, filter, this.backend, this.fieldLookup);
+        }
+        filter = this.applyRulesToFilter(collection, filter ?? {});
+      }
+    }
+
+    if (isTenantCollection(this.tenancy, collection)) {
+      if (aggregate) aggregate = { ...aggregate, match: this.scopeToTenant('explain', collection, aggregate.match ?? {}) };
+      else filter = this.scopeToTenant('explain', collection, filter ?? {});
+    }
+    if (options.analyze) {
+      this.enforcePolicy({
+        operation: 'explain',
+        collection,
+        filter: (aggregate ? aggregate.match : filter) as Record<string, unknown> | undefined,
+        limit: aggregate ? aggregate.limit : operation.limit,
+      });
+    }
+    if (this.isSoftDelete(collection)) {
+      if (aggregate) aggregate = { ...aggregate, match: this.excludeDeleted(collection, aggregate.match ?? {}, aggregate) };
+      else filter = this.excludeDeleted(collection, filter ?? {});
+    }
+
+    const query = this.buildExplainQuery(collection, { ...operation, filter, aggregate });
+    if (!options.analyze || !this.adapter.explainPlan) {
+      return { backend: this.backend, native: query.native };
+    }
+    const { plan, summary } = await this.adapter.explainPlan(collection, query.request, query.values);
+    return { backend: this.backend, native: query.native, plan, summary };
+  }
+
+  /**
+   * The native form of an explain() operation, plus what the adapter sends
+   * to analyze it — the SQL values, or the full Elasticsearch search body.
+   */
+  private buildExplainQuery(
+    collection: string,
+    operation: { filter?: Record<string, unknown>; sort?: Record<string, unknown>; limit?: number; aggregate?: AggregateSpec },
+  ): { native: string | object; request: string | object; values?: unknown[] } {
+    if (operation.aggregate) {
+      const agg = normalizeAggregate(operation.aggregate, this.backend);
+      switch (this.backend) {
+        case 'mongo': {
+          const pipeline = buildMongoAggregatePipeline(agg);
+          return { native: pipeline, request: pipeline };
+        }
+        case 'sql': {
+          const query = buildAggregateSQL(collection, agg, detectSqlDialect(this.config.uri));
+          return { native: query.sql, request: query.sql, values: query.values };
+        }
+        case 'elastic': {
+          const body = buildElasticAggregateBody(agg);
+          return { native: body, request: body };
+        }
+      }
+    }
+
     const filter = operation.filter ?? {};
 
     switch (this.backend) {
@@ -566,7 +1501,7 @@ export class StrictDB {
         const pipeline: Record<string, unknown>[] = [{ $match: filter }];
         if (operation.sort) pipeline.push({ $sort: operation.sort });
         if (operation.limit) pipeline.push({ $limit: operation.limit });
-        return { backend: 'mongo', native: pipeline };
+        return { native: pipeline, request: pipeline };
       }
       case 'sql': {
         const dialect = detectSqlDialect(this.config.uri);
@@ -575,11 +1510,14 @@ export class StrictDB {
           limit: operation.limit,
           dialect,
         });
-        return { backend: 'sql', native: query.sql };
+        return { native: query.sql, request: query.sql, values: query.values };
       }
       case 'elastic': {
         const query = translateToElastic(filter);
-        return { backend: 'elastic', native: query };
+        const body: Record<string, unknown> = { query };
+        if (operation.sort) body['sort'] = translateSortToElastic(operation.sort);
+        if (operation.limit) body['size'] = operation.limit;
+        return { native: query, request: body };
       }
     }
   }
@@ -607,7 +1545,283 @@ export class StrictDB {
     return this;
   }
 
-  // ─── Sanitize Rule Helpers ─────────────────────────────────────────────────
+  // ─── Index Guard ───────────────────────────────────────────────────────────
+
+  /**
+   * Run the index guard for a read when config.indexGuard is set. Indexes and
+   * document counts are cached per collection for a minute; if they cannot be
+   * looked up the query runs unchecked rather than failing on the lookup.
+   */
+  private async checkIndexGuard(
+    operation: string,
+    collection: string,
+    filter: Record<string, unknown>,
+    sort?: Record<string, unknown>,
+  ): Promise<void> {
+    const guard = this.config.indexGuard;
+    // Elasticsearch indexes every mapped field, so there is nothing to check
+    if (!guard || !this.guardrailsEnabled || this.backend === 'elastic') return;
+
+    let info = this.indexGuardCache.get(collection);
+    if (!info || info.expiresAt < Date.now()) {
+      try {
+        const indexes = [
+          ...IMPLICIT_INDEX_FIELDS[this.backend].map(field => ({ [field]: 1 as const })),
+          ...this.registry.getIndexes(collection).map(idx => idx.fields),
+          ...(this.adapter.getIndexes ? await this.adapter.getIndexes(collection) : []).map(idx => idx.fields),
+        ];
+        const documentCount = this.adapter.getDocumentCount
+          ? await this.adapter.getDocumentCount(collection)
+          : await this.adapter.count(collection);
+        info = { indexes, documentCount, expiresAt: Date.now() + 60_000 };
+        this.indexGuardCache.set(collection, info);
+      } catch {
+        return;
+      }
+    }
+
+    if (info.documentCount < (guard.minDocuments ?? DEFAULT_INDEX_GUARD_MIN_DOCUMENTS)) return;
+    checkIndexCoverage(
+      { mode: guard.mode, emitter: this.emitter },
+      operation,
+      collection,
+      filter,
+      sort,
+      info.indexes,
+      info.documentCount,
+    );
+  }
+
+  // ─── Tenancy, Soft Delete & Policy Helpers ─────────────────────────────────
+
+  /**
+   * Pin a filter on a tenant collection to this view's tenant. Unscoped
+   * instances and filters aimed at another tenant are blocked.
+   */
+  private scopeToTenant<T>(operation: string, collection: string, filter: StrictFilter<T>): StrictFilter<T> {
+    if (!isTenantCollection(this.tenancy, collection)) return filter;
+    this.requireTenantScope(operation, collection);
+    const field = this.tenancy.field;
+    if (pinsOtherTenant(filter as Record<string, unknown>, field, this.tenantId)) {
+      this.blockTenancy(operation, collection,
+        `${operation} on "${collection}" filters on another tenant's ${field}.`,
+        `Drop ${field} from the filter — forTenant() adds it.`,
+      );
+    }
+    return scopeFilter(filter as Record<string, unknown>, field, this.tenantId) as StrictFilter<T>;
+  }
+
+  private requireTenantScope(operation: string, collection: string): void {
+    if (this.tenantId !== undefined) return;
+    this.blockTenancy(operation, collection,
+      `"${collection}" is a tenant collection and this StrictDB instance is not scoped to a tenant.`,
+      `Scope the call to a tenant: db.forTenant(tenantId).${operation}('${collection}', ...)`,
+    );
+  }
+
+  private blockTenancy(operation: string, collection: string, reason: string, fix: string): never {
+    this.emitter.emit('guardrail-blocked', { collection, operation, reason });
+    throw new StrictDBError({
+      code: 'GUARDRAIL_BLOCKED',
+      message: reason,
+      fix,
+      backend: this.backend,
+      collection,
+      operation,
+    });
+  }
+
+  private isSoftDelete(collection: string): boolean {
+    return this.registry.getSchema(collection)?.softDelete === true;
+  }
+
+  /** Narrow a filter on a soft-delete collection to live documents, or per withDeleted / onlyDeleted */
+  private excludeDeleted<T>(collection: string, filter: StrictFilter<T>, options?: SoftDeleteOptions): StrictFilter<T> {
+    if (!this.isSoftDelete(collection)) return filter;
+    return applySoftDeleteFilter(filter as Record<string, unknown>, this.timestampConfig, options) as StrictFilter<T>;
+  }
+
+  private requireSoftDelete(operation: 'restore' | 'purge', collection: string): void {
+    if (this.isSoftDelete(collection)) return;
+    throw new StrictDBError({
+      code: 'UNSUPPORTED_OPERATION',
+      message: `${operation}() only works on soft-delete collections, and "${collection}" is not one.`,
+      fix: `Register the collection with softDelete: db.registerCollection({ name: '${collection}', schema, softDelete: true })`,
+      backend: this.backend,
+      collection,
+      operation,
+    });
+  }
+
+  /** deleteOne / deleteMany on a soft-delete collection: set deleted_at on live matches */
+  private async softDelete<T>(
+    operation: 'deleteOne' | 'deleteMany',
+    collection: string,
+    filter: StrictFilter<T>,
+  ): Promise<OperationReceipt> {
+    const startTime = Date.now();
+    const live = this.excludeDeleted(collection, filter);
+    const update = this.prepareUpdate(collection, buildSoftDeleteUpdate(this.timestampConfig) as UpdateOperators<T>);
+    const result = operation === 'deleteOne'
+      ? await this.adapter.updateOne(collection, live, update)
+      : await this.adapter.updateMany(collection, live, update);
+    const receipt = createReceipt({
+      operation,
+      collection,
+      backend: this.backend,
+      startTime,
+      matchedCount: result.matchedCount,
+      deletedCount: result.modifiedCount,
+      deleteMode: 'soft',
+    });
+    this.logger.logOperation(receipt);
+    return receipt;
+  }
+
+  /** Check config.guardrailPolicy and every registered guardrail rule */
+  private enforcePolicy(context: Omit<GuardrailRuleContext, 'backend'>): void {
+    if (!this.guardrailsEnabled || (!this.config.guardrailPolicy && this.guardrailRules.length === 0)) return;
+    checkPolicy(
+      { policy: this.config.guardrailPolicy ?? {}, rules: this.guardrailRules, emitter: this.emitter },
+      { ...context, backend: this.backend },
+    );
+  }
+
+  // ─── Write Pipeline ────────────────────────────────────────────────────────
+
+  /**
+   * Check read-only mode, tenancy and the guardrail policy, schema-validate a
+   * document, apply sanitize rules and stamp insert timestamps.
+   */
+  private prepareInsert<T>(collection: string, doc: T, operation: 'insertOne' | 'insertMany'): Record<string, unknown> {
+    checkReadOnly({ enabled: this.readOnly, emitter: this.emitter }, operation, collection);
+    if (isTenantCollection(this.tenancy, collection)) {
+      this.requireTenantScope(operation, collection);
+      const current = (doc as Record<string, unknown>)[this.tenancy.field];
+      if (current !== undefined && !sameTenant(current, this.tenantId)) {
+        this.blockTenancy(operation, collection,
+          `${operation} on "${collection}" sets ${this.tenancy.field} to another tenant.`,
+          `Leave ${this.tenancy.field} out of the document — forTenant() fills it in.`,
+        );
+      }
+      doc = stampTenant(doc as Record<string, unknown>, this.tenancy.field, this.tenantId) as T;
+    }
+    this.enforcePolicy({ operation, collection, doc: doc as Record<string, unknown> });
+    if (this.schemaValidation) {
+      const error = this.registry.validate(collection, doc);
+      if (error) {
+        throw new StrictDBError({
+          code: 'VALIDATION_ERROR',
+          message: `Validation failed for "${collection}": ${error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')}`,
+          fix: operation === 'insertMany'
+            ? `Fix the documents to match the registered schema.`
+            : `Fix the document to match the registered schema.`,
+          backend: this.backend,
+          collection,
+          operation,
+        });
+      }
+    }
+
+    let sanitizedDoc = doc as Record<string, unknown>;
+    if (this.sanitizeRules.length > 0) {
+      sanitizedDoc = applySanitizeRules(sanitizedDoc, collection, this.sanitizeRules);
+    }
+    return injectInsertTimestamps(sanitizedDoc, this.timestampConfig);
+  }
+
+  /**
+   * Sanitize a filter for a write, apply sanitize rules and check guardrails
+   * and the guardrail policy.
+   */
+  private prepareWriteFilter<T>(
+    operation: 'updateOne' | 'updateMany' | 'deleteOne' | 'deleteMany' | 'restore' | 'purge',
+    collection: string,
+    filter: StrictFilter<T>,
+    confirm?: string,
+    update?: UpdateOperators<T>,
+    softDelete?: SoftDeleteOptions,
+  ): StrictFilter<T> {
+    checkReadOnly({ enabled: this.readOnly, emitter: this.emitter }, operation, collection);
+    if (update && isTenantCollection(this.tenancy, collection)) {
+      const operator = tenantFieldOperator(update as Record<string, unknown>, this.tenancy.field);
+      if (operator) {
+        this.blockTenancy(operation, collection,
+          `${operation} on "${collection}" tries to change ${this.tenancy.field} with ${operator} — documents cannot move between tenants.`,
+          `Remove ${this.tenancy.field} from the ${operator} update.`,
+        );
+      }
+    }
+    if (this.sanitizeEnabled) {
+      sanitizeFilter(collection, filter as Record<string, unknown>, this.backend, this.fieldLookup);
+    }
+    const ruledFilter = this.applyRulesToFilter(collection, filter);
+
+    // Checked before tenant scoping — an empty filter still means "all of this tenant's documents"
+    if (this.guardrailsEnabled) {
+      checkGuardrails(
+        { enabled: true, emitter: this.emitter },
+        operation,
+        collection,
+        ruledFilter as Record<string, unknown>,
+        { confirm },
+      );
+    }
+    const sanitizedFilter = this.scopeToTenant(operation, collection, ruledFilter);
+    this.enforcePolicy({
+      operation,
+      collection,
+      filter: sanitizedFilter as Record<string, unknown>,
+      update: update as Record<string, unknown> | undefined,
+    });
+
+    // Updates skip soft-deleted documents like reads do; deletes, restore and purge narrow the filter themselves
+    if (operation === 'updateOne' || operation === 'updateMany') {
+      return this.excludeDeleted(collection, sanitizedFilter, softDelete);
+    }
+    return sanitizedFilter;
+  }
+
+  /**
+   * Apply sanitize rules to an update and stamp update timestamps.
+   */
+  private prepareUpdate<T>(collection: string, update: UpdateOperators<T>): UpdateOperators<T> {
+    const sanitizedUpdate = this.applyRulesToUpdate(collection, update);
+    return injectUpdateTimestamps(sanitizedUpdate as Record<string, unknown>, this.timestampConfig) as UpdateOperators<T>;
+  }
+
+  private prepareBatchOperation(op: BatchOperation): BatchOperation {
+    switch (op.operation) {
+      case 'insertOne':
+        return { ...op, doc: this.prepareInsert(op.collection, op.doc, 'insertOne') };
+      case 'insertMany':
+        return { ...op, docs: op.docs.map(d => this.prepareInsert(op.collection, d, 'insertMany')) };
+      case 'updateOne':
+        return {
+          ...op,
+          filter: this.prepareWriteFilter('updateOne', op.collection, op.filter, undefined, op.update),
+          update: this.prepareUpdate(op.collection, op.update),
+        };
+      case 'updateMany':
+        return {
+          ...op,
+          filter: this.prepareWriteFilter('updateMany', op.collection, op.filter, op.confirm, op.update),
+          update: this.prepareUpdate(op.collection, op.update),
+        };
+      case 'deleteOne':
+      case 'deleteMany': {
+        const filter = this.prepareWriteFilter(op.operation, op.collection, op.filter, op.operation === 'deleteMany' ? op.confirm : undefined);
+        if (!this.isSoftDelete(op.collection)) return { ...op, filter };
+        // Soft deletes run as updates and count as modifications in the batch receipt
+        return {
+          operation: op.operation === 'deleteOne' ? 'updateOne' : 'updateMany',
+          collection: op.collection,
+          filter: this.excludeDeleted(op.collection, filter),
+          update: this.prepareUpdate(op.collection, buildSoftDeleteUpdate(this.timestampConfig)),
+        };
+      }
+    }
+  }
 
   private applyRulesToFilter<T>(collection: string, filter: StrictFilter<T>): StrictFilter<T> {
     if (this.sanitizeRules.length === 0) return filter;
@@ -631,6 +1845,7 @@ export class StrictDB {
   // ─── Lifecycle ─────────────────────────────────────────────────────────────
 
   async close(): Promise<void> {
+    this.poolMonitor.stop();
     await this.adapter.close();
   }
 
@@ -642,6 +1857,16 @@ export class StrictDB {
   // ─── Escape Hatch ──────────────────────────────────────────────────────────
 
   raw(): unknown {
+    // The native driver can write, so a read-only connection does not hand it out
+    if (this.readOnly) {
+      throw new StrictDBError({
+        code: 'GUARDRAIL_BLOCKED',
+        message: 'db.raw() is not available on a read-only connection.',
+        fix: 'Use the StrictDB query methods, or a StrictDB instance created without readOnly: true for native driver access.',
+        backend: this.backend,
+        operation: 'raw',
+      });
+    }
     return this.adapter.raw();
   }
 }
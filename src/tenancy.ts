@@ -0,0 +1,83 @@
+/**
+ * StrictDB — Multi-Tenant Scoping
+ *
+ * Pure utility functions behind db.forTenant(): pinning filters to one
+ * tenant, stamping the tenant onto inserted documents and spotting updates
+ * that would move a document to another tenant.
+ * Immutable — always returns new objects, never mutates input.
+ */
+
+import type { TenancyConfig } from './types.js';
+
+export interface ResolvedTenancyConfig {
+  enabled: boolean;
+  field: string;
+  collections: Set<string>;
+}
+
+/**
+ * Resolve user-provided tenancy config into a normalized form.
+ */
+export function resolveTenancyConfig(config?: TenancyConfig): ResolvedTenancyConfig {
+  return {
+    enabled: !!config && config.collections.length > 0,
+    field: config?.field ?? 'tenantId',
+    collections: new Set(config?.collections ?? []),
+  };
+}
+
+export function isTenantCollection(config: ResolvedTenancyConfig, collection: string): boolean {
+  return config.enabled && config.collections.has(collection);
+}
+
+/** Tenant ids compare by value, so an ObjectId matches its hex string */
+export function sameTenant(value: unknown, tenantId: unknown): boolean {
+  return value === tenantId || (value !== null && value !== undefined && String(value) === String(tenantId));
+}
+
+/**
+ * True when the filter pins the tenant field to a different tenant —
+ * a plain value at the top level that is not this tenant's id.
+ */
+export function pinsOtherTenant(filter: Record<string, unknown>, field: string, tenantId: unknown): boolean {
+  if (!(field in filter)) return false;
+  const value = filter[field];
+  const isOperator = typeof value === 'object' && value !== null && !(value instanceof Date)
+    && Object.keys(value).some(key => key.startsWith('$'));
+  return !isOperator && !sameTenant(value, tenantId);
+}
+
+/**
+ * Add the tenant to a filter. It is merged at the top level so upserts pick
+ * it up as an equality field; a filter with its own condition on the field
+ * is wrapped in $and instead.
+ */
+export function scopeFilter(
+  filter: Record<string, unknown>,
+  field: string,
+  tenantId: unknown,
+): Record<string, unknown> {
+  if (!(field in filter)) return { ...filter, [field]: tenantId };
+  if (sameTenant(filter[field], tenantId)) return { ...filter, [field]: tenantId };
+  return { $and: [filter, { [field]: tenantId }] };
+}
+
+/**
+ * Stamp the tenant onto an insert document. Callers check for a conflicting
+ * value first with sameTenant().
+ */
+export function stampTenant<T extends Record<string, unknown>>(doc: T, field: string, tenantId: unknown): T {
+  return { ...doc, [field]: tenantId };
+}
+
+/**
+ * The update operator that writes the tenant field (or a path below it),
+ * or undefined when the update leaves it alone.
+ */
+export function tenantFieldOperator(update: Record<string, unknown>, field: string): string | undefined {
+  for (const [operator, fields] of Object.entries(update)) {
+    if (typeof fields !== 'object' || fields === null) continue;
+    if (Object.keys(fields).some(path => path === field || path.startsWith(`${field}.`))) return operator;
+  }
+  return undefined;
+}
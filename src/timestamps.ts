@@ -1,16 +1,19 @@
 /**
  * StrictDB — Automatic Timestamp Injection
  *
- * Pure utility functions for injecting created_at / updated_at timestamps.
+ * Pure utility functions for injecting created_at / updated_at timestamps,
+ * and for the deleted_at marker of soft-delete collections.
  * Immutable — always returns new objects, never mutates input.
  */
 
-import type { TimestampFieldNames } from './types.js';
+import type { SoftDeleteOptions, TimestampFieldNames } from './types.js';
 
 export interface ResolvedTimestampConfig {
   enabled: boolean;
   createdAt: string;
   updatedAt: string;
+  /** Used by soft-delete collections whether or not timestamps are enabled */
+  deletedAt: string;
 }
 
 /**
@@ -20,17 +23,18 @@ export function resolveTimestampConfig(
   config?: boolean | TimestampFieldNames,
 ): ResolvedTimestampConfig {
   if (!config) {
-    return { enabled: false, createdAt: 'created_at', updatedAt: 'updated_at' };
+    return { enabled: false, createdAt: 'created_at', updatedAt: 'updated_at', deletedAt: 'deleted_at' };
   }
 
   if (config === true) {
-    return { enabled: true, createdAt: 'created_at', updatedAt: 'updated_at' };
+    return { enabled: true, createdAt: 'created_at', updatedAt: 'updated_at', deletedAt: 'deleted_at' };
   }
 
   return {
     enabled: true,
     createdAt: config.createdAt ?? 'created_at',
     updatedAt: config.updatedAt ?? 'updated_at',
+    deletedAt: config.deletedAt ?? 'deleted_at',
   };
 }
 
@@ -88,3 +92,42 @@ export function injectUpdateTimestamps<T extends Record<string, unknown>>(
 
   return result;
 }
+
+/**
+ * The update that soft-deletes a document: $set deleted_at to now.
+ */
+export function buildSoftDeleteUpdate(config: ResolvedTimestampConfig, now?: Date): { $set: Record<string, Date> } {
+  return { $set: { [config.deletedAt]: now ?? new Date() } };
+}
+
+/**
+ * Narrow a filter to live documents (deleted_at is null or missing), or to
+ * soft-deleted ones with onlyDeleted. withDeleted returns it unchanged.
+ */
+export function applySoftDeleteFilter(
+  filter: Record<string, unknown>,
+  config: ResolvedTimestampConfig,
+  options: SoftDeleteOptions = {},
+): Record<string, unknown> {
+  let condition: unknown;
+  if (options.onlyDeleted) condition = { $ne: null };
+  else if (options.withDeleted) return filter;
+  else condition = null;
+
+  if (config.deletedAt in filter) return { $and: [filter, { [config.deletedAt]: condition }] };
+  return { ...filter, [config.deletedAt]: condition };
+}
+
+/**
+ * Whether a fetched document passes the same soft-delete check as
+ * applySoftDeleteFilter().
+ */
+export function matchesSoftDelete(
+  doc: Record<string, unknown>,
+  config: ResolvedTimestampConfig,
+  options: SoftDeleteOptions = {},
+): boolean {
+  const deleted = doc[config.deletedAt] !== null && doc[config.deletedAt] !== undefined;
+  if (options.onlyDeleted) return deleted;
+  return options.withDeleted === true || !deleted;
+}
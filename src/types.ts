@@ -6,6 +6,8 @@
  */
 
 import type { z } from 'zod';
+import type { SchemaRegistry } from './schema.js';
+import type { StrictDB } from './strictdb.js';
 
 // ─── Backend & Driver ────────────────────────────────────────────────────────
 
@@ -59,16 +61,61 @@ export type SortDirection = 1 | -1 | 'asc' | 'desc';
 export type SortSpec<T> = { [K in keyof T]?: SortDirection };
 export type Projection<T> = { [K in keyof T]?: 1 | 0 };
 
-export interface QueryOptions<T> {
+/** Soft-delete collections only — by default reads skip soft-deleted documents */
+export interface SoftDeleteOptions {
+  /** Include soft-deleted documents */
+  withDeleted?: boolean;
+  /** Return only soft-deleted documents */
+  onlyDeleted?: boolean;
+}
+
+export interface QueryOptions<T> extends SoftDeleteOptions {
   sort?: SortSpec<T>;
   limit?: number;
   skip?: number;
   projection?: Projection<T>;
+  /** Elasticsearch only — add each hit's _id, _score, _seq_no and _primary_term to the document */
+  includeMeta?: boolean;
+}
+
+export interface GetByIdOptions<T> extends SoftDeleteOptions {
+  projection?: Projection<T>;
+  /** Elasticsearch only — add the document's _id, _seq_no and _primary_term */
+  includeMeta?: boolean;
+}
+
+export interface StreamOptions<T> extends SoftDeleteOptions {
+  sort?: SortSpec<T>;
+  projection?: Projection<T>;
+  /** Documents fetched per round trip (default: 1000) */
+  batchSize?: number;
+  /** Stop after this many documents (default: no limit) */
+  limit?: number;
+  /** SQL only — unique column used to resume between batches (default: 'id') */
+  tiebreaker?: string;
+}
+
+export interface PaginateOptions<T> extends SoftDeleteOptions {
+  sort?: SortSpec<T>;
+  projection?: Projection<T>;
+  /** Items per page (default: 20) */
+  pageSize?: number;
+  /** nextCursor from the previous page — omit for the first page */
+  after?: string;
+  /** Unique field that breaks sort ties (default: '_id' for MongoDB, 'id' otherwise) */
+  tiebreaker?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Opaque token for the next page, or null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
 }
 
 // ─── Lookup (Joins) ─────────────────────────────────────────────────────────
 
-export interface LookupOptions<T> {
+export interface LookupOptions<T> extends SoftDeleteOptions {
   match: StrictFilter<T>;
   lookup: {
     from: string;
@@ -76,12 +123,34 @@ export interface LookupOptions<T> {
     foreignField: string;
     as: string;
     type?: 'left' | 'inner';
+    /** Extra conditions on the joined documents, e.g. { active: true } */
+    match?: Record<string, unknown>;
   };
   unwind?: string;
   sort?: SortSpec<T>;
   limit?: number;
 }
 
+// ─── Aggregation ─────────────────────────────────────────────────────────────
+
+export type AggregateMetric =
+  | { $count: true }
+  | { $sum: string }
+  | { $avg: string }
+  | { $min: string }
+  | { $max: string };
+
+export interface AggregateSpec<T = Record<string, unknown>> extends SoftDeleteOptions {
+  match?: StrictFilter<T>;
+  /** Field(s) to group by — omit to aggregate every matching document into one row */
+  groupBy?: string | string[];
+  /** Output name → metric, e.g. { total: { $sum: 'amount' }, orders: { $count: true } } */
+  metrics: Record<string, AggregateMetric>;
+  /** Sort by a groupBy field or a metric name */
+  sort?: Record<string, SortDirection>;
+  limit?: number;
+}
+
 // ─── Index Definition ────────────────────────────────────────────────────────
 
 export interface IndexDefinition {
@@ -104,6 +173,26 @@ export interface OperationReceipt {
   deletedCount: number;
   duration: number;
   backend: Backend;
+  /**
+   * Keys of the inserted documents, in insert order: the MongoDB _id, the SQL
+   * primary key (an object for composite keys), or the Elasticsearch _id.
+   * Omitted when the backend cannot report them.
+   */
+  insertedIds?: unknown[];
+  /** Key of the document an upsert inserted — absent when the upsert matched */
+  upsertedId?: unknown;
+  /** Batch only — the operations that failed, by position in the batch */
+  errors?: BatchFailure[];
+  /** Deletes only — 'soft' when the documents were marked deleted rather than removed */
+  deleteMode?: 'soft' | 'hard';
+}
+
+export interface BatchFailure {
+  index: number;
+  operation: BatchOperation['operation'];
+  collection: string;
+  code: StrictErrorCode;
+  message: string;
 }
 
 // ─── Validation Result ───────────────────────────────────────────────────────
@@ -134,6 +223,25 @@ export interface CollectionDescription {
   exampleFilter: Record<string, unknown>;
 }
 
+// ─── Schema Drift ────────────────────────────────────────────────────────────
+
+/** How a registered schema differs from the live table, index or collection */
+export interface SchemaDriftReport {
+  collection: string;
+  backend: Backend;
+  /** False when the table, index or collection does not exist */
+  exists: boolean;
+  inSync: boolean;
+  /** In the schema, not in the database */
+  missingFields: string[];
+  /** In the database, not in the schema */
+  extraFields: string[];
+  typeMismatches: Array<{ field: string; expected: string; actual: string }>;
+  nullabilityMismatches: Array<{ field: string; expected: 'required' | 'optional'; actual: 'required' | 'optional' }>;
+  /** Registered indexes the database does not have — only checked where the adapter can list indexes */
+  missingIndexes: IndexDefinition[];
+}
+
 // ─── Connection Config ───────────────────────────────────────────────────────
 
 export type PoolPreset = 'high' | 'standard' | 'low';
@@ -144,11 +252,21 @@ export interface ReconnectConfig {
   initialDelayMs?: number;
   maxDelayMs?: number;
   backoffMultiplier?: number;
+  /** Hold operations until the reconnect finishes (true) or fail fast with CONNECTION_LOST (false). Default: true */
+  queueWhileReconnecting?: boolean;
 }
 
 export interface TimestampFieldNames {
   createdAt?: string;
   updatedAt?: string;
+  /** Soft-delete marker for collections registered with softDelete (default: 'deleted_at') */
+  deletedAt?: string;
+}
+
+export interface TenancyConfig {
+  /** Field that holds the tenant id on every tenant collection (default: 'tenantId') */
+  field?: string;
+  collections: string[];
 }
 
 export interface SanitizeRule {
@@ -168,9 +286,23 @@ export interface StrictDBConfig {
   sanitizeRules?: SanitizeRule[];
   reconnect?: ReconnectConfig | boolean;
   slowQueryMs?: number;
+  /** How often to sample pool stats; 'pool-status' is emitted when they change. 0 disables. Default: 5000 */
+  poolStatusIntervalMs?: number;
   guardrails?: boolean;
+  /** Reject every insert, update, delete, batch and DDL call with GUARDRAIL_BLOCKED (default: false) */
+  readOnly?: boolean;
+  /** Declarative limits and custom rules enforced on top of the built-in guardrails */
+  guardrailPolicy?: GuardrailPolicy;
+  /** Warn about or block reads that no index serves (off by default; needs guardrails) */
+  indexGuard?: IndexGuardConfig;
+  /** Compare registered schemas with the database in create() and after ensureCollections() — 'warn' emits schema-drift, 'fail' throws SCHEMA_MISMATCH */
+  schemaCheck?: 'warn' | 'fail';
   logging?: boolean | 'verbose';
   timestamps?: boolean | TimestampFieldNames;
+  /** Collections that may only be read and written through db.forTenant() */
+  tenancy?: TenancyConfig;
+  /** Share schema/index registrations between instances (default: one registry per instance) */
+  registry?: SchemaRegistry;
   elastic?: {
     apiKey?: string;
     caFingerprint?: string;
@@ -178,12 +310,173 @@ export interface StrictDBConfig {
   };
 }
 
+export interface IndexGuardConfig {
+  /** 'warn' emits guardrail-warning and runs the query; 'block' throws GUARDRAIL_BLOCKED */
+  mode: 'warn' | 'block';
+  /** Skip collections with fewer documents than this (default: 10000) */
+  minDocuments?: number;
+}
+
+// ─── Guardrail Policy ────────────────────────────────────────────────────────
+
+export type GuardrailOperation =
+  | 'queryOne' | 'queryMany' | 'count' | 'stream' | 'paginate' | 'aggregate' | 'distinct' | 'queryWithLookup' | 'getById' | 'explain'
+  | 'insertOne' | 'insertMany' | 'updateOne' | 'updateMany' | 'deleteOne' | 'deleteMany' | 'restore' | 'purge';
+
+export interface GuardrailCollectionPolicy {
+  /** Highest limit (or pageSize) a read may ask for */
+  maxLimit?: number;
+  /** Operations that are always blocked, e.g. ['deleteOne', 'deleteMany'] */
+  forbid?: GuardrailOperation[];
+  /** Block every insert, update and delete */
+  readOnly?: boolean;
+  /** Largest $in / $nin array a filter may carry */
+  maxInSize?: number;
+  /** Longest $regex pattern a filter may carry */
+  maxRegexLength?: number;
+  /** Fields every filter must constrain, e.g. ['tenantId'] */
+  requireFilterFields?: string[];
+}
+
+/** Top-level settings apply to every collection; `collections` overrides them per collection */
+export interface GuardrailPolicy extends GuardrailCollectionPolicy {
+  collections?: Record<string, GuardrailCollectionPolicy>;
+  /** Custom checks, run after the declarative ones */
+  rules?: GuardrailRule[];
+}
+
+/** What a guardrail rule sees — fields are present when the operation has them */
+export interface GuardrailRuleContext {
+  operation: GuardrailOperation;
+  collection: string;
+  backend: Backend;
+  filter?: Record<string, unknown>;
+  update?: Record<string, unknown>;
+  /** The document being inserted — rules run once per document for insertMany */
+  doc?: Record<string, unknown>;
+  limit?: number;
+}
+
+export interface GuardrailViolation {
+  reason: string;
+  fix: string;
+}
+
+/** Return a violation to block the operation with GUARDRAIL_BLOCKED; return nothing to allow it */
+export type GuardrailRule = (context: GuardrailRuleContext) => GuardrailViolation | undefined | void;
+
 // ─── Schema Types ────────────────────────────────────────────────────────────
 
 export interface CollectionSchema<T = unknown> {
   name: string;
   schema: z.ZodType<T>;
   indexes?: IndexDefinition[];
+  /** deleteOne/deleteMany set the deletedAt timestamp instead of removing documents */
+  softDelete?: boolean;
+  /** MongoDB — which writes the $jsonSchema validator checks. Default: 'strict' */
+  validationLevel?: 'strict' | 'moderate' | 'off';
+  /** MongoDB — reject invalid writes, or accept them and log a warning. Default: 'error' */
+  validationAction?: 'error' | 'warn';
+  /** MongoDB — fixed-size collection that overwrites its oldest documents. Set at creation only. */
+  capped?: { size: number; max?: number };
+  /** MongoDB — time-series collection. Set at creation only; gets no validator. */
+  timeseries?: {
+    timeField: string;
+    metaField?: string;
+    granularity?: 'seconds' | 'minutes' | 'hours';
+    expireAfterSeconds?: number;
+  };
+}
+
+// ─── Migrations ──────────────────────────────────────────────────────────────
+
+export type MigrationAction =
+  | 'createCollection'
+  | 'addField'
+  | 'alterField'
+  | 'dropField'
+  | 'updateMapping'
+  | 'updateValidator';
+
+/** One change db.migrate.apply() makes to bring a collection in line with its schema */
+export interface MigrationStep {
+  collection: string;
+  action: MigrationAction;
+  field?: string;
+  description: string;
+  /** SQL statement, Elasticsearch mapping or MongoDB validator */
+  native: string | Record<string, unknown>;
+  /** Drops a column or changes its type — apply() needs allowDestructive */
+  destructive: boolean;
+}
+
+/** A hand-written migration for data changes, applied once and recorded in the history */
+export interface Migration {
+  /** Unique and sortable — migrations run in id order, e.g. '2025-01-15-backfill-slugs' */
+  id: string;
+  description?: string;
+  up(db: StrictDB): Promise<void>;
+  down?(db: StrictDB): Promise<void>;
+}
+
+export interface MigrationRecord {
+  id: string;
+  kind: 'schema' | 'migration';
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationPlan {
+  steps: MigrationStep[];
+  /** Hand-written migrations not yet in the history */
+  pending: Array<{ id: string; description?: string }>;
+  /** Changes StrictDB cannot make itself, and applied migrations whose code changed */
+  warnings: string[];
+  /** sha256 of the steps and pending ids */
+  checksum: string;
+}
+
+export interface MigrationOptions {
+  /** Only diff these collections (default: every registered collection) */
+  collections?: string[];
+  migrations?: Migration[];
+  /** Load hand-written migrations from .js/.mjs files exporting up() and down(), run in file-name order */
+  migrationsDir?: string;
+}
+
+export interface ApplyMigrationOptions extends MigrationOptions {
+  /** Run steps that drop columns or change their type */
+  allowDestructive?: boolean;
+  /** How long to wait for another apply() or rollback() to release the migration lock, in ms (default: 60000) */
+  lockTimeout?: number;
+}
+
+export interface RollbackMigrationOptions {
+  migrations?: Migration[];
+  migrationsDir?: string;
+  /** How many of the most recently applied migrations to roll back (default: 1) */
+  steps?: number;
+  /** How long to wait for another apply() or rollback() to release the migration lock, in ms (default: 60000) */
+  lockTimeout?: number;
+}
+
+export interface MigrationResult {
+  steps: MigrationStep[];
+  applied: MigrationRecord[];
+  warnings: string[];
+}
+
+export interface MigrateApi {
+  plan(options?: MigrationOptions): Promise<MigrationPlan>;
+  /**
+   * Run the planned schema steps, then pending migrations. Holds a lock row in
+   * the history while it runs — a concurrent run waits, then applies only
+   * what is still pending.
+   */
+  apply(options?: ApplyMigrationOptions): Promise<MigrationResult>;
+  /** Run down() for the most recently applied hand-written migrations (default: 1) */
+  rollback(options: RollbackMigrationOptions): Promise<MigrationRecord[]>;
+  history(): Promise<MigrationRecord[]>;
 }
 
 // ─── Batch Operations ────────────────────────────────────────────────────────
@@ -192,9 +485,9 @@ export type BatchOperation =
   | { operation: 'insertOne'; collection: string; doc: Record<string, unknown> }
   | { operation: 'insertMany'; collection: string; docs: Record<string, unknown>[] }
   | { operation: 'updateOne'; collection: string; filter: StrictFilter<Record<string, unknown>>; update: UpdateOperators<Record<string, unknown>>; upsert?: boolean }
-  | { operation: 'updateMany'; collection: string; filter: StrictFilter<Record<string, unknown>>; update: UpdateOperators<Record<string, unknown>> }
+  | { operation: 'updateMany'; collection: string; filter: StrictFilter<Record<string, unknown>>; update: UpdateOperators<Record<string, unknown>>; confirm?: 'UPDATE_ALL' }
   | { operation: 'deleteOne'; collection: string; filter: StrictFilter<Record<string, unknown>> }
-  | { operation: 'deleteMany'; collection: string; filter: StrictFilter<Record<string, unknown>> };
+  | { operation: 'deleteMany'; collection: string; filter: StrictFilter<Record<string, unknown>>; confirm?: 'DELETE_ALL' };
 
 // ─── Error Codes ─────────────────────────────────────────────────────────────
 
@@ -224,13 +517,27 @@ export interface StrictDBEvents {
   error: { code: StrictErrorCode; message: string; fix: string; backend: Backend };
   operation: { collection: string; operation: string; durationMs: number; receipt: OperationReceipt };
   'slow-query': { collection: string; operation: string; durationMs: number; threshold: number };
-  'pool-status': { active: number; idle: number; waiting: number; max: number };
+  'pool-status': PoolStats & { backend: Backend };
   'guardrail-blocked': { collection: string; operation: string; reason: string };
+  'guardrail-warning': { collection: string; operation: string; reason: string; fix: string };
+  'schema-drift': { collection: string; report: SchemaDriftReport };
   shutdown: { exitCode: number };
 }
 
 // ─── Connection Status ───────────────────────────────────────────────────────
 
+export interface PoolStats {
+  /** Connections (or, for Elasticsearch, requests) currently in use */
+  active: number;
+  idle: number;
+  /** Operations queued for a free connection */
+  waiting: number;
+  /** Maximum pool size from the configured PoolPreset */
+  max: number;
+  /** Set when the driver exposes no counters — active/idle/waiting are 0, not measured */
+  unavailable?: true;
+}
+
 export interface ConnectionStatus {
   state: 'connected' | 'disconnected' | 'reconnecting' | 'closed';
   backend: Backend;
@@ -238,7 +545,7 @@ export interface ConnectionStatus {
   uri: string;
   dbName: string;
   uptimeMs: number;
-  pool: { active: number; idle: number; waiting: number; max: number };
+  pool: PoolStats;
   reconnect: { enabled: boolean; attempts: number; lastDisconnect?: Date };
 }
 
@@ -251,9 +558,29 @@ export interface SqlTranslation {
 
 // ─── Explain Result ──────────────────────────────────────────────────────────
 
+export interface ExplainOptions {
+  /** Ask the database how it runs the query — executes it on MongoDB, PostgreSQL, MSSQL and Elasticsearch (default: false) */
+  analyze?: boolean;
+}
+
+export interface ExplainSummary {
+  /** True when the plan reads through an index instead of scanning every row/document */
+  usesIndex: boolean;
+  indexName?: string;
+  /** Rows/documents the database read to answer the query, where it reports them */
+  docsExamined?: number;
+  /** Rows the query returns — the planner's estimate, or the actual count where only that is reported */
+  estimatedRows?: number;
+  /** Plain-language problems such as full scans or in-memory sorts */
+  warnings: string[];
+}
+
 export interface ExplainResult {
   backend: Backend;
   native: string | object;
+  /** The database's own plan, as returned — only with { analyze: true } */
+  plan?: unknown;
+  summary?: ExplainSummary;
 }
 
 // ─── Confirm Options (for guardrail override) ────────────────────────────────
@@ -261,3 +588,19 @@ export interface ExplainResult {
 export interface ConfirmOptions {
   confirm?: 'DELETE_ALL' | 'UPDATE_ALL';
 }
+
+// ─── Find-and-Modify Options ─────────────────────────────────────────────────
+
+export interface UpdateAndReturnOptions<T> extends SoftDeleteOptions {
+  /** Return the document as it was before or after the update (default: 'after') */
+  returnDocument?: 'before' | 'after';
+  /** Insert from the filter's equality fields plus $set when nothing matches */
+  upsert?: boolean;
+  /** Which match to take when several qualify, e.g. the oldest pending job */
+  sort?: SortSpec<T>;
+}
+
+export interface DeleteAndReturnOptions<T> {
+  /** Which match to take when several qualify */
+  sort?: SortSpec<T>;
+}
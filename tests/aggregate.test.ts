@@ -0,0 +1,149 @@
+/**
+ * Aggregate Tests — spec validation, Mongo $group, SQL GROUP BY, ES aggregations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateFields,
+  buildAggregateSQL,
+  buildElasticAggregateBody,
+  buildMongoAggregatePipeline,
+  normalizeAggregate,
+  normalizeAggregateRows,
+  parseElasticAggregation,
+} from '../src/aggregate.js';
+import type { AggregateSpec } from '../src/types.js';
+
+const revenueByRegion: AggregateSpec = {
+  match: { status: 'paid' },
+  groupBy: 'region',
+  metrics: { total: { $sum: 'amount' }, orders: { $count: true } },
+  sort: { total: -1 },
+  limit: 5,
+};
+
+describe('normalizeAggregate', () => {
+  it('flattens groupBy, metrics and sort', () => {
+    const agg = normalizeAggregate(revenueByRegion, 'sql');
+    expect(agg.groupBy).toEqual(['region']);
+    expect(agg.metrics).toEqual([
+      { name: 'total', fn: 'sum', field: 'amount' },
+      { name: 'orders', fn: 'count' },
+    ]);
+    expect(agg.sort).toEqual([['total', -1]]);
+    expect(aggregateFields(agg)).toEqual(['region', 'amount']);
+  });
+
+  it('rejects unknown metric operators', () => {
+    expect(() => normalizeAggregate({ metrics: { p: { $median: 'x' } as never } }, 'mongo'))
+      .toThrow(expect.objectContaining({ code: 'UNKNOWN_OPERATOR' }));
+  });
+
+  it('rejects dotted groupBy fields so every backend returns flat rows', () => {
+    expect(() => normalizeAggregate({ groupBy: ['region', 'address.city'], metrics: { n: { $count: true } } }, 'mongo'))
+      .toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR', message: expect.stringContaining('"address.city"') }));
+  });
+
+  it('accepts dotted metric fields', () => {
+    const agg = normalizeAggregate({ groupBy: 'region', metrics: { total: { $sum: 'order.amount' } } }, 'mongo');
+    expect(agg.metrics).toEqual([{ name: 'total', fn: 'sum', field: 'order.amount' }]);
+  });
+
+  it('rejects an empty metrics object', () => {
+    expect(() => normalizeAggregate({ metrics: {} }, 'sql')).toThrow(/at least one metric/);
+  });
+
+  it('only sorts by outputs', () => {
+    expect(() => normalizeAggregate({ ...revenueByRegion, sort: { amount: 1 } }, 'sql'))
+      .toThrow(/Sort by a groupBy field or metric name: region, total, orders/);
+  });
+});
+
+describe('buildMongoAggregatePipeline', () => {
+  it('builds $match → $group → $project → $sort → $limit', () => {
+    expect(buildMongoAggregatePipeline(normalizeAggregate(revenueByRegion, 'mongo'))).toEqual([
+      { $match: { status: 'paid' } },
+      { $group: { _id: { g0: '$region' }, total: { $sum: '$amount' }, orders: { $sum: 1 } } },
+      { $project: { _id: 0, region: '$_id.g0', total: 1, orders: 1 } },
+      { $sort: { total: -1 } },
+      { $limit: 5 },
+    ]);
+  });
+
+  it('groups everything under a null _id without groupBy', () => {
+    const pipeline = buildMongoAggregatePipeline(normalizeAggregate({ metrics: { avg: { $avg: 'amount' } } }, 'mongo'));
+    expect(pipeline[1]).toEqual({ $group: { _id: null, avg: { $avg: '$amount' } } });
+  });
+});
+
+describe('buildAggregateSQL', () => {
+  it('builds GROUP BY for PostgreSQL', () => {
+    const query = buildAggregateSQL('orders', normalizeAggregate(revenueByRegion, 'sql'), 'pg');
+    expect(query.sql).toBe(
+      'SELECT "region", SUM("amount") AS "total", COUNT(*) AS "orders" FROM "orders" WHERE "status" = $1 GROUP BY "region" ORDER BY "total" DESC LIMIT 5',
+    );
+    expect(query.values).toEqual(['paid']);
+  });
+
+  it('uses TOP and a float AVG on MSSQL', () => {
+    const query = buildAggregateSQL('orders', normalizeAggregate({
+      groupBy: ['region', 'channel'],
+      metrics: { avgAmount: { $avg: 'amount' } },
+      limit: 3,
+    }, 'sql'), 'mssql');
+    expect(query.sql).toBe(
+      'SELECT TOP(3) "region", "channel", AVG(CAST("amount" AS FLOAT)) AS "avgAmount" FROM "orders" GROUP BY "region", "channel"',
+    );
+  });
+
+  it('converts numeric strings from the driver', () => {
+    const agg = normalizeAggregate(revenueByRegion, 'sql');
+    expect(normalizeAggregateRows([{ region: '042', total: '1250.50', orders: '3' }], agg))
+      .toEqual([{ region: '042', total: 1250.5, orders: 3 }]);
+  });
+});
+
+describe('Elasticsearch aggregations', () => {
+  it('builds a terms aggregation ordered by a metric', () => {
+    expect(buildElasticAggregateBody(normalizeAggregate(revenueByRegion, 'elastic'))).toEqual({
+      query: { term: { status: 'paid' } },
+      size: 0,
+      aggs: {
+        groups: {
+          terms: { field: 'region', size: 5, order: [{ total: 'desc' }] },
+          aggs: { total: { sum: { field: 'amount' } } },
+        },
+      },
+    });
+  });
+
+  it('uses multi_terms for several groupBy fields', () => {
+    const body = buildElasticAggregateBody(normalizeAggregate({
+      groupBy: ['region', 'channel'],
+      metrics: { orders: { $count: true } },
+      sort: { orders: -1 },
+    }, 'elastic'));
+    expect((body['aggs'] as Record<string, unknown>)['groups']).toEqual({
+      multi_terms: { terms: [{ field: 'region' }, { field: 'channel' }], size: 10_000, order: [{ _count: 'desc' }] },
+    });
+  });
+
+  it('parses buckets into flat rows', () => {
+    const agg = normalizeAggregate({ ...revenueByRegion, groupBy: ['region', 'channel'] }, 'elastic');
+    const rows = parseElasticAggregation({
+      aggregations: {
+        groups: { buckets: [{ key: ['eu', 'web'], doc_count: 4, total: { value: 99.5 } }] },
+      },
+    }, agg);
+    expect(rows).toEqual([{ region: 'eu', channel: 'web', total: 99.5, orders: 4 }]);
+  });
+
+  it('returns a single row without groupBy', () => {
+    const agg = normalizeAggregate({ metrics: { total: { $sum: 'amount' }, orders: { $count: true } } }, 'elastic');
+    const rows = parseElasticAggregation({
+      hits: { total: { value: 12 } },
+      aggregations: { total: { value: 300 } },
+    }, agg);
+    expect(rows).toEqual([{ total: 300, orders: 12 }]);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Batch Tests — Mongo bulk grouping, failure mapping, batch receipts, and
+ * StrictDB.batch() pre-checks and rollback (on SQLite, no server needed)
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { StrictDB } from '../src/index.js';
+import type { StrictDBConfig } from '../src/index.js';
+import {
+  groupMongoBulkOperations,
+  resolveMongoFailureIndex,
+  summarizeBatch,
+  toBatchFailure,
+} from '../src/batch.js';
+import { createReceipt } from '../src/receipts.js';
+import type { BatchOperation } from '../src/types.js';
+
+describe('groupMongoBulkOperations', () => {
+  it('groups consecutive operations on the same collection', () => {
+    const groups = groupMongoBulkOperations([
+      { operation: 'insertOne', collection: 'orders', doc: { item: 'widget' } },
+      { operation: 'deleteOne', collection: 'orders', filter: { item: 'old' } },
+      { operation: 'updateOne', collection: 'inventory', filter: { sku: 'W1' }, update: { $inc: { stock: -5 } } },
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]!.collection).toBe('orders');
+    expect(groups[0]!.operations).toEqual([
+      { insertOne: { document: { item: 'widget' } } },
+      { deleteOne: { filter: { item: 'old' } } },
+    ]);
+    expect(groups[1]!.operations).toEqual([
+      { updateOne: { filter: { sku: 'W1' }, update: { $inc: { stock: -5 } }, upsert: false } },
+    ]);
+  });
+
+  it('preserves order when collections interleave', () => {
+    const groups = groupMongoBulkOperations([
+      { operation: 'insertOne', collection: 'a', doc: {} },
+      { operation: 'insertOne', collection: 'b', doc: {} },
+      { operation: 'insertOne', collection: 'a', doc: {} },
+    ]);
+    expect(groups.map(g => g.collection)).toEqual(['a', 'b', 'a']);
+    expect(groups.map(g => g.indexes)).toEqual([[0], [1], [2]]);
+  });
+
+  it('expands insertMany into one model per document', () => {
+    const groups = groupMongoBulkOperations([
+      { operation: 'insertMany', collection: 'orders', docs: [{ n: 1 }, { n: 2 }] },
+      { operation: 'deleteMany', collection: 'orders', filter: { n: 0 } },
+    ]);
+    expect(groups[0]!.operations).toHaveLength(3);
+    expect(groups[0]!.indexes).toEqual([0, 0, 1]);
+  });
+});
+
+describe('resolveMongoFailureIndex', () => {
+  const group = groupMongoBulkOperations([
+    { operation: 'insertMany', collection: 'orders', docs: [{ n: 1 }, { n: 2 }] },
+    { operation: 'insertOne', collection: 'orders', doc: { n: 3 } },
+  ])[0]!;
+
+  it('maps the write error index back to the batch operation', () => {
+    expect(resolveMongoFailureIndex(group, { writeErrors: [{ index: 2 }] })).toBe(1);
+    expect(resolveMongoFailureIndex(group, { writeErrors: { index: 1 } })).toBe(0);
+  });
+
+  it('falls back to the first operation of the group', () => {
+    expect(resolveMongoFailureIndex(group, new Error('Transaction aborted'))).toBe(0);
+  });
+});
+
+describe('summarizeBatch', () => {
+  const receipt = (insertedCount: number, deletedCount: number) => createReceipt({
+    operation: 'insertOne',
+    collection: 'orders',
+    backend: 'sql',
+    startTime: Date.now(),
+    insertedCount,
+    deletedCount,
+  });
+
+  it('sums counts across receipts', () => {
+    const batch = summarizeBatch('sql', Date.now(), [receipt(2, 0), receipt(1, 3)]);
+    expect(batch.operation).toBe('batch');
+    expect(batch.insertedCount).toBe(3);
+    expect(batch.deletedCount).toBe(3);
+    expect(batch.success).toBe(true);
+    expect(batch.errors).toEqual([]);
+  });
+
+  it('concatenates inserted ids in batch order', () => {
+    const insert = (ids: unknown[]) => createReceipt({
+      operation: 'insertMany', collection: 'orders', backend: 'sql', startTime: Date.now(),
+      insertedCount: ids.length, insertedIds: ids,
+    });
+    const update = createReceipt({ operation: 'updateOne', collection: 'orders', backend: 'sql', startTime: Date.now() });
+    expect(summarizeBatch('sql', Date.now(), [insert([1, 2]), update, insert([3])]).insertedIds).toEqual([1, 2, 3]);
+    expect(summarizeBatch('sql', Date.now(), [insert([1]), receipt(1, 0)]).insertedIds).toBeUndefined();
+  });
+
+  it('marks the batch failed and reports the failing operation', () => {
+    const op: BatchOperation = { operation: 'insertOne', collection: 'orders', doc: { id: 1 } };
+    const failure = toBatchFailure('sql', 4, op, { code: '23505', message: 'duplicate key value' });
+    const batch = summarizeBatch('sql', Date.now(), [], [failure]);
+
+    expect(batch.success).toBe(false);
+    expect(batch.errors).toEqual([{
+      index: 4,
+      operation: 'insertOne',
+      collection: 'orders',
+      code: 'DUPLICATE_KEY',
+      message: failure.message,
+    }]);
+  });
+});
+
+describe('StrictDB.batch() on SQLite', () => {
+  let dir: string;
+  let db: StrictDB | undefined;
+
+  async function open(config: Partial<StrictDBConfig> = {}): Promise<StrictDB> {
+    db = await StrictDB.create({ uri: `sqlite://${join(dir, 'batch.db')}`, ...config });
+    return db;
+  }
+
+  async function openWithItems(config: Partial<StrictDBConfig> = {}): Promise<StrictDB> {
+    const conn = await open(config);
+    const raw = conn.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL)');
+    await raw.execute("INSERT INTO items (name) VALUES ('a'), ('b')");
+    return conn;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-batch-'));
+  });
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('blocks an empty-filter deleteMany before running any operation', async () => {
+    const conn = await openWithItems();
+    await expect(conn.batch([
+      { operation: 'insertOne', collection: 'items', doc: { name: 'c' } },
+      { operation: 'deleteMany', collection: 'items', filter: {} },
+    ])).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED', message: expect.stringContaining('Batch operation 1') });
+    expect(await conn.count('items')).toBe(2);
+  });
+
+  it('runs an empty-filter deleteMany that carries confirm', async () => {
+    const conn = await openWithItems();
+    const receipt = await conn.batch([
+      { operation: 'insertOne', collection: 'items', doc: { name: 'c' } },
+      { operation: 'deleteMany', collection: 'items', filter: {}, confirm: 'DELETE_ALL' },
+    ]);
+    expect(receipt.success).toBe(true);
+    expect(receipt.deletedCount).toBe(3);
+    expect(await conn.count('items')).toBe(0);
+  });
+
+  it('rejects the whole batch when one document fails schema validation', async () => {
+    const conn = await openWithItems({ schema: true });
+    conn.registerCollection({ name: 'items', schema: z.object({ name: z.string().min(1) }) });
+    await expect(conn.batch([
+      { operation: 'insertOne', collection: 'items', doc: { name: 'c' } },
+      { operation: 'insertOne', collection: 'items', doc: { name: '' } },
+    ])).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(await conn.count('items')).toBe(2);
+  });
+
+  it('keeps a concurrent single write out of a batch that rolls back', async () => {
+    const conn = await openWithItems();
+    const [batch, insert] = await Promise.allSettled([
+      conn.batch([
+        { operation: 'insertOne', collection: 'items', doc: { name: 'c' } },
+        { operation: 'insertOne', collection: 'items', doc: { id: 1, name: 'duplicate' } },
+      ]),
+      conn.insertOne('items', { name: 'd' }),
+    ]);
+    expect(batch).toMatchObject({ status: 'fulfilled', value: { success: false } });
+    expect(insert).toMatchObject({ status: 'fulfilled', value: { insertedCount: 1 } });
+    const names = (await conn.queryMany<{ name: string }>('items', {}, { limit: 10 })).map(item => item.name);
+    expect(names.sort()).toEqual(['a', 'b', 'd']);
+  });
+
+  it('rejects every batch on a read-only connection', async () => {
+    const conn = await open({ readOnly: true });
+    // The table does not exist — the read-only check fails before the driver is reached
+    await expect(conn.batch([
+      { operation: 'insertOne', collection: 'items', doc: { name: 'c' } },
+    ])).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED', message: expect.stringContaining('read-only') });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Describe Tests — Field inference from sampled MongoDB documents,
+ * index introspection and index-based example filters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ObjectId, Long, Decimal128 } from 'mongodb';
+import {
+  buildIndexedExampleFilter,
+  elasticIndexedFields,
+  groupIndexColumns,
+  inferFieldsFromSample,
+  parsePgIndexDef,
+} from '../src/describe.js';
+
+describe('inferFieldsFromSample', () => {
+  it('detects BSON types and required fields', () => {
+    const fields = inferFieldsFromSample([
+      { _id: new ObjectId(), name: 'a', createdAt: new Date(), tags: ['x'], score: Long.fromNumber(3) },
+      { _id: new ObjectId(), name: 'b', createdAt: new Date(), score: Decimal128.fromString('1.5') },
+    ]);
+    expect(fields).toEqual([
+      { name: '_id', type: 'objectId', required: true },
+      { name: 'name', type: 'string', required: true },
+      { name: 'createdAt', type: 'date', required: true },
+      { name: 'tags', type: 'array', required: false },
+      { name: 'score', type: 'number', required: true },
+    ]);
+  });
+
+  it('treats null values as not required', () => {
+    const [field] = inferFieldsFromSample([{ nickname: 'x' }, { nickname: null }]);
+    expect(field).toEqual({ name: 'nickname', type: 'string', required: false });
+  });
+
+  it('joins mixed types', () => {
+    const [field] = inferFieldsFromSample([{ zip: '02134' }, { zip: 2134 }]);
+    expect(field!.type).toBe('number|string');
+  });
+
+  it('lists subdocument fields as dot paths', () => {
+    const fields = inferFieldsFromSample([
+      { address: { city: 'Oslo', geo: { lat: 59.9 } } },
+      { address: { city: 'Bergen' } },
+    ]);
+    expect(fields.map(f => [f.name, f.type, f.required])).toEqual([
+      ['address', 'object', true],
+      ['address.city', 'string', true],
+      ['address.geo', 'object', false],
+      ['address.geo.lat', 'number', false],
+    ]);
+  });
+
+  it('reports low-cardinality strings as enums once enough values were seen', () => {
+    const docs = Array.from({ length: 30 }, (_, i) => ({ status: ['open', 'closed', 'pending'][i % 3], ref: `r${i}` }));
+    const [status, ref] = inferFieldsFromSample(docs);
+    expect(status!.enum).toEqual(['closed', 'open', 'pending']);
+    expect(ref!.enum).toBeUndefined();
+    expect(inferFieldsFromSample(docs.slice(0, 5))[0]!.enum).toBeUndefined();
+  });
+});
+
+describe('parsePgIndexDef', () => {
+  it('parses unique, compound and descending btree indexes', () => {
+    expect(parsePgIndexDef('CREATE UNIQUE INDEX users_pkey ON public.users USING btree (id)'))
+      .toEqual({ fields: { id: 1 }, unique: true });
+    expect(parsePgIndexDef('CREATE INDEX idx ON public.users USING btree (role, "createdAt" DESC NULLS LAST)'))
+      .toEqual({ fields: { role: 1, createdAt: -1 } });
+  });
+
+  it('keeps partial indexes and skips expression and non-btree indexes', () => {
+    expect(parsePgIndexDef('CREATE INDEX idx ON public.users USING btree (email) WHERE (deleted_at IS NULL)'))
+      .toEqual({ fields: { email: 1 } });
+    expect(parsePgIndexDef('CREATE INDEX idx ON public.users USING btree (lower((email)::text))')).toBeNull();
+    expect(parsePgIndexDef('CREATE INDEX idx ON public.users USING gin (tags)')).toBeNull();
+  });
+});
+
+describe('groupIndexColumns', () => {
+  it('groups catalog rows by index in key order', () => {
+    expect(groupIndexColumns([
+      { name: 'idx_role_age', column_name: 'role', descending: 0, is_unique: 0 },
+      { name: 'idx_role_age', column_name: 'age', descending: 1, is_unique: 0 },
+      { name: 'uq_email', column_name: 'email', descending: false, is_unique: true },
+    ])).toEqual([
+      { fields: { role: 1, age: -1 } },
+      { fields: { email: 1 }, unique: true },
+    ]);
+  });
+
+  it('drops indexes with an expression column', () => {
+    expect(groupIndexColumns([
+      { name: 'idx_expr', column_name: 'role', descending: 0, is_unique: 0 },
+      { name: 'idx_expr', column_name: null, descending: 0, is_unique: 0 },
+    ])).toEqual([]);
+  });
+});
+
+describe('elasticIndexedFields', () => {
+  it('lists searchable leaf fields', () => {
+    expect(elasticIndexedFields({
+      email: { type: 'keyword' },
+      notes: { type: 'text', index: false },
+      address: { properties: { city: { type: 'keyword' } } },
+      age: { type: 'integer' },
+    })).toEqual([{ fields: { email: 1 } }, { fields: { age: 1 } }]);
+  });
+});
+
+describe('buildIndexedExampleFilter', () => {
+  it('filters on the leading fields of the first usable index', () => {
+    const fields = [
+      { name: 'id', type: 'integer' },
+      { name: 'role', type: 'character varying' },
+      { name: 'age', type: 'integer' },
+      { name: 'bio', type: 'text' },
+    ];
+    expect(buildIndexedExampleFilter(fields, [
+      { fields: { id: 1 } },
+      { fields: { role: 1, age: -1 } },
+    ], 'sql')).toEqual({ role: 'example', age: { $gte: 0 } });
+  });
+
+  it('stops at the first field it has no example for', () => {
+    const fields = [
+      { name: 'createdAt', type: 'date' },
+      { name: 'status', type: 'string', enum: ['active', 'banned'] },
+      { name: 'plan', type: 'string' },
+    ];
+    expect(buildIndexedExampleFilter(fields, [
+      { fields: { createdAt: -1, status: 1 } },
+      { fields: { status: 1, createdAt: -1 } },
+    ], 'mongo')).toEqual({ status: 'active' });
+  });
+
+  it('maps Elasticsearch types and returns {} without indexes', () => {
+    const fields = [{ name: 'age', type: 'long' }];
+    expect(buildIndexedExampleFilter(fields, [{ fields: { age: 1 } }], 'elastic')).toEqual({ age: { $gte: 0 } });
+    expect(buildIndexedExampleFilter(fields, [], 'elastic')).toEqual({});
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Schema Drift Tests — Registered schemas against live columns, mappings and
+ * indexes, and checkSchema()/schemaCheck against a temporary SQLite file
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { SchemaRegistry, StrictDB } from '../src/index.js';
+import type { SchemaDriftReport, StrictDBConfig } from '../src/index.js';
+import { buildDriftReport, isInSync, summarizeDrift } from '../src/drift.js';
+import type { DriftInput } from '../src/drift.js';
+
+const schema = z.object({
+  email: z.string().max(255),
+  age: z.number().int().optional(),
+  active: z.boolean(),
+});
+const fields = [
+  { name: 'email', type: 'string', required: true },
+  { name: 'age', type: 'number', required: false },
+  { name: 'active', type: 'boolean', required: true },
+];
+const indexes = [{ collection: 'users', fields: { email: 1 as const }, unique: true }];
+
+function input(overrides: Partial<DriftInput>): DriftInput {
+  return { collection: 'users', backend: 'sql', dialect: 'pg', schema, fields, live: null, indexes, ...overrides };
+}
+
+describe('buildDriftReport', () => {
+  it('reports a missing table with every field and index missing', () => {
+    const report = buildDriftReport(input({}));
+    expect(report.exists).toBe(false);
+    expect(report.inSync).toBe(false);
+    expect(report.missingFields).toEqual(['email', 'age', 'active']);
+    expect(report.missingIndexes).toEqual(indexes);
+    expect(summarizeDrift(report)).toBe('does not exist');
+  });
+
+  it('is in sync when SQL types match by family', () => {
+    const report = buildDriftReport(input({
+      live: [
+        { name: 'id', type: 'integer', required: true },
+        { name: 'email', type: 'character varying', required: true },
+        { name: 'age', type: 'integer', required: false },
+        { name: 'active', type: 'boolean', required: true },
+      ],
+      liveIndexes: [{ fields: { email: 1 } }],
+    }));
+    expect(report.inSync).toBe(true);
+  });
+
+  it('lists missing and extra columns, type and nullability mismatches', () => {
+    const report = buildDriftReport(input({
+      live: [
+        { name: 'email', type: 'text', required: false },
+        { name: 'age', type: 'text', required: false },
+        { name: 'legacy', type: 'text', required: false },
+      ],
+    }));
+    expect(report.missingFields).toEqual(['active']);
+    expect(report.extraFields).toEqual(['legacy']);
+    expect(report.typeMismatches).toEqual([{ field: 'age', expected: 'INTEGER', actual: 'text' }]);
+    expect(report.nullabilityMismatches).toEqual([{ field: 'email', expected: 'required', actual: 'optional' }]);
+    expect(summarizeDrift(report)).toContain('missing fields: active');
+  });
+
+  it('only checks indexes when the adapter lists them', () => {
+    const live = fields.map(f => ({ name: f.name, type: f.type === 'string' ? 'text' : f.type === 'number' ? 'integer' : 'boolean', required: f.required }));
+    expect(buildDriftReport(input({ live })).missingIndexes).toEqual([]);
+    expect(buildDriftReport(input({ live, liveIndexes: [] })).missingIndexes).toEqual(indexes);
+  });
+
+  it('compares Elasticsearch mapping types and ignores required flags', () => {
+    const report = buildDriftReport(input({
+      backend: 'elastic',
+      live: [
+        { name: 'email', type: 'keyword', required: false },
+        { name: 'age', type: 'long', required: false },
+        { name: 'active', type: 'boolean', required: false },
+      ],
+    }));
+    expect(report.typeMismatches).toEqual([{ field: 'age', expected: 'integer', actual: 'long' }]);
+    expect(report.nullabilityMismatches).toEqual([]);
+  });
+
+  it('flags MongoDB fields the schema requires but some documents lack', () => {
+    const report = buildDriftReport(input({
+      backend: 'mongo',
+      live: [
+        { name: '_id', type: 'objectId', required: true },
+        { name: 'email', type: 'string', required: false },
+        { name: 'age', type: 'number', required: true },
+        { name: 'active', type: 'boolean', required: true },
+        { name: 'active.since', type: 'date', required: false },
+      ],
+    }));
+    expect(report.extraFields).toEqual([]);
+    expect(report.nullabilityMismatches).toEqual([{ field: 'email', expected: 'required', actual: 'optional' }]);
+  });
+
+  it('does not count fields StrictDB manages as extra', () => {
+    const live = [
+      { name: '_id', type: 'objectId', required: true },
+      { name: 'email', type: 'string', required: true },
+      { name: 'age', type: 'number', required: false },
+      { name: 'active', type: 'boolean', required: true },
+      { name: 'created_at', type: 'date', required: true },
+      { name: 'deleted_at', type: 'date', required: false },
+      { name: 'tenantId', type: 'string', required: true },
+    ];
+    expect(buildDriftReport(input({ backend: 'mongo', live })).extraFields).toEqual(['created_at', 'deleted_at', 'tenantId']);
+    const report = buildDriftReport(input({ backend: 'mongo', live, managedFields: ['created_at', 'updated_at', 'deleted_at', 'tenantId'] }));
+    expect(report.extraFields).toEqual([]);
+    expect(report.inSync).toBe(true);
+  });
+
+  it('counts missing indexes against inSync', () => {
+    const report = buildDriftReport(input({
+      live: [
+        { name: 'id', type: 'integer', required: true },
+        { name: 'email', type: 'character varying', required: true },
+        { name: 'age', type: 'integer', required: false },
+        { name: 'active', type: 'boolean', required: true },
+      ],
+      liveIndexes: [],
+    }));
+    expect(report.inSync).toBe(false);
+    expect(isInSync({ ...report, missingIndexes: [] })).toBe(true);
+  });
+
+  it('only reports required MongoDB fields missing from the sample', () => {
+    const sampled = buildDriftReport(input({
+      backend: 'mongo',
+      live: [{ name: '_id', type: 'objectId', required: true }, { name: 'email', type: 'string', required: true }],
+    }));
+    expect(sampled.missingFields).toEqual(['active']);
+
+    const empty = buildDriftReport(input({ backend: 'mongo', live: [] }));
+    expect(empty.exists).toBe(true);
+    expect(empty.inSync).toBe(true);
+  });
+});
+
+describe('checkSchema() and schemaCheck on SQLite', () => {
+  let dir: string;
+  let db: StrictDB | undefined;
+  const uri = () => `sqlite://${join(dir, 'test.db')}`;
+
+  /** A users table created from the schema, plus a column the schema does not declare */
+  async function seed(): Promise<SchemaRegistry> {
+    const registry = new SchemaRegistry();
+    registry.register({ name: 'users', schema });
+    const setup = await StrictDB.create({ uri: uri(), registry });
+    await setup.ensureCollections();
+    await (setup.raw() as { execute(sql: string): Promise<unknown> }).execute('ALTER TABLE users ADD COLUMN legacy TEXT');
+    await setup.close();
+    return registry;
+  }
+
+  async function open(config: Partial<StrictDBConfig> = {}): Promise<StrictDB> {
+    db = await StrictDB.create({ uri: uri(), ...config });
+    return db;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-drift-'));
+  });
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports undeclared columns, unknown tables and missing indexes', async () => {
+    const registry = await seed();
+    registry.register({ name: 'teams', schema: z.object({ name: z.string() }) });
+    registry.registerIndex({ collection: 'users', fields: { email: 1 } });
+    const conn = await open({ registry });
+
+    const [users, teams] = await conn.checkSchema();
+    expect(users).toMatchObject({ exists: true, inSync: false, missingFields: [], extraFields: ['legacy'], typeMismatches: [] });
+    expect(users!.missingIndexes).toEqual([{ collection: 'users', fields: { email: 1 } }]);
+    expect(teams).toMatchObject({ exists: false, missingFields: ['name'] });
+  });
+
+  it('does not count timestamp columns as extra', async () => {
+    const registry = await seed();
+    const conn = await open({ registry, timestamps: true });
+    const raw = conn.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute('ALTER TABLE users ADD COLUMN created_at TEXT');
+    await raw.execute('ALTER TABLE users ADD COLUMN updated_at TEXT');
+    expect((await conn.checkSchema('users'))[0]!.extraFields).toEqual(['legacy']);
+  });
+
+  it('throws SCHEMA_MISMATCH from create() when schemaCheck is fail', async () => {
+    const registry = await seed();
+    await expect(StrictDB.create({ uri: uri(), registry, schemaCheck: 'fail' }))
+      .rejects.toMatchObject({ code: 'SCHEMA_MISMATCH', collection: 'users' });
+  });
+
+  it('emits schema-drift for startup drift to listeners added after create()', async () => {
+    const registry = await seed();
+    const conn = await open({ registry, schemaCheck: 'warn' });
+    const reports: SchemaDriftReport[] = [];
+    conn.on('schema-drift', ({ report }) => reports.push(report));
+    await new Promise(resolve => setImmediate(resolve));
+    expect(reports.map(r => r.extraFields)).toEqual([['legacy']]);
+  });
+
+  it('checks again after ensureCollections(), but only fields', async () => {
+    const registry = await seed();
+    registry.registerIndex({ collection: 'users', fields: { email: 1 } });
+    const conn = await open({ registry, schemaCheck: 'warn' });
+    await new Promise(resolve => setImmediate(resolve));
+    const reports: SchemaDriftReport[] = [];
+    conn.on('schema-drift', ({ report }) => reports.push(report));
+
+    await conn.ensureCollections();
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ collection: 'users', extraFields: ['legacy'], missingIndexes: [] });
+  });
+});
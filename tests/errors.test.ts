@@ -56,6 +56,12 @@ describe('mapMongoError', () => {
     expect(err.fix).toContain('updateOne');
   });
 
+  it('maps a $jsonSchema rejection to VALIDATION_ERROR', () => {
+    const err = mapMongoError({ code: 121, message: 'Document failed validation' }, 'users', 'insertOne');
+    expect(err.code).toBe('VALIDATION_ERROR');
+    expect(err.fix).toContain("db.describe('users')");
+  });
+
   it('maps topology closed to CONNECTION_LOST', () => {
     const err = mapMongoError({ message: 'topology was destroyed' }, 'users');
     expect(err.code).toBe('CONNECTION_LOST');
@@ -108,6 +114,13 @@ describe('mapSqlError', () => {
     expect(err.retryable).toBe(true);
   });
 
+  it('maps dropped connections to CONNECTION_LOST', () => {
+    expect(mapSqlError({ code: 'ECONNRESET', message: 'read ECONNRESET' }).code).toBe('CONNECTION_LOST');
+    expect(mapSqlError({ code: '57P01', message: 'terminating connection due to administrator command' }).code).toBe('CONNECTION_LOST');
+    expect(mapSqlError({ code: 'PROTOCOL_CONNECTION_LOST', message: 'Connection lost: The server closed the connection.' }).code).toBe('CONNECTION_LOST');
+    expect(mapSqlError({ message: 'Connection terminated unexpectedly' }).retryable).toBe(true);
+  });
+
   it('maps PG 57014 to TIMEOUT', () => {
     const err = mapSqlError({ code: '57014', message: 'canceling statement due to statement timeout' });
     expect(err.code).toBe('TIMEOUT');
@@ -152,6 +165,12 @@ describe('mapElasticError', () => {
     expect(err.retryable).toBe(true);
   });
 
+  it('maps dead nodes and dropped sockets to CONNECTION_LOST', () => {
+    expect(mapElasticError({ name: 'NoLivingConnectionsError', message: 'There are no living connections' }).code).toBe('CONNECTION_LOST');
+    expect(mapElasticError({ message: 'socket hang up' }).code).toBe('CONNECTION_LOST');
+    expect(mapElasticError({ message: 'read ECONNRESET' }).retryable).toBe(true);
+  });
+
   it('maps TimeoutError to TIMEOUT', () => {
     const err = mapElasticError({ message: 'TimeoutError: Request timed out' });
     expect(err.code).toBe('TIMEOUT');
@@ -196,6 +215,20 @@ describe('Self-correcting helpers', () => {
     expect(err.fix).toContain('$match is a MongoDB aggregation concept');
   });
 
+  it('suggests db.aggregate for aggregate() and $group', () => {
+    expect(unknownMethodError('aggregate').fix).toContain('db.aggregate(');
+    expect(unknownOperatorError('$group').fix).toContain('db.aggregate(');
+  });
+
+  it('suggests the returning variants for findOneAndUpdate() and findOneAndDelete()', () => {
+    expect(unknownMethodError('findOneAndUpdate').fix).toContain('db.updateOneAndReturn(');
+    expect(unknownMethodError('findOneAndDelete').fix).toContain('db.deleteOneAndReturn(');
+  });
+
+  it('suggests getById for findById()', () => {
+    expect(unknownMethodError('findById').fix).toContain('db.getById(');
+  });
+
   it('suggests typo correction for collection names', () => {
     const err = collectionNotFoundError('usres', ['users', 'orders', 'products']);
     expect(err.fix).toContain('Did you mean "users"');
@@ -0,0 +1,151 @@
+/**
+ * Explain Tests — plan statements and per-backend plan summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildExplainSQL,
+  mssqlShowplan,
+  summarizeElasticProfile,
+  summarizeMongoPlan,
+  summarizeSqlPlan,
+} from '../src/explain.js';
+
+describe('buildExplainSQL', () => {
+  const select = 'SELECT * FROM "users" WHERE "role" = $1';
+
+  it('wraps the query in each dialect\'s plan statement', () => {
+    expect(buildExplainSQL(select, 'pg')).toBe(`EXPLAIN (ANALYZE, FORMAT JSON) ${select}`);
+    expect(buildExplainSQL(select, 'mysql2')).toBe(`EXPLAIN ${select}`);
+    expect(buildExplainSQL(select, 'sqlite')).toBe(`EXPLAIN QUERY PLAN ${select}`);
+  });
+
+  it('turns MSSQL statistics XML on for the query only', () => {
+    expect(buildExplainSQL(select, 'mssql')).toBe(`SET STATISTICS XML ON; ${select}; SET STATISTICS XML OFF;`);
+  });
+});
+
+describe('summarizeMongoPlan', () => {
+  it('flags a collection scan', () => {
+    const summary = summarizeMongoPlan({
+      queryPlanner: { winningPlan: { stage: 'LIMIT', inputStage: { stage: 'COLLSCAN' } } },
+      executionStats: { nReturned: 3, totalDocsExamined: 5000 },
+    });
+    expect(summary.usesIndex).toBe(false);
+    expect(summary.docsExamined).toBe(5000);
+    expect(summary.estimatedRows).toBe(3);
+    expect(summary.warnings[0]).toMatch(/Collection scan/);
+  });
+
+  it('reports the index of an IXSCAN under a $cursor stage', () => {
+    const summary = summarizeMongoPlan({
+      stages: [
+        {
+          $cursor: {
+            queryPlanner: { winningPlan: { stage: 'FETCH', inputStage: { stage: 'IXSCAN', indexName: 'role_1' } } },
+            executionStats: { nReturned: 10, totalDocsExamined: 10 },
+          },
+        },
+        { $group: {} },
+      ],
+    });
+    expect(summary).toEqual({ usesIndex: true, indexName: 'role_1', docsExamined: 10, estimatedRows: 10, warnings: [] });
+  });
+
+  it('reads the slot-based engine queryPlan and warns on in-memory sorts', () => {
+    const summary = summarizeMongoPlan({
+      queryPlanner: {
+        winningPlan: { queryPlan: { stage: 'SORT', inputStage: { stage: 'FETCH', inputStage: { stage: 'IXSCAN', indexName: 'status_1' } } } },
+      },
+    });
+    expect(summary.indexName).toBe('status_1');
+    expect(summary.warnings).toEqual([expect.stringMatching(/In-memory sort/)]);
+  });
+});
+
+describe('summarizeSqlPlan', () => {
+  it('summarizes a PostgreSQL JSON plan', () => {
+    const summary = summarizeSqlPlan('pg', [{
+      'QUERY PLAN': [{
+        Plan: {
+          'Node Type': 'Limit',
+          'Plan Rows': 50,
+          Plans: [{ 'Node Type': 'Seq Scan', 'Relation Name': 'users', 'Actual Rows': 50, 'Rows Removed by Filter': 950, 'Actual Loops': 1 }],
+        },
+      }],
+    }]);
+    expect(summary.usesIndex).toBe(false);
+    expect(summary.docsExamined).toBe(1000);
+    expect(summary.estimatedRows).toBe(50);
+    expect(summary.warnings[0]).toMatch(/Sequential scan on "users"/);
+  });
+
+  it('finds the index in a PostgreSQL plan given as text', () => {
+    const plan = JSON.stringify([{ Plan: { 'Node Type': 'Index Scan', 'Index Name': 'users_email_key', 'Plan Rows': 1 } }]);
+    const summary = summarizeSqlPlan('pg', [{ 'QUERY PLAN': plan }]);
+    expect(summary).toMatchObject({ usesIndex: true, indexName: 'users_email_key', estimatedRows: 1, warnings: [] });
+  });
+
+  it('summarizes MySQL EXPLAIN rows', () => {
+    const scan = summarizeSqlPlan('mysql2', [{ table: 'users', type: 'ALL', key: null, rows: 1000, filtered: 10, Extra: 'Using where; Using filesort' }]);
+    expect(scan.usesIndex).toBe(false);
+    expect(scan.estimatedRows).toBe(100);
+    expect(scan.warnings).toHaveLength(2);
+
+    const ref = summarizeSqlPlan('mysql2', [{ table: 'users', type: 'ref', key: 'idx_role', rows: 12, filtered: 100, Extra: null }]);
+    expect(ref).toMatchObject({ usesIndex: true, indexName: 'idx_role', estimatedRows: 12, warnings: [] });
+  });
+
+  it('summarizes SQLite EXPLAIN QUERY PLAN rows', () => {
+    expect(summarizeSqlPlan('sqlite', [{ detail: 'SEARCH users USING INDEX idx_role (role=?)' }]))
+      .toEqual({ usesIndex: true, indexName: 'idx_role', warnings: [] });
+    expect(summarizeSqlPlan('sqlite', [{ detail: 'SEARCH users USING INTEGER PRIMARY KEY (rowid=?)' }]).usesIndex).toBe(true);
+
+    const scan = summarizeSqlPlan('sqlite', [{ detail: 'SCAN TABLE users' }, { detail: 'USE TEMP B-TREE FOR ORDER BY' }]);
+    expect(scan.usesIndex).toBe(false);
+    expect(scan.warnings[0]).toMatch(/Full table scan on "users"/);
+    expect(scan.warnings[1]).toMatch(/Temporary sort/);
+  });
+
+  it('summarizes the MSSQL showplan from the last result set', () => {
+    const xml = '<ShowPlanXML><RelOp NodeId="0" PhysicalOp="Top" EstimateRows="10">'
+      + '<RelOp NodeId="1" PhysicalOp="Index Seek" EstimateRows="10"><RunTimeInformation><RunTimeCountersPerThread ActualRows="10" ActualRowsRead="10" /></RunTimeInformation>'
+      + '<Object Database="[app]" Table="[users]" Index="[IX_users_role]" /></RelOp></RelOp></ShowPlanXML>';
+    const resultSets = [[{ id: 1 }], [{ 'Microsoft SQL Server 2005 XML Showplan': xml }]];
+    expect(mssqlShowplan(resultSets)).toBe(xml);
+    expect(summarizeSqlPlan('mssql', [{ id: 1 }], resultSets)).toEqual({
+      usesIndex: true,
+      indexName: 'IX_users_role',
+      docsExamined: 10,
+      estimatedRows: 10,
+      warnings: [],
+    });
+  });
+
+  it('flags MSSQL table scans', () => {
+    const xml = '<RelOp NodeId="0" PhysicalOp="Clustered Index Scan" EstimateRows="500"><Object Index="[PK_users]" /></RelOp>';
+    const summary = summarizeSqlPlan('mssql', [], [[], [{ plan: xml }]]);
+    expect(summary.usesIndex).toBe(false);
+    expect(summary.indexName).toBeUndefined();
+    expect(summary.warnings[0]).toMatch(/Full table scan/);
+  });
+});
+
+describe('summarizeElasticProfile', () => {
+  const profile = (query: Record<string, unknown>) => ({
+    hits: { total: { value: 42, relation: 'eq' } },
+    profile: { shards: [{ searches: [{ query: [query] }] }] },
+  });
+
+  it('treats term queries as indexed', () => {
+    const summary = summarizeElasticProfile(profile({ type: 'BooleanQuery', children: [{ type: 'TermQuery' }] }));
+    expect(summary).toEqual({ usesIndex: true, estimatedRows: 42, warnings: [] });
+  });
+
+  it('flags match_all and script queries', () => {
+    expect(summarizeElasticProfile(profile({ type: 'MatchAllDocsQuery' })).warnings[0]).toMatch(/every document/);
+    const script = summarizeElasticProfile(profile({ type: 'BooleanQuery', children: [{ type: 'ScriptQuery' }] }));
+    expect(script.usesIndex).toBe(false);
+    expect(script.warnings[0]).toMatch(/Script query/);
+  });
+});
@@ -16,6 +16,12 @@ import {
   buildUpdateSQL,
   buildDeleteSQL,
   buildCountSQL,
+  buildDistinctSQL,
+  buildElasticDistinctBody,
+  buildMssqlDeleteOutputSQL,
+  buildMssqlUpdateOutputSQL,
+  buildUpsertDocument,
+  elasticTermsField,
   getExcludedFields,
 } from '../src/filter-translator.js';
 
@@ -436,6 +442,20 @@ describe('buildInsertSQL', () => {
     expect(result.sql).toBe('INSERT INTO "users" ("name", "age") VALUES ($1, $2)');
     expect(result.values).toEqual(['Tim', 30]);
   });
+
+  it('returns key columns with RETURNING', () => {
+    const result = buildInsertSQL('users', { name: 'Tim' }, 'sqlite', ['id']);
+    expect(result.sql).toBe('INSERT INTO "users" ("name") VALUES (?) RETURNING "id"');
+  });
+
+  it('returns key columns with OUTPUT INSERTED on MSSQL', () => {
+    const result = buildInsertSQL('users', { name: 'Tim' }, 'mssql', ['tenantId', 'id']);
+    expect(result.sql).toBe('INSERT INTO "users" ("name") OUTPUT INSERTED."tenantId", INSERTED."id" VALUES (@p1)');
+  });
+
+  it('ignores returning columns on MySQL', () => {
+    expect(buildInsertSQL('users', { name: 'Tim' }, 'mysql2', ['id']).sql).toBe('INSERT INTO "users" ("name") VALUES (?)');
+  });
 });
 
 describe('buildBatchInsertSQL', () => {
@@ -447,6 +467,11 @@ describe('buildBatchInsertSQL', () => {
     expect(result.sql).toBe('INSERT INTO "users" ("name", "age") VALUES ($1, $2), ($3, $4)');
     expect(result.values).toEqual(['Tim', 30, 'Bob', 25]);
   });
+
+  it('returns the key of every row', () => {
+    const result = buildBatchInsertSQL('users', [{ name: 'Tim' }, { name: 'Bob' }], 'pg', ['id']);
+    expect(result.sql).toBe('INSERT INTO "users" ("name") VALUES ($1), ($2) RETURNING "id"');
+  });
 });
 
 describe('buildUpdateSQL', () => {
@@ -479,8 +504,95 @@ describe('buildCountSQL', () => {
   });
 });
 
+describe('buildDistinctSQL', () => {
+  it('builds SELECT DISTINCT with filter and limit', () => {
+    const result = buildDistinctSQL('users', 'role', { active: true }, { limit: 50 });
+    expect(result.sql).toBe('SELECT DISTINCT "role" FROM "users" WHERE "active" = $1 ORDER BY "role" LIMIT 50');
+    expect(result.values).toEqual([true]);
+  });
+
+  it('uses TOP(n) on MSSQL', () => {
+    const result = buildDistinctSQL('users', 'role', {}, { limit: 5, dialect: 'mssql' });
+    expect(result.sql).toBe('SELECT DISTINCT TOP(5) "role" FROM "users" ORDER BY "role"');
+  });
+
+  it('binds the filter with each dialect\'s placeholders', () => {
+    expect(buildDistinctSQL('users', 'role', { active: true }, { dialect: 'mysql2' }).sql)
+      .toBe('SELECT DISTINCT "role" FROM "users" WHERE "active" = ? ORDER BY "role"');
+    expect(buildDistinctSQL('users', 'role', { active: true }, { limit: 3, dialect: 'sqlite' }).sql)
+      .toBe('SELECT DISTINCT "role" FROM "users" WHERE "active" = ? ORDER BY "role" LIMIT 3');
+    expect(buildDistinctSQL('users', 'role', { active: true }, { limit: 3, dialect: 'mssql' }).sql)
+      .toBe('SELECT DISTINCT TOP(3) "role" FROM "users" WHERE "active" = @p1 ORDER BY "role"');
+  });
+});
+
+describe('buildElasticDistinctBody', () => {
+  it('builds a terms aggregation sorted by key', () => {
+    expect(buildElasticDistinctBody('role', { active: true }, 50)).toEqual({
+      query: translateToElastic({ active: true }),
+      size: 0,
+      aggs: { values: { terms: { field: 'role', size: 50, order: { _key: 'asc' } } } },
+    });
+  });
+});
+
+describe('elasticTermsField', () => {
+  const properties = {
+    role: { type: 'keyword' },
+    title: { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } },
+    body: { type: 'text' },
+    address: { properties: { city: { type: 'text', fields: { raw: { type: 'keyword' } } } } },
+  };
+
+  it('keeps keyword and unmapped fields', () => {
+    expect(elasticTermsField('role', properties)).toBe('role');
+    expect(elasticTermsField('missing', properties)).toBe('missing');
+  });
+
+  it('uses the keyword sub-field of a text field', () => {
+    expect(elasticTermsField('title', properties)).toBe('title.keyword');
+    expect(elasticTermsField('address.city', properties)).toBe('address.city.raw');
+  });
+
+  it('returns null for a text field without a keyword sub-field', () => {
+    expect(elasticTermsField('body', properties)).toBeNull();
+  });
+});
+
 // ─── MSSQL SELECT Syntax ──────────────────────────────────────────────────────
 
+describe('buildUpsertDocument', () => {
+  it('merges filter equality fields with $set', () => {
+    expect(buildUpsertDocument(
+      { email: 'tim@example.com', age: { $gte: 18 }, $or: [{ a: 1 }] },
+      { $set: { name: 'Tim' }, $inc: { logins: 1 } },
+    )).toEqual({ email: 'tim@example.com', name: 'Tim' });
+  });
+});
+
+describe('MSSQL OUTPUT statements', () => {
+  it('updates the first match and outputs the new row', () => {
+    const result = buildMssqlUpdateOutputSQL('jobs', { status: 'pending' }, { $set: { status: 'running' } }, {
+      sort: { createdAt: 1 },
+    });
+    expect(result.sql).toBe(
+      'WITH "target" AS (SELECT TOP(1) * FROM "jobs" WHERE "status" = @p1 ORDER BY "createdAt" ASC) UPDATE "target" SET "status" = @p2 OUTPUT INSERTED.*',
+    );
+    expect(result.values).toEqual(['pending', 'running']);
+  });
+
+  it('outputs the old row for returnDocument: before', () => {
+    const result = buildMssqlUpdateOutputSQL('counters', { name: 'orders' }, { $inc: { seq: 1 } }, { returnDocument: 'before' });
+    expect(result.sql).toContain('SET "seq" = "seq" + @p2 OUTPUT DELETED.*');
+  });
+
+  it('deletes the first match and outputs it', () => {
+    const result = buildMssqlDeleteOutputSQL('jobs', { status: 'done' });
+    expect(result.sql).toBe('WITH "target" AS (SELECT TOP(1) * FROM "jobs" WHERE "status" = @p1) DELETE FROM "target" OUTPUT DELETED.*');
+    expect(result.values).toEqual(['done']);
+  });
+});
+
 describe('buildSelectSQL — MSSQL dialect', () => {
   it('uses TOP(n) for limit only', () => {
     const result = buildSelectSQL('users', { role: 'admin' }, { limit: 10, dialect: 'mssql' });
@@ -2,8 +2,13 @@
  * Guardrail Tests — Dangerous operation protection
  */
 
-import { describe, it, expect, vi } from 'vitest';
-import { checkGuardrails } from '../src/guardrails.js';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { StrictDB } from '../src/index.js';
+import { checkGuardrails, checkIndexCoverage, checkPolicy, checkReadOnly } from '../src/guardrails.js';
+import type { GuardrailPolicy, GuardrailRule, GuardrailRuleContext } from '../src/types.js';
 import { StrictDBEventEmitter } from '../src/events.js';
 import { StrictDBError } from '../src/errors.js';
 
@@ -86,3 +91,269 @@ describe('checkGuardrails', () => {
     }
   });
 });
+
+describe('restore and purge guardrails', () => {
+  it('require a confirm for an empty filter', () => {
+    expect(() => checkGuardrails(makeCtx(), 'restore', 'posts', {})).toThrow(/UPDATE_ALL/);
+    expect(() => checkGuardrails(makeCtx(), 'purge', 'posts', {})).toThrow(/DELETE_ALL/);
+    expect(() => checkGuardrails(makeCtx(), 'purge', 'posts', {}, { confirm: 'DELETE_ALL' })).not.toThrow();
+    expect(() => checkGuardrails(makeCtx(), 'restore', 'posts', { author: 'a' })).not.toThrow();
+  });
+});
+
+describe('checkReadOnly', () => {
+  it('blocks any operation on a read-only connection and emits guardrail-blocked', () => {
+    const ctx = makeCtx();
+    const handler = vi.fn();
+    ctx.emitter.on('guardrail-blocked', handler);
+
+    expect(() => checkReadOnly(ctx, 'insertOne', 'users')).toThrow(/read-only/);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ collection: 'users', operation: 'insertOne' }));
+  });
+
+  it('does nothing when the connection is writable', () => {
+    const ctx = { enabled: false, emitter: new StrictDBEventEmitter() };
+    expect(() => checkReadOnly(ctx, 'deleteMany', 'users')).not.toThrow();
+  });
+});
+
+describe('checkIndexCoverage', () => {
+  const indexes: Array<Record<string, 1 | -1>> = [{ _id: 1 }, { role: 1, createdAt: -1 }];
+
+  function warnCtx() {
+    const ctx = { mode: 'warn' as const, emitter: new StrictDBEventEmitter() };
+    const handler = vi.fn();
+    ctx.emitter.on('guardrail-warning', handler);
+    return { ctx, handler };
+  }
+
+  it('passes filters led by an indexed field', () => {
+    const { ctx, handler } = warnCtx();
+    checkIndexCoverage(ctx, 'queryMany', 'users', { role: 'admin', name: 'Tim' }, undefined, indexes);
+    checkIndexCoverage(ctx, 'queryMany', 'users', {}, undefined, indexes);
+    checkIndexCoverage(ctx, 'queryMany', 'users', { $or: [{ _id: 'a' }, { role: 'admin' }] }, undefined, indexes);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('warns on an unindexed filter and suggests the index', () => {
+    const { ctx, handler } = warnCtx();
+    checkIndexCoverage(ctx, 'queryMany', 'users', { email: 'a@b.c', age: { $gt: 30 } }, undefined, indexes, 50000);
+    expect(handler).toHaveBeenCalledWith({
+      collection: 'users',
+      operation: 'queryMany',
+      reason: expect.stringContaining('~50000 documents'),
+      fix: "Register and create an index: db.registerIndex({ collection: 'users', fields: { email: 1, age: 1 } }); await db.ensureIndexes();",
+    });
+  });
+
+  it('requires every $or branch to be indexed', () => {
+    const { ctx, handler } = warnCtx();
+    checkIndexCoverage(ctx, 'count', 'users', { $or: [{ role: 'admin' }, { email: 'a@b.c' }] }, undefined, indexes);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('accepts a sort that follows the index after equality fields', () => {
+    const { ctx, handler } = warnCtx();
+    checkIndexCoverage(ctx, 'queryMany', 'users', { role: 'admin' }, { createdAt: -1 }, indexes);
+    expect(handler).not.toHaveBeenCalled();
+
+    checkIndexCoverage(ctx, 'queryMany', 'users', { role: 'admin' }, { name: 1 }, indexes);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({
+      fix: expect.stringContaining('fields: { role: 1, name: 1 }'),
+    }));
+  });
+
+  it('throws GUARDRAIL_BLOCKED in block mode', () => {
+    const ctx = { mode: 'block' as const, emitter: new StrictDBEventEmitter() };
+    const blocked = vi.fn();
+    ctx.emitter.on('guardrail-blocked', blocked);
+    try {
+      checkIndexCoverage(ctx, 'queryOne', 'orders', { status: 'open' }, undefined, indexes);
+      expect.fail('Should have thrown');
+    } catch (e) {
+      const err = e as StrictDBError;
+      expect(err.code).toBe('GUARDRAIL_BLOCKED');
+      expect(err.fix).toContain("db.registerIndex({ collection: 'orders', fields: { status: 1 } })");
+    }
+    expect(blocked).toHaveBeenCalledOnce();
+  });
+});
+
+describe('checkPolicy', () => {
+  function policyCtx(policy: GuardrailPolicy, rules: GuardrailRule[] = []) {
+    return { policy, rules, emitter: new StrictDBEventEmitter() };
+  }
+
+  function op(context: Partial<GuardrailRuleContext>): GuardrailRuleContext {
+    return { operation: 'queryMany', collection: 'users', backend: 'mongo', filter: {}, ...context };
+  }
+
+  function reasonOf(fn: () => void): string {
+    try {
+      fn();
+    } catch (e) {
+      expect((e as StrictDBError).code).toBe('GUARDRAIL_BLOCKED');
+      return (e as StrictDBError).message;
+    }
+    return '';
+  }
+
+  it('blocks forbidden operations per collection', () => {
+    const ctx = policyCtx({ collections: { ledger: { forbid: ['deleteOne', 'deleteMany'] } } });
+    expect(reasonOf(() => checkPolicy(ctx, op({ operation: 'deleteMany', collection: 'ledger' })))).toMatch(/forbidden on "ledger"/);
+    expect(() => checkPolicy(ctx, op({ operation: 'deleteMany', collection: 'users' }))).not.toThrow();
+  });
+
+  it('blocks writes to read-only collections but allows reads', () => {
+    const ctx = policyCtx({ collections: { audit: { readOnly: true } } });
+    expect(reasonOf(() => checkPolicy(ctx, op({ operation: 'insertOne', collection: 'audit', doc: {} })))).toMatch(/read-only/);
+    expect(() => checkPolicy(ctx, op({ operation: 'queryOne', collection: 'audit' }))).not.toThrow();
+  });
+
+  it('lets a collection override the default max limit', () => {
+    const ctx = policyCtx({ maxLimit: 100, collections: { events: { maxLimit: 1000 } } });
+    expect(reasonOf(() => checkPolicy(ctx, op({ limit: 500 })))).toMatch(/at most 100/);
+    expect(() => checkPolicy(ctx, op({ collection: 'events', limit: 500 }))).not.toThrow();
+  });
+
+  it('caps $in size and regex length, including nested filters', () => {
+    const ctx = policyCtx({ maxInSize: 3, maxRegexLength: 5 });
+    expect(reasonOf(() => checkPolicy(ctx, op({ filter: { $or: [{ role: { $in: ['a', 'b', 'c', 'd'] } }] } })))).toMatch(/\$in on "role" has 4 values/);
+    expect(reasonOf(() => checkPolicy(ctx, op({ filter: { name: { $not: { $regex: '^abcdef' } } } })))).toMatch(/\$regex on "name"/);
+    expect(reasonOf(() => checkPolicy(ctx, op({ filter: { name: /^abcdef/ } })))).toMatch(/7 characters/);
+    expect(() => checkPolicy(ctx, op({ filter: { role: { $in: ['a', 'b'] }, name: { $regex: '^ab' } } }))).not.toThrow();
+  });
+
+  it('requires filter fields, accepting them in every $or branch', () => {
+    const ctx = policyCtx({ requireFilterFields: ['tenantId'] });
+    expect(() => checkPolicy(ctx, op({ filter: { tenantId: 't1', role: 'admin' } }))).not.toThrow();
+    expect(() => checkPolicy(ctx, op({ filter: { $or: [{ tenantId: 't1' }, { tenantId: 't2' }] } }))).not.toThrow();
+    expect(reasonOf(() => checkPolicy(ctx, op({ filter: { $or: [{ tenantId: 't1' }, { role: 'admin' }] } })))).toMatch(/must filter on tenantId/);
+    expect(() => checkPolicy(ctx, op({ operation: 'insertOne', filter: undefined, doc: {} }))).not.toThrow();
+  });
+
+  it('blocks getById when the policy requires filter fields', () => {
+    const ctx = policyCtx({ collections: { orders: { requireFilterFields: ['tenantId'] } } });
+    expect(reasonOf(() => checkPolicy(ctx, op({ operation: 'getById', collection: 'orders', filter: undefined }))))
+      .toMatch(/getById on "orders" cannot filter on tenantId/);
+    expect(() => checkPolicy(ctx, op({ operation: 'getById', collection: 'users', filter: undefined }))).not.toThrow();
+  });
+
+  it('runs custom rules with the operation context and uses their fix', () => {
+    const rule = vi.fn((context: GuardrailRuleContext) => context.operation === 'updateMany' && !context.update?.['$set']
+      ? { reason: 'updateMany must use $set.', fix: 'Wrap the changes in $set.' }
+      : undefined);
+    const ctx = policyCtx({}, [rule]);
+
+    checkPolicy(ctx, op({}));
+    try {
+      checkPolicy(ctx, op({ operation: 'updateMany', update: { $inc: { n: 1 } } }));
+      expect.fail('Should have thrown');
+    } catch (e) {
+      const err = e as StrictDBError;
+      expect(err.code).toBe('GUARDRAIL_BLOCKED');
+      expect(err.fix).toBe('Wrap the changes in $set.');
+    }
+    expect(rule).toHaveBeenCalledTimes(2);
+    expect(rule).toHaveBeenLastCalledWith(expect.objectContaining({ collection: 'users', backend: 'mongo' }));
+  });
+});
+
+describe('index guard on StrictDB reads', () => {
+  let dir: string;
+  let db: StrictDB | undefined;
+
+  async function openWithItems(): Promise<StrictDB> {
+    db = await StrictDB.create({
+      uri: `sqlite://${join(dir, 'guard.db')}`,
+      indexGuard: { mode: 'block', minDocuments: 1 },
+    });
+    const raw = db.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL)');
+    await raw.execute("INSERT INTO items (name) VALUES ('a'), ('b')");
+    return db;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-guard-'));
+  });
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('checks stream() filters once iteration starts', async () => {
+    const conn = await openWithItems();
+    const iterate = async () => {
+      for await (const item of conn.stream('items', { name: 'a' })) void item;
+    };
+    await expect(iterate()).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+
+    const names: unknown[] = [];
+    for await (const item of conn.stream<{ id: number; name: string }>('items', { id: { $gt: 0 } })) names.push(item.name);
+    expect(names).toEqual(['a', 'b']);
+  });
+
+  it('checks paginate() filters and sorts', async () => {
+    const conn = await openWithItems();
+    await expect(conn.paginate('items', { name: 'a' })).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    await expect(conn.paginate('items', { id: { $gt: 0 } }, { sort: { name: 1 } }))
+      .rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+
+    const page = await conn.paginate('items', { id: { $gt: 0 } }, { pageSize: 1 });
+    expect(page.items).toHaveLength(1);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('checks aggregate() and distinct() filters', async () => {
+    const conn = await openWithItems();
+    await expect(conn.aggregate('items', { match: { name: 'a' }, groupBy: 'name', metrics: { n: { $count: true } } }))
+      .rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    await expect(conn.distinct('items', 'name', { name: 'a' })).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+
+    expect(await conn.distinct('items', 'name', { id: { $gt: 1 } })).toEqual(['b']);
+  });
+});
+
+describe('guardrail policy on StrictDB reads', () => {
+  let dir: string;
+  let db: StrictDB | undefined;
+
+  async function openWithItems(policy: GuardrailPolicy): Promise<StrictDB> {
+    db = await StrictDB.create({ uri: `sqlite://${join(dir, 'policy.db')}`, guardrailPolicy: policy });
+    const raw = db.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL, owner TEXT NOT NULL)');
+    await raw.execute("INSERT INTO items (name, owner) VALUES ('a', 'o1'), ('b', 'o2')");
+    return db;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-policy-'));
+  });
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('blocks getById on a collection that requires filter fields', async () => {
+    const conn = await openWithItems({ requireFilterFields: ['owner'] });
+    await expect(conn.getById('items', 1)).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    expect(await conn.queryOne('items', { id: 1, owner: 'o1' })).toMatchObject({ name: 'a' });
+  });
+
+  it('checks the policy before explain({ analyze: true }) runs the query', async () => {
+    const conn = await openWithItems({ requireFilterFields: ['owner'], maxLimit: 10 });
+    await expect(conn.explain('items', { filter: { name: 'a' } }, { analyze: true }))
+      .rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    await expect(conn.explain('items', { filter: { owner: 'o1' }, limit: 50 }, { analyze: true }))
+      .rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    const analyzed = await conn.explain('items', { filter: { owner: 'o1' }, limit: 5 }, { analyze: true });
+    expect(analyzed.summary).toBeDefined();
+    // Without analyze nothing runs, so the policy does not apply
+    expect((await conn.explain('items', { filter: { name: 'a' } })).native).toContain('SELECT');
+  });
+});
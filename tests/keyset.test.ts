@@ -0,0 +1,141 @@
+/**
+ * Keyset Tests — sort resolution, resume filters, projections, page cursors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  andFilters,
+  buildKeysetFilter,
+  decodeCursor,
+  encodeCursor,
+  isObjectIdTag,
+  keysetValues,
+  resolveKeysetSort,
+  toSortSpec,
+  withKeyFields,
+} from '../src/keyset.js';
+import { translateToSQL } from '../src/filter-translator.js';
+
+describe('resolveKeysetSort', () => {
+  it('appends the tiebreaker ascending', () => {
+    expect(resolveKeysetSort({ createdAt: 'desc' }, 'id')).toEqual([['createdAt', -1], ['id', 1]]);
+  });
+
+  it('keeps the tiebreaker direction when already sorted on it', () => {
+    expect(resolveKeysetSort({ id: -1 }, 'id')).toEqual([['id', -1]]);
+  });
+
+  it('sorts by the tiebreaker alone when no sort is given', () => {
+    expect(toSortSpec(resolveKeysetSort(undefined, '_id'))).toEqual({ _id: 1 });
+  });
+});
+
+describe('buildKeysetFilter', () => {
+  const keys = resolveKeysetSort({ createdAt: -1 }, 'id');
+
+  it('expands to one branch per sort key', () => {
+    expect(buildKeysetFilter(keys, ['2024-01-01', 42])).toEqual({
+      $or: [
+        { createdAt: { $lt: '2024-01-01' } },
+        { createdAt: '2024-01-01', id: { $gt: 42 } },
+      ],
+    });
+  });
+
+  it('uses a single range for a single key', () => {
+    expect(buildKeysetFilter([['id', 1]], [7])).toEqual({ id: { $gt: 7 } });
+  });
+
+  it('translates to SQL', () => {
+    const filter = andFilters({ status: 'active' }, buildKeysetFilter(keys, ['2024-01-01', 42]));
+    const result = translateToSQL(filter);
+    expect(result.clause).toBe('(("status" = $1) AND ((("createdAt" < $2) OR ("createdAt" = $3 AND "id" > $4))))');
+    expect(result.values).toEqual(['active', '2024-01-01', '2024-01-01', 42]);
+  });
+
+  it('reads resume values from a row', () => {
+    expect(keysetValues(keys, { id: 42, createdAt: '2024-01-01', name: 'x' })).toEqual(['2024-01-01', 42]);
+  });
+});
+
+describe('andFilters', () => {
+  it('returns the extra filter alone when the base is empty', () => {
+    expect(andFilters({}, { id: { $gt: 1 } })).toEqual({ id: { $gt: 1 } });
+  });
+});
+
+describe('withKeyFields', () => {
+  const keys = resolveKeysetSort({ createdAt: 1 }, 'id');
+
+  it('adds missing sort keys to an inclusion projection', () => {
+    expect(withKeyFields({ name: 1 }, keys)).toEqual({
+      projection: { name: 1, createdAt: 1, id: 1 },
+      added: ['createdAt', 'id'],
+    });
+  });
+
+  it('leaves exclusion projections alone', () => {
+    expect(withKeyFields({ password: 0 }, keys)).toEqual({ projection: { password: 0 }, added: [] });
+  });
+
+  it('stops excluding sort keys', () => {
+    expect(withKeyFields({ id: 0, password: 0 }, keys)).toEqual({ projection: { password: 0 }, added: ['id'] });
+    expect(withKeyFields({ id: 0 }, keys)).toEqual({ projection: undefined, added: ['id'] });
+  });
+});
+
+describe('page cursors', () => {
+  const keys = resolveKeysetSort({ createdAt: -1 }, '_id');
+
+  it('round-trips values, including dates', () => {
+    const createdAt = new Date('2024-03-01T12:00:00.000Z');
+    const token = encodeCursor(keys, [createdAt, 'abc']);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token, keys, 'mongo')).toEqual([createdAt, 'abc']);
+  });
+
+  it('tags ObjectIds for the Mongo adapter', () => {
+    const oid = { _bsontype: 'ObjectId', toHexString: () => '65f1a2b3c4d5e6f708091a2b' };
+    const [, value] = decodeCursor(encodeCursor(keys, [1, oid]), keys, 'mongo');
+    expect(isObjectIdTag(value)).toBe(true);
+    expect(value).toEqual({ $oid: '65f1a2b3c4d5e6f708091a2b' });
+  });
+
+  it('rejects a cursor created with a different sort', () => {
+    const token = encodeCursor(keys, [1, 'abc']);
+    expect(() => decodeCursor(token, resolveKeysetSort({ createdAt: 1 }, '_id'), 'mongo'))
+      .toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+
+  it('rejects garbage', () => {
+    expect(() => decodeCursor('not-a-cursor', keys, 'sql')).toThrow(/not a valid page token/);
+  });
+
+  describe('forged values', () => {
+    const forge = (values: unknown[]) =>
+      Buffer.from(JSON.stringify({ s: keys, v: values })).toString('base64url');
+
+    it.each([
+      ['$ne operator', { $ne: 'zzz' }],
+      ['$regex operator', { $regex: '.*' }],
+      ['$in operator', { $in: [1, 2, 3] }],
+      ['$date with an operator alongside', { $date: '2024-01-01T00:00:00.000Z', $ne: null }],
+      ['$date that is not a date', { $date: 'tomorrow-ish' }],
+      ['$oid that is not hex', { $oid: { $gt: '' } }],
+      ['nested object', { a: 1 }],
+      ['array', ['a']],
+    ])('rejects a %s', (_label, forged) => {
+      expect(() => decodeCursor(forge([forged, 'abc']), keys, 'mongo'))
+        .toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR', message: expect.stringContaining('not a sort key value') }));
+    });
+
+    it('rejects an operator in the tiebreaker position on SQL', () => {
+      expect(() => decodeCursor(forge([1, { $ne: 'zzz' }]), keys, 'sql'))
+        .toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR', backend: 'sql' }));
+    });
+
+    it('accepts plain scalars and null', () => {
+      expect(decodeCursor(forge([null, true]), keys, 'sql')).toEqual([null, true]);
+    });
+  });
+});
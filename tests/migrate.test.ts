@@ -0,0 +1,257 @@
+/**
+ * Migration Tests — Schema diffing, ALTER TABLE generation, checksums and
+ * db.migrate against a temporary SQLite file
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { StrictDB } from '../src/index.js';
+import type { Migration } from '../src/index.js';
+import {
+  checksum,
+  diffElasticMapping,
+  diffMongoValidator,
+  diffSqlTable,
+  generateMigrationHistorySQL,
+  migrationChecksum,
+  migrationsCollection,
+  sqlTypeFamily,
+} from '../src/migrate.js';
+import { generateMongoValidator } from '../src/schema.js';
+
+const schema = z.object({
+  title: z.string(),
+  views: z.number().int(),
+  status: z.enum(['draft', 'live']).optional(),
+});
+
+describe('sqlTypeFamily', () => {
+  it('matches declared types with introspected ones', () => {
+    expect(sqlTypeFamily('VARCHAR(255)')).toBe(sqlTypeFamily('character varying'));
+    expect(sqlTypeFamily('TIMESTAMPTZ')).toBe(sqlTypeFamily('timestamp with time zone'));
+    expect(sqlTypeFamily('INT')).toBe(sqlTypeFamily('integer'));
+    expect(sqlTypeFamily('TINYINT(1)')).toBe('boolean');
+    expect(sqlTypeFamily('DOUBLE PRECISION')).toBe('number');
+    expect(sqlTypeFamily('JSONB')).toBe('json');
+  });
+});
+
+describe('diffSqlTable', () => {
+  it('creates a missing table', () => {
+    const { steps } = diffSqlTable('posts', schema, [], 'pg');
+    expect(steps).toHaveLength(1);
+    expect(steps[0]!.action).toBe('createCollection');
+    expect(steps[0]!.native).toContain('CREATE TABLE IF NOT EXISTS "posts"');
+  });
+
+  it('is empty when the table matches', () => {
+    const live = [
+      { name: 'id', type: 'integer', required: true },
+      { name: 'title', type: 'text', required: true },
+      { name: 'views', type: 'integer', required: true },
+      { name: 'status', type: 'text', required: false },
+    ];
+    expect(diffSqlTable('posts', schema, live, 'pg')).toEqual({ steps: [], warnings: [] });
+  });
+
+  it('adds missing columns as nullable and warns about required ones', () => {
+    const { steps, warnings } = diffSqlTable('posts', schema, [{ name: 'title', type: 'text', required: true }], 'pg');
+    expect(steps.map(s => s.native)).toEqual([
+      'ALTER TABLE "posts" ADD COLUMN "views" INTEGER',
+      `ALTER TABLE "posts" ADD COLUMN "status" TEXT CHECK ("status" IN ('draft', 'live'))`,
+    ]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('"views"');
+  });
+
+  it('uses ADD without COLUMN on MSSQL', () => {
+    const { steps } = diffSqlTable('posts', z.object({ title: z.string().optional() }), [{ name: 'id', type: 'int', required: true }], 'mssql');
+    expect(steps[0]!.native).toBe('ALTER TABLE "posts" ADD "title" NVARCHAR(MAX)');
+  });
+
+  it('alters type and nullability per dialect', () => {
+    const live = [{ name: 'title', type: 'integer', required: false }];
+    const target = z.object({ title: z.string() });
+
+    const pg = diffSqlTable('posts', target, live, 'pg').steps;
+    expect(pg.map(s => s.native)).toEqual([
+      'ALTER TABLE "posts" ALTER COLUMN "title" TYPE TEXT USING "title"::TEXT',
+      'ALTER TABLE "posts" ALTER COLUMN "title" SET NOT NULL',
+    ]);
+    expect(pg.map(s => s.destructive)).toEqual([true, false]);
+
+    expect(diffSqlTable('posts', target, live, 'mysql2').steps[0]!.native)
+      .toBe('ALTER TABLE "posts" MODIFY COLUMN "title" TEXT NOT NULL');
+    expect(diffSqlTable('posts', target, live, 'mssql').steps[0]!.native)
+      .toBe('ALTER TABLE "posts" ALTER COLUMN "title" NVARCHAR(MAX) NOT NULL');
+  });
+
+  it('warns instead of altering columns on SQLite', () => {
+    const { steps, warnings } = diffSqlTable('posts', z.object({ title: z.string() }), [{ name: 'title', type: 'INTEGER', required: true }], 'sqlite');
+    expect(steps).toEqual([]);
+    expect(warnings[0]).toContain('SQLite cannot alter "posts"."title"');
+  });
+
+  it('drops undeclared columns as destructive steps, but never the id key', () => {
+    const live = [
+      { name: 'id', type: 'integer', required: true },
+      { name: 'title', type: 'text', required: true },
+      { name: 'legacy', type: 'text', required: false },
+    ];
+    const { steps } = diffSqlTable('posts', z.object({ title: z.string() }), live, 'pg');
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ action: 'dropField', field: 'legacy', destructive: true, native: 'ALTER TABLE "posts" DROP COLUMN "legacy"' });
+  });
+
+  it('escapes double quotes in table and column names', () => {
+    const live = [{ name: 'id', type: 'integer', required: true }, { name: 'old"col', type: 'text', required: false }];
+    const { steps } = diffSqlTable('my"posts', z.object({ 'new"col': z.string().optional() }), live, 'pg');
+    expect(steps.map(step => step.native)).toEqual([
+      'ALTER TABLE "my""posts" ADD COLUMN "new""col" TEXT',
+      'ALTER TABLE "my""posts" DROP COLUMN "old""col"',
+    ]);
+  });
+});
+
+describe('diffElasticMapping', () => {
+  it('creates a missing index with the full mapping', () => {
+    const { steps } = diffElasticMapping('posts', schema, null);
+    expect(steps[0]!.action).toBe('createCollection');
+  });
+
+  it('adds new fields and warns about type changes', () => {
+    const { steps, warnings } = diffElasticMapping('posts', schema, [
+      { name: 'title', type: 'text' },
+      { name: 'views', type: 'keyword' },
+    ]);
+    expect(steps).toHaveLength(1);
+    expect(steps[0]!.action).toBe('updateMapping');
+    expect(steps[0]!.native).toEqual({ properties: { status: { type: 'keyword' } } });
+    expect(warnings[0]).toContain('reindex');
+  });
+});
+
+describe('diffMongoValidator', () => {
+  it('creates a missing collection, then updates only a changed validator', () => {
+    expect(diffMongoValidator('posts', schema, { exists: false }).steps[0]!.action).toBe('createCollection');
+    expect(diffMongoValidator('posts', schema, { exists: true, validator: generateMongoValidator(schema) }).steps).toEqual([]);
+    expect(diffMongoValidator('posts', schema, { exists: true }).steps[0]!.action).toBe('updateValidator');
+  });
+});
+
+describe('checksums and history', () => {
+  it('changes with the migration code', () => {
+    const up = async () => {};
+    const a = migrationChecksum({ id: '001', up });
+    expect(a).toBe(migrationChecksum({ id: '001', up }));
+    expect(a).not.toBe(migrationChecksum({ id: '001', up, down: async () => {} }));
+    expect(checksum('x')).toHaveLength(64);
+  });
+
+  it('names the history index without a leading underscore on Elasticsearch', () => {
+    expect(migrationsCollection('sql')).toBe('_strictdb_migrations');
+    expect(migrationsCollection('elastic')).toBe('strictdb_migrations');
+  });
+
+  it('keys the history table on id', () => {
+    expect(generateMigrationHistorySQL('pg')).toContain('"id" VARCHAR(255) NOT NULL');
+    expect(generateMigrationHistorySQL('pg')).toMatch(/PRIMARY KEY \("id"\)\n\)$/);
+  });
+});
+
+describe('db.migrate on SQLite', () => {
+  let dir: string;
+  let db: StrictDB | undefined;
+
+  async function open(): Promise<StrictDB> {
+    db = await StrictDB.create({ uri: `sqlite://${join(dir, 'test.db')}` });
+    const raw = db.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)');
+    return db;
+  }
+
+  function insertNote(id: string, body: string): Migration {
+    return {
+      id,
+      up: async conn => { await conn.insertOne('notes', { body }); },
+      down: async conn => { await conn.deleteOne('notes', { body }); },
+    };
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-migrate-'));
+  });
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies pending migrations once and lists them in the history', async () => {
+    const conn = await open();
+    const migrations = [insertNote('001', 'a'), insertNote('002', 'b')];
+    expect((await conn.migrate.apply({ migrations })).applied.map(r => r.id)).toEqual(['001', '002']);
+    expect((await conn.migrate.apply({ migrations })).applied).toEqual([]);
+    expect((await conn.migrate.history()).map(r => [r.id, r.kind])).toEqual([['001', 'migration'], ['002', 'migration']]);
+    expect(await conn.count('notes')).toBe(2);
+  });
+
+  it('rolls back the most recent migrations, newest first', async () => {
+    const conn = await open();
+    const migrations = [insertNote('001', 'a'), insertNote('002', 'b'), insertNote('003', 'c')];
+    await conn.migrate.apply({ migrations });
+    expect((await conn.migrate.rollback({ migrations })).map(r => r.id)).toEqual(['003']);
+    expect((await conn.migrate.rollback({ migrations, steps: 2 })).map(r => r.id)).toEqual(['002', '001']);
+    expect(await conn.migrate.history()).toEqual([]);
+    expect(await conn.count('notes')).toBe(0);
+  });
+
+  it('rejects a step count that is not a positive integer', async () => {
+    const conn = await open();
+    const migrations = [insertNote('001', 'a')];
+    await conn.migrate.apply({ migrations });
+    for (const steps of [0, -1, 1.5]) {
+      await expect(conn.migrate.rollback({ migrations, steps })).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    }
+    expect(await conn.count('notes')).toBe(1);
+  });
+
+  it('records schema steps in the history', async () => {
+    const conn = await open();
+    conn.registerCollection({ name: 'notes', schema: z.object({ body: z.string(), tag: z.string().optional() }) });
+    const { applied } = await conn.migrate.apply();
+    expect(applied).toMatchObject([{ kind: 'schema' }]);
+    expect(applied[0]!.id).toMatch(/^schema:notes:/);
+    expect((await conn.describe('notes')).fields.map(f => f.name)).toContain('tag');
+  });
+
+  it('runs each migration once when two apply() calls race', async () => {
+    const conn = await open();
+    let runs = 0;
+    const migrations: Migration[] = [{ id: '001', up: async () => { runs++; } }];
+    const results = await Promise.all([conn.migrate.apply({ migrations }), conn.migrate.apply({ migrations })]);
+    expect(runs).toBe(1);
+    expect(results.map(r => r.applied.length).sort()).toEqual([0, 1]);
+    expect((await conn.migrate.history()).map(r => r.id)).toEqual(['001']);
+  });
+
+  it('times out while another run holds the lock', async () => {
+    const conn = await open();
+    await conn.migrate.apply({ migrations: [insertNote('001', 'a')] });
+    const raw = conn.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute(`INSERT INTO _strictdb_migrations (id, kind, checksum, applied_at) VALUES ('migrate:lock', 'lock', 'other', '2026-01-01T00:00:00.000Z')`);
+
+    const migrations = [insertNote('001', 'a'), insertNote('002', 'b')];
+    await expect(conn.migrate.apply({ migrations, lockTimeout: 0 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+    await expect(conn.migrate.rollback({ migrations, lockTimeout: 0 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(await conn.count('notes')).toBe(1);
+
+    await conn.deleteOne('_strictdb_migrations', { id: 'migrate:lock' });
+    expect((await conn.migrate.apply({ migrations })).applied.map(r => r.id)).toEqual(['002']);
+    expect((await conn.migrate.history()).map(r => r.id)).toEqual(['001', '002']);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Pool Monitor Tests — pool-status emitted on change
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PoolMonitor } from '../src/pool-monitor.js';
+import { StrictDBEventEmitter } from '../src/events.js';
+import type { PoolStats } from '../src/types.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('PoolMonitor', () => {
+  it('emits the first sample and then only changes', () => {
+    const emitter = new StrictDBEventEmitter();
+    const handler = vi.fn();
+    emitter.on('pool-status', handler);
+
+    let stats: PoolStats = { active: 0, idle: 2, waiting: 0, max: 10 };
+    const monitor = new PoolMonitor(1000, emitter, 'sql', () => stats);
+
+    monitor.check();
+    monitor.check();
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler).toHaveBeenCalledWith({ active: 0, idle: 2, waiting: 0, max: 10, backend: 'sql' });
+
+    stats = { active: 1, idle: 1, waiting: 0, max: 10 };
+    monitor.check();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('samples on an interval until stopped', () => {
+    vi.useFakeTimers();
+    const emitter = new StrictDBEventEmitter();
+    const handler = vi.fn();
+    emitter.on('pool-status', handler);
+
+    let active = 0;
+    const monitor = new PoolMonitor(1000, emitter, 'mongo', () => ({ active: active++, idle: 0, waiting: 0, max: 10 }));
+    monitor.start();
+    expect(handler).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(3000);
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    monitor.stop();
+    vi.advanceTimersByTime(3000);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not start when the interval is 0', () => {
+    const emitter = new StrictDBEventEmitter();
+    const read = vi.fn(() => ({ active: 0, idle: 0, waiting: 0, max: 10 }));
+    new PoolMonitor(0, emitter, 'elastic', read).start();
+    expect(read).not.toHaveBeenCalled();
+  });
+});
@@ -72,6 +72,34 @@ describe('createReceipt', () => {
     expect(receipt.deletedCount).toBe(2);
   });
 
+  it('carries inserted and upserted keys only when given', () => {
+    const insert = createReceipt({
+      operation: 'insertMany', collection: 'users', backend: 'sql', startTime: Date.now(),
+      insertedCount: 2, insertedIds: [41, 42],
+    });
+    expect(insert.insertedIds).toEqual([41, 42]);
+    expect('upsertedId' in insert).toBe(false);
+
+    const upsert = createReceipt({
+      operation: 'updateOne', collection: 'users', backend: 'elastic', startTime: Date.now(),
+      insertedCount: 1, upsertedId: 'a1b2',
+    });
+    expect(upsert.upsertedId).toBe('a1b2');
+    expect('insertedIds' in upsert).toBe(false);
+  });
+
+  it('marks soft deletes and omits deleteMode otherwise', () => {
+    const soft = createReceipt({
+      operation: 'deleteMany', collection: 'posts', backend: 'mongo', startTime: Date.now(),
+      matchedCount: 3, deletedCount: 3, deleteMode: 'soft',
+    });
+    expect(soft.deleteMode).toBe('soft');
+    expect(soft.deletedCount).toBe(3);
+
+    const update = createReceipt({ operation: 'updateOne', collection: 'posts', backend: 'mongo', startTime: Date.now() });
+    expect('deleteMode' in update).toBe(false);
+  });
+
   it('allows explicit success: false', () => {
     const receipt = createReceipt({
       operation: 'insertOne',
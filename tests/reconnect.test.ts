@@ -0,0 +1,83 @@
+/**
+ * Reconnect Manager Tests — trigger, queueing and fail-fast
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ReconnectManager } from '../src/reconnect.js';
+import { StrictDBEventEmitter } from '../src/events.js';
+import { StrictDBError } from '../src/errors.js';
+
+const fast = { initialDelayMs: 1, maxDelayMs: 5, maxAttempts: 3 };
+
+describe('ReconnectManager', () => {
+  it('resolves ready() immediately when connected', async () => {
+    const manager = new ReconnectManager(fast, new StrictDBEventEmitter(), 'sql');
+    expect(manager.isReconnecting).toBe(false);
+    await expect(manager.ready()).resolves.toBeUndefined();
+  });
+
+  it('queues operations until the connection is restored', async () => {
+    const emitter = new StrictDBEventEmitter();
+    const reconnected = vi.fn();
+    emitter.on('reconnected', reconnected);
+    const manager = new ReconnectManager(fast, emitter, 'sql');
+
+    let calls = 0;
+    manager.trigger(async () => {
+      calls++;
+      if (calls < 2) throw new Error('still down');
+    });
+
+    expect(manager.isReconnecting).toBe(true);
+    await manager.ready();
+    expect(calls).toBe(2);
+    expect(manager.isReconnecting).toBe(false);
+    expect(reconnected).toHaveBeenCalledOnce();
+  });
+
+  it('ignores triggers while a reconnect is already running', async () => {
+    const manager = new ReconnectManager(fast, new StrictDBEventEmitter(), 'mongo');
+    const connectFn = vi.fn(async () => {});
+
+    manager.trigger(connectFn);
+    manager.trigger(connectFn);
+    await manager.ready();
+    expect(connectFn).toHaveBeenCalledOnce();
+  });
+
+  it('fails fast when queueWhileReconnecting is false', async () => {
+    const manager = new ReconnectManager({ ...fast, queueWhileReconnecting: false }, new StrictDBEventEmitter(), 'elastic');
+    manager.trigger(async () => { throw new Error('down'); });
+
+    await expect(manager.ready()).rejects.toMatchObject({ code: 'CONNECTION_LOST', retryable: true });
+    manager.stop();
+  });
+
+  it('throws CONNECTION_LOST when max attempts are exhausted', async () => {
+    const emitter = new StrictDBEventEmitter();
+    emitter.on('error', () => {});
+    const manager = new ReconnectManager(fast, emitter, 'sql');
+    manager.trigger(async () => { throw new Error('down'); });
+
+    const err = await manager.ready().catch(e => e);
+    expect(err).toBeInstanceOf(StrictDBError);
+    expect(err.code).toBe('CONNECTION_LOST');
+    expect(manager.attemptCount).toBe(3);
+  });
+
+  it('does nothing when disabled', async () => {
+    const manager = new ReconnectManager(false, new StrictDBEventEmitter(), 'sql');
+    const connectFn = vi.fn(async () => {});
+    manager.trigger(connectFn);
+    expect(manager.isReconnecting).toBe(false);
+    expect(connectFn).not.toHaveBeenCalled();
+  });
+
+  it('stop() ends a loop that is waiting between attempts', async () => {
+    const manager = new ReconnectManager({ initialDelayMs: 60_000 }, new StrictDBEventEmitter(), 'sql');
+    manager.trigger(async () => {});
+    manager.stop();
+    await expect(manager.ready()).rejects.toMatchObject({ code: 'CONNECTION_LOST' });
+    expect(manager.isReconnecting).toBe(false);
+  });
+});
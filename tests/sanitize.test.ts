@@ -11,6 +11,7 @@ import {
   validateIndexName,
   validateRegexComplexity,
   sanitizeFilter,
+  sanitizeFields,
   applySanitizeRules,
 } from '../src/sanitize.js';
 import { StrictDBError } from '../src/errors.js';
@@ -60,11 +61,18 @@ describe('SQL field validation', () => {
 
 describe('Elasticsearch field validation', () => {
   it('blocks ES internal fields', () => {
-    expect(() => validateElasticFields('users', { _id: '123' })).toThrow(StrictDBError);
+    expect(() => validateElasticFields('users', { _index: 'users' })).toThrow(StrictDBError);
     expect(() => validateElasticFields('users', { _source: {} })).toThrow(StrictDBError);
     expect(() => validateElasticFields('users', { _score: 1 })).toThrow(StrictDBError);
   });
 
+  it('allows _id so documents can be matched by identity', () => {
+    registerFields('users', ['name']);
+    expect(() => validateElasticFields('users', { _id: 'abc' })).not.toThrow();
+    expect(() => validateElasticFields('users', { $or: [{ _id: 'abc' }, { name: 'Tim' }] })).not.toThrow();
+    expect(() => validateElasticFields('users', { _seq_no: 1 })).toThrow(/db\.getById/);
+  });
+
   it('allows normal fields', () => {
     expect(() => validateElasticFields('users', { name: 'Tim' })).not.toThrow();
   });
@@ -119,12 +127,35 @@ describe('sanitizeFilter', () => {
   });
 
   it('validates ES fields', () => {
-    expect(() => sanitizeFilter('users', { _id: '123' }, 'elastic')).toThrow(StrictDBError);
+    expect(() => sanitizeFilter('users', { _routing: '123' }, 'elastic')).toThrow(StrictDBError);
+  });
+
+  it('uses the provided field lookup instead of the module registry', () => {
+    registerFields('users', ['name']);
+    const lookup = (collection: string) => collection === 'users' ? new Set(['password']) : undefined;
+    expect(() => sanitizeFilter('users', { password: '123' }, 'sql', lookup)).not.toThrow();
+    expect(() => sanitizeFilter('users', { name: 'Tim' }, 'elastic', lookup)).toThrow(StrictDBError);
   });
 });
 
 // ─── Custom Sanitize Rules ──────────────────────────────────────────────────
 
+describe('sanitizeFields', () => {
+  it('checks bare field names against the whitelist', () => {
+    registerFields('orders', ['region', 'amount']);
+    expect(() => sanitizeFields('orders', ['region', 'amount'], 'sql')).not.toThrow();
+    expect(() => sanitizeFields('orders', ['regoin'], 'sql')).toThrow(/Unknown field "regoin"/);
+  });
+
+  it('blocks $-prefixed names on every backend', () => {
+    expect(() => sanitizeFields('orders', ['$where'], 'mongo')).toThrow(/cannot start with "\$"/);
+  });
+
+  it('blocks Elasticsearch internal fields', () => {
+    expect(() => sanitizeFields('orders', ['_index'], 'elastic')).toThrow(/internal field/);
+  });
+});
+
 describe('applySanitizeRules', () => {
   it('returns data unchanged when rules is empty', () => {
     const data = { name: 'Tim', age: 30 };
@@ -12,7 +12,10 @@ import {
   generateCreateTableSQL,
   generateCreateIndexSQL,
   generateElasticMapping,
+  generateMongoCollectionOptions,
+  generateMongoValidator,
   clearRegistry,
+  SchemaRegistry,
 } from '../src/schema.js';
 
 beforeEach(() => {
@@ -77,6 +80,45 @@ describe('Document Validation', () => {
   });
 });
 
+describe('SchemaRegistry instances', () => {
+  it('keeps registrations separate per instance', () => {
+    const primary = new SchemaRegistry();
+    const search = new SchemaRegistry();
+    primary.register({ name: 'users', schema: userSchema });
+
+    expect(primary.getCollections()).toEqual(['users']);
+    expect(search.getCollections()).toEqual([]);
+    expect(search.getSchema('users')).toBeUndefined();
+    expect(getRegisteredCollections()).toEqual([]);
+  });
+
+  it('extracts the field whitelist on register', () => {
+    const registry = new SchemaRegistry();
+    registry.register({ name: 'users', schema: userSchema });
+    expect(registry.getFields('users')?.has('email')).toBe(true);
+    expect(registry.getFields('orders')).toBeUndefined();
+  });
+
+  it('filters indexes by collection', () => {
+    const registry = new SchemaRegistry();
+    registry.register({ name: 'users', schema: userSchema, indexes: [{ collection: 'users', fields: { email: 1 }, unique: true }] });
+    registry.registerIndex({ collection: 'orders', fields: { userId: 1 } });
+
+    expect(registry.getIndexes()).toHaveLength(2);
+    expect(registry.getIndexes('orders')).toEqual([{ collection: 'orders', fields: { userId: 1 } }]);
+  });
+
+  it('validates documents and clears', () => {
+    const registry = new SchemaRegistry();
+    registry.register({ name: 'users', schema: userSchema });
+    expect(registry.validate('users', { email: 'x' })).not.toBeNull();
+
+    registry.clear();
+    expect(registry.validate('users', { email: 'x' })).toBeNull();
+    expect(registry.getFields('users')).toBeUndefined();
+  });
+});
+
 describe('SQL DDL Generation', () => {
   it('generates PostgreSQL CREATE TABLE', () => {
     const sql = generateCreateTableSQL('users', userSchema, 'pg');
@@ -196,3 +238,66 @@ describe('Elasticsearch Mapping Generation', () => {
     expect(props['metadata']).toEqual({ type: 'object' });
   });
 });
+
+describe('MongoDB Validator Generation', () => {
+  it('maps field types and required fields to $jsonSchema', () => {
+    const validator = generateMongoValidator(userSchema) as { $jsonSchema: Record<string, unknown> };
+    const props = validator.$jsonSchema['properties'] as Record<string, Record<string, unknown>>;
+    expect(validator.$jsonSchema['bsonType']).toBe('object');
+    expect(validator.$jsonSchema['required']).toEqual(['email', 'name', 'role', 'active', 'createdAt']);
+    expect(props['email']).toEqual({ bsonType: 'string', maxLength: 255 });
+    expect(props['active']).toEqual({ bsonType: 'bool' });
+    expect(props['createdAt']).toEqual({ bsonType: 'date' });
+  });
+
+  it('lets optional fields be null', () => {
+    const validator = generateMongoValidator(userSchema) as { $jsonSchema: Record<string, unknown> };
+    const props = validator.$jsonSchema['properties'] as Record<string, Record<string, unknown>>;
+    expect(props['age']).toEqual({ bsonType: ['number', 'null'] });
+    expect(props['tags']).toEqual({ bsonType: ['array', 'null'] });
+  });
+
+  it('adds enums and min/max bounds', () => {
+    const validator = generateMongoValidator(z.object({
+      role: z.enum(['admin', 'user']),
+      plan: z.enum(['free', 'pro']).optional(),
+      age: z.number().int().min(0).lt(150),
+      code: z.string().min(2).max(8),
+      tags: z.array(z.string()).min(1).max(5),
+    })) as { $jsonSchema: Record<string, unknown> };
+    const props = validator.$jsonSchema['properties'] as Record<string, Record<string, unknown>>;
+    expect(props['role']).toEqual({ bsonType: 'string', enum: ['admin', 'user'] });
+    expect(props['plan']).toEqual({ bsonType: ['string', 'null'], enum: ['free', 'pro', null] });
+    expect(props['age']).toEqual({ bsonType: 'number', minimum: 0, maximum: 150, exclusiveMaximum: true });
+    expect(props['code']).toEqual({ bsonType: 'string', minLength: 2, maxLength: 8 });
+    expect(props['tags']).toEqual({ bsonType: 'array', minItems: 1, maxItems: 5 });
+  });
+});
+
+describe('MongoDB Collection Options', () => {
+  const schema = z.object({ ts: z.date(), sensor: z.string(), value: z.number() });
+
+  it('validates strictly with errors by default', () => {
+    const options = generateMongoCollectionOptions({ name: 'readings', schema });
+    expect(options['validator']).toEqual(generateMongoValidator(schema));
+    expect(options['validationLevel']).toBe('strict');
+    expect(options['validationAction']).toBe('error');
+  });
+
+  it('passes validation settings and capped sizes through', () => {
+    const options = generateMongoCollectionOptions({
+      name: 'logs', schema, validationLevel: 'moderate', validationAction: 'warn', capped: { size: 1_048_576, max: 1000 },
+    });
+    expect(options).toMatchObject({ validationLevel: 'moderate', validationAction: 'warn', capped: true, size: 1_048_576, max: 1000 });
+  });
+
+  it('creates time-series collections without a validator', () => {
+    const options = generateMongoCollectionOptions({
+      name: 'readings', schema, timeseries: { timeField: 'ts', metaField: 'sensor', granularity: 'minutes', expireAfterSeconds: 86_400 },
+    });
+    expect(options).toEqual({
+      timeseries: { timeField: 'ts', metaField: 'sensor', granularity: 'minutes' },
+      expireAfterSeconds: 86_400,
+    });
+  });
+});
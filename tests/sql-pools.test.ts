@@ -0,0 +1,49 @@
+/**
+ * SQL Pool Tests — independent pools per key, shared in-flight connects
+ * (SQLite files, no server needed)
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { closePool, connect, getPool, queryMany } from '../src/core/db/sql.js';
+
+describe('SQL pool registry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-pools-'));
+  });
+
+  afterEach(async () => {
+    await closePool();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps pools with different keys independent', async () => {
+    const a = await connect(`sqlite://${join(dir, 'a.db')}`, { key: 'a' });
+    const b = await connect(`sqlite://${join(dir, 'b.db')}`, { key: 'b' });
+    expect(a).not.toBe(b);
+
+    await a.query('CREATE TABLE only_in_a (id INTEGER PRIMARY KEY)');
+    expect(await queryMany('SELECT name FROM sqlite_master WHERE name = $1', ['only_in_a'], 'a')).toHaveLength(1);
+    expect(await queryMany('SELECT name FROM sqlite_master WHERE name = $1', ['only_in_a'], 'b')).toHaveLength(0);
+  });
+
+  it('closes one key without touching the other', async () => {
+    await connect(`sqlite://${join(dir, 'a.db')}`, { key: 'a' });
+    await connect(`sqlite://${join(dir, 'b.db')}`, { key: 'b' });
+
+    await closePool('a');
+    expect(() => getPool('a')).toThrow('not connected');
+    expect(await queryMany('SELECT 1 AS one', undefined, 'b')).toEqual([{ one: 1 }]);
+  });
+
+  it('shares one pool between concurrent connects with the same key', async () => {
+    const uri = `sqlite://${join(dir, 'a.db')}`;
+    const [first, second] = await Promise.all([connect(uri, { key: 'a' }), connect(uri, { key: 'a' })]);
+    expect(first).toBe(second);
+    expect(getPool('a')).toBe(first);
+  });
+});
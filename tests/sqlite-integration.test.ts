@@ -0,0 +1,170 @@
+/**
+ * SQLite Integration Tests — StrictDB reads and writes against a temporary
+ * SQLite file (no server needed)
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { StrictDB } from '../src/index.js';
+import type { StrictDBConfig } from '../src/index.js';
+
+let dir: string;
+let db: StrictDB | undefined;
+
+async function openWithItems(config: Partial<StrictDBConfig> = {}): Promise<StrictDB> {
+  db = await StrictDB.create({ uri: `sqlite://${join(dir, 'test.db')}`, ...config });
+  const raw = db.raw() as { execute(sql: string): Promise<unknown> };
+  await raw.execute('CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL, status TEXT NOT NULL, deleted_at TEXT)');
+  await raw.execute(`INSERT INTO items (name, status) VALUES
+    ('a', 'open'), ('b', 'open'), ('c', 'done'), ('d', 'failed'), ('e', 'done')`);
+  return db;
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'strictdb-sqlite-'));
+});
+
+afterEach(async () => {
+  await db?.close();
+  db = undefined;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('distinct()', () => {
+  it('lists sorted values among matching rows', async () => {
+    const conn = await openWithItems();
+    expect(await conn.distinct('items', 'status')).toEqual(['done', 'failed', 'open']);
+    expect(await conn.distinct('items', 'status', { name: { $in: ['a', 'c'] } })).toEqual(['done', 'open']);
+  });
+
+  it('stops at the limit', async () => {
+    const conn = await openWithItems();
+    expect(await conn.distinct('items', 'status', {}, { limit: 2 })).toEqual(['done', 'failed']);
+  });
+});
+
+describe('updateOneAndReturn()', () => {
+  it('returns the row after the update by default, or before it on request', async () => {
+    const conn = await openWithItems();
+    expect(await conn.updateOneAndReturn('items', { name: 'a' }, { $set: { status: 'running' } }))
+      .toMatchObject({ name: 'a', status: 'running' });
+    expect(await conn.updateOneAndReturn('items', { name: 'a' }, { $set: { status: 'done' } }, { returnDocument: 'before' }))
+      .toMatchObject({ name: 'a', status: 'running' });
+    expect(await conn.queryOne('items', { name: 'a' })).toMatchObject({ status: 'done' });
+  });
+
+  it('takes the first match in sort order', async () => {
+    const conn = await openWithItems();
+    const claimed = await conn.updateOneAndReturn('items', { status: 'open' }, { $set: { status: 'running' } }, { sort: { name: -1 } });
+    expect(claimed).toMatchObject({ name: 'b', status: 'running' });
+    expect(await conn.queryOne('items', { name: 'a' })).toMatchObject({ status: 'open' });
+  });
+
+  it('returns null and changes nothing when no row matches', async () => {
+    const conn = await openWithItems();
+    expect(await conn.updateOneAndReturn('items', { name: 'zz' }, { $set: { status: 'running' } })).toBeNull();
+    expect(await conn.count('items', { status: 'running' })).toBe(0);
+  });
+
+  it('inserts from the filter and $set on upsert', async () => {
+    const conn = await openWithItems();
+    const doc = await conn.updateOneAndReturn('items', { name: 'f' }, { $set: { status: 'open' } }, { upsert: true });
+    expect(doc).toMatchObject({ name: 'f', status: 'open' });
+    expect(await conn.count('items')).toBe(6);
+  });
+
+  it('hands two concurrent claims different rows', async () => {
+    const conn = await openWithItems();
+    const claim = () => conn.updateOneAndReturn<{ name: string }>('items', { status: 'open' }, { $set: { status: 'running' } }, { sort: { name: 1 } });
+    const [first, second] = await Promise.all([claim(), claim()]);
+    expect([first?.name, second?.name].sort()).toEqual(['a', 'b']);
+    expect(await claim()).toBeNull();
+  });
+});
+
+describe('deleteOneAndReturn()', () => {
+  it('deletes and returns the first match in sort order', async () => {
+    const conn = await openWithItems();
+    expect(await conn.deleteOneAndReturn('items', { status: 'done' }, { sort: { name: -1 } })).toMatchObject({ name: 'e' });
+    expect(await conn.distinct('items', 'name', { status: 'done' })).toEqual(['c']);
+  });
+
+  it('returns null when no row matches', async () => {
+    const conn = await openWithItems();
+    expect(await conn.deleteOneAndReturn('items', { name: 'zz' })).toBeNull();
+    expect(await conn.count('items')).toBe(5);
+  });
+
+  it('deletes a different row for each concurrent call', async () => {
+    const conn = await openWithItems();
+    const take = () => conn.deleteOneAndReturn<{ name: string }>('items', { status: 'open' }, { sort: { name: 1 } });
+    const [first, second] = await Promise.all([take(), take()]);
+    expect([first?.name, second?.name].sort()).toEqual(['a', 'b']);
+    expect(await conn.count('items', { status: 'open' })).toBe(0);
+  });
+});
+
+describe('soft delete', () => {
+  const itemSchema = z.object({
+    name: z.string(),
+    status: z.string(),
+    deleted_at: z.date().nullable().optional(),
+  });
+
+  async function openSoftDelete(): Promise<StrictDB> {
+    const conn = await openWithItems();
+    conn.registerCollection({ name: 'items', schema: itemSchema, softDelete: true });
+    return conn;
+  }
+
+  it('marks rows on deleteOne and deleteMany and reports a soft deleteMode', async () => {
+    const conn = await openSoftDelete();
+    expect(await conn.deleteOne('items', { name: 'a' })).toMatchObject({ deleteMode: 'soft', deletedCount: 1 });
+    expect(await conn.deleteMany('items', { status: 'done' })).toMatchObject({ deleteMode: 'soft', deletedCount: 2 });
+    expect(await conn.count('items', {}, { withDeleted: true })).toBe(5);
+    expect(await conn.count('items', {}, { onlyDeleted: true })).toBe(3);
+  });
+
+  it('hides soft-deleted rows from every read unless asked', async () => {
+    const conn = await openSoftDelete();
+    await conn.deleteOne('items', { name: 'd' });
+    expect(await conn.count('items')).toBe(4);
+    expect(await conn.queryOne('items', { name: 'd' })).toBeNull();
+    expect(await conn.queryMany('items', {}, { limit: 10, onlyDeleted: true })).toMatchObject([{ name: 'd' }]);
+    expect(await conn.getById('items', 4)).toBeNull();
+    expect(await conn.getById('items', 4, { withDeleted: true })).toMatchObject({ name: 'd' });
+    expect(await conn.distinct('items', 'status')).toEqual(['done', 'open']);
+    expect(await conn.distinct('items', 'status', {}, { withDeleted: true })).toEqual(['done', 'failed', 'open']);
+  });
+
+  it('leaves soft-deleted rows out of updates unless withDeleted is set', async () => {
+    const conn = await openSoftDelete();
+    await conn.deleteOne('items', { name: 'a' });
+    expect(await conn.updateMany('items', { status: 'open' }, { $set: { status: 'held' } })).toMatchObject({ modifiedCount: 1 });
+    expect(await conn.updateOneAndReturn('items', { name: 'a' }, { $set: { status: 'held' } })).toBeNull();
+    expect(await conn.updateOne('items', { name: 'a' }, { $set: { status: 'held' } }, false, { withDeleted: true }))
+      .toMatchObject({ modifiedCount: 1 });
+  });
+
+  it('inserts a new row when an upsert only matches a soft-deleted one', async () => {
+    const conn = await openSoftDelete();
+    await conn.deleteOne('items', { name: 'a' });
+    expect(await conn.updateOne('items', { name: 'a' }, { $set: { status: 'new' } }, true)).toMatchObject({ insertedCount: 1 });
+    expect(await conn.queryOne('items', { name: 'a' })).toMatchObject({ status: 'new' });
+    expect(await conn.queryOne('items', { name: 'a' }, { onlyDeleted: true })).toMatchObject({ status: 'open' });
+  });
+
+  it('restores and purges only soft-deleted rows', async () => {
+    const conn = await openSoftDelete();
+    await conn.deleteMany('items', { status: 'done' });
+    expect(await conn.restore('items', { name: 'c' })).toMatchObject({ modifiedCount: 1 });
+    expect(await conn.queryOne('items', { name: 'c' })).toMatchObject({ status: 'done' });
+
+    expect(await conn.purge('items', { status: 'done' })).toMatchObject({ deletedCount: 1, deleteMode: 'hard' });
+    expect(await conn.count('items', {}, { withDeleted: true })).toBe(4);
+    await expect(conn.purge('items', {})).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tenancy Tests — Tenant filters, insert stamping and tenant-field updates,
+ * and the db.forTenant() view on SQLite
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+import { StrictDB } from '../src/index.js';
+import {
+  resolveTenancyConfig,
+  isTenantCollection,
+  sameTenant,
+  pinsOtherTenant,
+  scopeFilter,
+  stampTenant,
+  tenantFieldOperator,
+} from '../src/tenancy.js';
+
+describe('resolveTenancyConfig', () => {
+  it('is disabled without config', () => {
+    const cfg = resolveTenancyConfig(undefined);
+    expect(cfg.enabled).toBe(false);
+    expect(isTenantCollection(cfg, 'orders')).toBe(false);
+  });
+
+  it('defaults the field to tenantId', () => {
+    const cfg = resolveTenancyConfig({ collections: ['orders'] });
+    expect(cfg.field).toBe('tenantId');
+    expect(isTenantCollection(cfg, 'orders')).toBe(true);
+    expect(isTenantCollection(cfg, 'plans')).toBe(false);
+  });
+
+  it('uses a custom field name', () => {
+    expect(resolveTenancyConfig({ field: 'org_id', collections: ['orders'] }).field).toBe('org_id');
+  });
+});
+
+describe('sameTenant', () => {
+  it('compares by value so ObjectIds match their hex string', () => {
+    const id = new ObjectId();
+    expect(sameTenant(id, id.toHexString())).toBe(true);
+    expect(sameTenant(42, '42')).toBe(true);
+    expect(sameTenant('a', 'b')).toBe(false);
+    expect(sameTenant(undefined, 'a')).toBe(false);
+  });
+});
+
+describe('scopeFilter', () => {
+  it('adds the tenant at the top level', () => {
+    expect(scopeFilter({ status: 'open' }, 'tenantId', 't1')).toEqual({ status: 'open', tenantId: 't1' });
+  });
+
+  it('keeps a matching tenant value', () => {
+    expect(scopeFilter({ tenantId: 't1' }, 'tenantId', 't1')).toEqual({ tenantId: 't1' });
+  });
+
+  it('wraps filters with their own tenant condition in $and', () => {
+    const filter = { tenantId: { $exists: true }, status: 'open' };
+    expect(scopeFilter(filter, 'tenantId', 't1')).toEqual({ $and: [filter, { tenantId: 't1' }] });
+  });
+
+  it('does not mutate the input', () => {
+    const filter = { status: 'open' };
+    scopeFilter(filter, 'tenantId', 't1');
+    expect(filter).toEqual({ status: 'open' });
+  });
+});
+
+describe('pinsOtherTenant', () => {
+  it('flags a plain value for another tenant', () => {
+    expect(pinsOtherTenant({ tenantId: 't2' }, 'tenantId', 't1')).toBe(true);
+    expect(pinsOtherTenant({ tenantId: 't1' }, 'tenantId', 't1')).toBe(false);
+    expect(pinsOtherTenant({ status: 'open' }, 'tenantId', 't1')).toBe(false);
+  });
+
+  it('leaves operator conditions to the $and wrapper', () => {
+    expect(pinsOtherTenant({ tenantId: { $in: ['t1', 't2'] } }, 'tenantId', 't1')).toBe(false);
+  });
+});
+
+describe('stampTenant', () => {
+  it('sets the tenant field on a copy', () => {
+    const doc = { name: 'Widget' };
+    expect(stampTenant(doc, 'tenantId', 't1')).toEqual({ name: 'Widget', tenantId: 't1' });
+    expect(doc).toEqual({ name: 'Widget' });
+  });
+});
+
+describe('tenantFieldOperator', () => {
+  it('finds operators that write the tenant field or a path below it', () => {
+    expect(tenantFieldOperator({ $set: { tenantId: 't2' } }, 'tenantId')).toBe('$set');
+    expect(tenantFieldOperator({ $set: { name: 'x' }, $unset: { tenantId: true } }, 'tenantId')).toBe('$unset');
+    expect(tenantFieldOperator({ $set: { 'tenantId.region': 'eu' } }, 'tenantId')).toBe('$set');
+  });
+
+  it('ignores updates that leave it alone', () => {
+    expect(tenantFieldOperator({ $set: { tenantIdLabel: 'x' }, $inc: { views: 1 } }, 'tenantId')).toBeUndefined();
+  });
+});
+
+describe('db.forTenant() on SQLite', () => {
+  let dir: string;
+  let db: StrictDB | undefined;
+
+  async function open(): Promise<StrictDB> {
+    db = await StrictDB.create({
+      uri: `sqlite://${join(dir, 'tenancy.db')}`,
+      tenancy: { collections: ['orders', 'customers'] },
+    });
+    const raw = db.raw() as { execute(sql: string): Promise<unknown> };
+    await raw.execute('CREATE TABLE customers (id INTEGER PRIMARY KEY, tenantId TEXT NOT NULL, name TEXT NOT NULL)');
+    await raw.execute('CREATE TABLE orders (id INTEGER PRIMARY KEY, tenantId TEXT NOT NULL, customerId INTEGER, status TEXT NOT NULL)');
+    await raw.execute("INSERT INTO customers (id, tenantId, name) VALUES (1, 'acme', 'Ann'), (2, 'globex', 'Gus')");
+    await raw.execute(`INSERT INTO orders (id, tenantId, customerId, status) VALUES
+      (1, 'acme', 1, 'open'), (2, 'acme', 1, 'done'), (3, 'globex', 2, 'open'), (4, 'acme', 2, 'open')`);
+    return db;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'strictdb-tenancy-'));
+  });
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('adds the tenant to every read filter', async () => {
+    const acme = (await open()).forTenant('acme');
+    const ids = (await acme.queryMany<{ id: number }>('orders', { status: 'open' }, { limit: 10, sort: { id: 1 } })).map(o => o.id);
+    expect(ids).toEqual([1, 4]);
+    expect(await acme.count('orders')).toBe(3);
+    expect(await acme.getById('orders', 3)).toBeNull();
+  });
+
+  it('stamps inserted documents with the tenant and blocks another tenant', async () => {
+    const acme = (await open()).forTenant('acme');
+    await acme.insertOne('orders', { id: 5, status: 'open' });
+    expect(await db!.forTenant('globex').getById('orders', 5)).toBeNull();
+    expect(await acme.getById('orders', 5)).toMatchObject({ tenantId: 'acme' });
+    await expect(acme.insertOne('orders', { id: 6, tenantId: 'globex', status: 'open' }))
+      .rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+  });
+
+  it('rejects updates that set the tenant field', async () => {
+    const acme = (await open()).forTenant('acme');
+    await expect(acme.updateOne('orders', { id: 1 }, { $set: { tenantId: 'globex' } }))
+      .rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    expect(await acme.getById('orders', 1)).toMatchObject({ tenantId: 'acme' });
+  });
+
+  it('blocks unscoped calls on tenant collections', async () => {
+    const conn = await open();
+    await expect(conn.queryMany('orders', {}, { limit: 10 })).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+    await expect(conn.insertOne('orders', { status: 'open' })).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+  });
+
+  it('scopes the joined side of queryWithLookup', async () => {
+    const acme = (await open()).forTenant('acme');
+    // Order 4 belongs to acme but points at globex's customer — the join must come back empty
+    const order = await acme.queryWithLookup<{ customer: unknown[] }>('orders', {
+      match: { id: 4 },
+      lookup: { from: 'customers', localField: 'customerId', foreignField: 'id', as: 'customer' },
+    });
+    expect(order?.customer).toEqual([]);
+    const own = await acme.queryWithLookup<{ customer: Array<{ name: string }> }>('orders', {
+      match: { id: 1 },
+      lookup: { from: 'customers', localField: 'customerId', foreignField: 'id', as: 'customer' },
+    });
+    expect(own?.customer.map(c => c.name)).toEqual(['Ann']);
+  });
+
+  it('scopes batch operations', async () => {
+    const acme = (await open()).forTenant('acme');
+    const receipt = await acme.batch([
+      { operation: 'insertOne', collection: 'orders', doc: { id: 7, status: 'open' } },
+      { operation: 'updateMany', collection: 'orders', filter: { status: 'open' }, update: { $set: { status: 'held' } } },
+    ]);
+    expect(receipt).toMatchObject({ success: true, modifiedCount: 3 });
+    expect(await db!.forTenant('globex').getById('orders', 3)).toMatchObject({ status: 'open' });
+    await expect(acme.batch([
+      { operation: 'updateOne', collection: 'orders', filter: { id: 1 }, update: { $set: { tenantId: 'globex' } } },
+    ])).rejects.toMatchObject({ code: 'GUARDRAIL_BLOCKED' });
+  });
+
+  it('sanitizes the caller\'s explain filter before adding the tenant field', async () => {
+    const conn = await open();
+    // tenantId is not in the schema whitelist — only the tenant scope adds it
+    conn.registerCollection({ name: 'orders', schema: z.object({ customerId: z.number(), status: z.string() }) });
+    const acme = conn.forTenant('acme');
+    expect(await acme.explain('orders', { filter: { status: 'open' } }, { analyze: true })).toHaveProperty('summary');
+    await expect(acme.explain('orders', { filter: { colour: 'red' } }, { analyze: true }))
+      .rejects.toMatchObject({ code: 'QUERY_ERROR' });
+  });
+});
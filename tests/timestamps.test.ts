@@ -7,6 +7,9 @@ import {
   resolveTimestampConfig,
   injectInsertTimestamps,
   injectUpdateTimestamps,
+  buildSoftDeleteUpdate,
+  applySoftDeleteFilter,
+  matchesSoftDelete,
 } from '../src/timestamps.js';
 
 describe('resolveTimestampConfig', () => {
@@ -154,3 +157,40 @@ describe('injectUpdateTimestamps', () => {
     expect('created_at' in (result.$set as Record<string, unknown>)).toBe(false);
   });
 });
+
+describe('soft delete helpers', () => {
+  const config = resolveTimestampConfig(undefined);
+  const now = new Date('2025-01-15T12:00:00Z');
+
+  it('defaults the marker to deleted_at even with timestamps off', () => {
+    expect(config.deletedAt).toBe('deleted_at');
+    expect(resolveTimestampConfig({ deletedAt: 'removedAt' }).deletedAt).toBe('removedAt');
+  });
+
+  it('builds the soft-delete $set', () => {
+    expect(buildSoftDeleteUpdate(config, now)).toEqual({ $set: { deleted_at: now } });
+  });
+
+  it('narrows filters to live documents by default', () => {
+    expect(applySoftDeleteFilter({ status: 'open' }, config)).toEqual({ status: 'open', deleted_at: null });
+  });
+
+  it('selects only deleted documents, or leaves the filter alone with withDeleted', () => {
+    expect(applySoftDeleteFilter({}, config, { onlyDeleted: true })).toEqual({ deleted_at: { $ne: null } });
+    const filter = { status: 'open' };
+    expect(applySoftDeleteFilter(filter, config, { withDeleted: true })).toBe(filter);
+  });
+
+  it('wraps filters that already mention deleted_at in $and', () => {
+    const filter = { deleted_at: { $lt: now } };
+    expect(applySoftDeleteFilter(filter, config, { onlyDeleted: true }))
+      .toEqual({ $and: [filter, { deleted_at: { $ne: null } }] });
+  });
+
+  it('checks fetched documents the same way', () => {
+    expect(matchesSoftDelete({ deleted_at: null }, config)).toBe(true);
+    expect(matchesSoftDelete({ deleted_at: now }, config)).toBe(false);
+    expect(matchesSoftDelete({ deleted_at: now }, config, { withDeleted: true })).toBe(true);
+    expect(matchesSoftDelete({}, config, { onlyDeleted: true })).toBe(false);
+  });
+});